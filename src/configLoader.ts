@@ -0,0 +1,86 @@
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { ConfigParseResult, formatConfigPath, parseAppConfig } from './configSchema';
+import { isSecretEnvName, registerSecret } from './redaction';
+
+export const CONFIG_PATH_ENV = 'ERPC_CONFIG';
+
+// ${VAR}, ${VAR:-default}, and $${VAR} for a literal ${VAR}
+const ENV_REFERENCE = /\$?\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+// --config <path> or --config=<path> wins over ERPC_CONFIG, which wins over the default location
+export function resolveConfigPath(
+  argv: string[],
+  env: NodeJS.ProcessEnv,
+  defaultPath: string,
+  cwd: string = process.cwd()
+): string {
+  const flagIndex = argv.findIndex(arg => arg === '--config' || arg.startsWith('--config='));
+  const flagValue = flagIndex === -1
+    ? undefined
+    : argv[flagIndex].startsWith('--config=') ? argv[flagIndex].slice('--config='.length) : argv[flagIndex + 1];
+
+  const configured = flagValue || env[CONFIG_PATH_ENV];
+  return configured ? path.resolve(cwd, configured) : defaultPath;
+}
+
+// Parse YAML for .yaml/.yml files and JSON otherwise
+export function parseConfigText(text: string, filePath: string): unknown {
+  const extension = path.extname(filePath).toLowerCase();
+  return extension === '.yaml' || extension === '.yml' ? YAML.parse(text) : JSON.parse(text);
+}
+
+// Replace ${VAR} references in every string of the config. Unset variables without a default
+// are collected as errors; values of secret-looking variables are registered for redaction
+export function interpolateEnv(
+  raw: unknown,
+  env: NodeJS.ProcessEnv
+): { value: unknown; errors: string[] } {
+  const errors: string[] = [];
+
+  const visit = (node: unknown, nodePath: PropertyKey[]): unknown => {
+    if (typeof node === 'string') {
+      return node.replace(ENV_REFERENCE, (match, name: string, fallback: string | undefined) => {
+        if (match.startsWith('$$')) return match.slice(1);
+
+        const value = env[name] ?? fallback;
+        if (value === undefined) {
+          errors.push(`${formatConfigPath(nodePath, raw)}: Environment variable ${name} is not set`);
+          return match;
+        }
+        if (env[name] !== undefined && isSecretEnvName(name)) {
+          registerSecret(value);
+        }
+        return value;
+      });
+    }
+    if (Array.isArray(node)) {
+      return node.map((item, index) => visit(item, [...nodePath, index]));
+    }
+    if (node && typeof node === 'object') {
+      return Object.fromEntries(
+        Object.entries(node).map(([key, value]) => [key, visit(value, [...nodePath, key])])
+      );
+    }
+    return node;
+  };
+
+  return { value: visit(raw, []), errors };
+}
+
+// Read, interpolate and validate a config file
+export function loadConfigFile(filePath: string, env: NodeJS.ProcessEnv = process.env): ConfigParseResult {
+  let raw: unknown;
+  try {
+    raw = parseConfigText(fs.readFileSync(filePath, 'utf8'), filePath);
+  } catch (error) {
+    return { success: false, errors: [`Cannot read ${filePath}: ${(error as Error).message}`] };
+  }
+
+  const interpolated = interpolateEnv(raw, env);
+  if (interpolated.errors.length > 0) {
+    return { success: false, errors: interpolated.errors };
+  }
+  return parseAppConfig(interpolated.value);
+}
\ No newline at end of file
@@ -0,0 +1,382 @@
+import { z } from 'zod';
+import { AppConfig } from './types';
+
+// Path segments served by the gateway itself rather than a project
+export const RESERVED_PROJECT_IDS = ['admin', 'health', 'metrics'];
+
+// Defaults for settings a config file may leave out
+const DEFAULT_TIMEOUTS = {
+  maxErrorTimeoutMs: 10000,
+  defaultResponseTimeoutMs: 30000,
+  defaultNodeStatusTimeoutMs: 5000
+};
+
+// Only read by the live-server test suites
+const DEFAULT_TESTING = {
+  testAddress: '0x0000000000000000000000000000000000000000',
+  historicalBlockHex: '0x1',
+  historicalBlockNumber: 1,
+  veryOldBlockHex: '0x1',
+  veryOldBlockNumber: 1,
+  timeout: 30000,
+  maxDurationMs: 30000,
+  minDurationMs: 0
+};
+
+const httpUrl = z.url({ protocol: /^https?$/, error: 'Must be an http(s) URL' });
+const wsUrl = z.url({ protocol: /^wss?$/, error: 'Must be a ws(s) URL' });
+const positiveInt = z.number().int().positive();
+const nonNegativeInt = z.number().int().nonnegative();
+const methodPatterns = z.array(z.string().min(1));
+
+const upstreamErrorClassSchema = z.enum([
+  'timeout', 'network', 'http_4xx', 'http_429', 'http_5xx', 'pruned_state', 'rate_limited', 'node_unsynced',
+  'unsupported_method', 'internal'
+]);
+
+const creditBudgetSchema = z.strictObject({
+  limit: z.number().positive(),
+  period: z.enum(['day', 'month']).optional(),
+  methodCosts: z.record(z.string(), z.number().nonnegative()).optional(),
+  defaultCost: z.number().nonnegative().optional()
+});
+
+const statusProbeSchema = z.discriminatedUnion('type', [
+  z.strictObject({ type: z.literal('tendermint'), url: httpUrl.optional() }),
+  z.strictObject({ type: z.literal('evm') }),
+  z.strictObject({
+    type: z.literal('json_path'),
+    url: httpUrl.optional(),
+    method: z.enum(['GET', 'POST']).optional(),
+    body: z.unknown().optional(),
+    latestBlockPath: z.string().min(1),
+    earliestBlockPath: z.string().min(1).optional(),
+    catchingUpPath: z.string().min(1).optional()
+  })
+]);
+
+const upstreamSchema = z.strictObject({
+  id: z.string().min(1),
+  rpcUrl: httpUrl,
+  wsUrl: wsUrl.optional(),
+  statusUrl: httpUrl.optional(),
+  statusProbe: statusProbeSchema.optional(),
+  type: z.enum(['full', 'archive']),
+  priority: nonNegativeInt,
+  weight: z.number().positive().optional(),
+  ignoredMethods: methodPatterns.optional(),
+  methodAliases: z.record(z.string().min(1), z.string().min(1)).optional(),
+  evmStartBlock: nonNegativeInt.optional(),
+  retentionBlocks: positiveInt.optional(),
+  maxLogsBlockRange: positiveInt.optional(),
+  maxRps: z.number().positive().optional(),
+  maxConcurrent: positiveInt.optional(),
+  credits: creditBudgetSchema.optional()
+});
+
+// nodeStatusTimeoutMs falls back to timeouts.defaultNodeStatusTimeoutMs
+const healthSchema = z.strictObject({
+  errorRateWindowMs: positiveInt.default(60000),
+  maxConsecutiveErrors: positiveInt.default(5),
+  failoverCooldownMs: nonNegativeInt.default(30000),
+  nodeStatusTimeoutMs: positiveInt.optional()
+});
+
+const retrySchema = z.strictObject({
+  maxAttempts: positiveInt,
+  attemptTimeoutMs: positiveInt.optional(),
+  retryOn: z.array(upstreamErrorClassSchema)
+});
+
+const batchSchema = z.strictObject({
+  concurrency: positiveInt,
+  groupByUpstream: z.boolean().optional()
+});
+
+const cacheSchema = z.strictObject({
+  enabled: z.boolean(),
+  maxEntries: positiveInt,
+  maxSizeBytes: positiveInt,
+  finalityDepth: nonNegativeInt,
+  methodTtlMs: z.record(z.string(), nonNegativeInt).optional()
+}).partial();
+
+const coalescingSchema = z.strictObject({
+  enabled: z.boolean(),
+  excludedMethods: methodPatterns
+}).partial();
+
+const errorRuleSchema = z.strictObject({
+  category: z.enum(['client_error', 'pruned_state', 'rate_limited', 'node_unsynced', 'unsupported_method', 'internal']),
+  codes: z.array(z.number().int()).optional(),
+  messagePatterns: z.array(z.string().min(1)).optional(),
+  exceptPatterns: z.array(z.string().min(1)).optional()
+});
+
+const loadBalancingSchema = z.strictObject({
+  policy: z.enum(['priority', 'weighted_round_robin', 'least_in_flight', 'ewma_p2c']),
+  ewmaAlpha: z.number().gt(0).max(1)
+}).partial();
+
+const healthCheckSchema = z.strictObject({
+  enabled: z.boolean(),
+  intervalMs: positiveInt,
+  method: z.string().min(1),
+  params: z.array(z.unknown()),
+  timeoutMs: positiveInt,
+  backoffMultiplier: z.number().min(1),
+  maxBackoffMs: positiveInt
+}).partial();
+
+const logsSchema = z.strictObject({
+  onRangeExceeded: z.enum(['reject', 'split']),
+  maxSplitRequests: positiveInt
+}).partial();
+
+const blockTrackingSchema = z.strictObject({
+  enabled: z.boolean(),
+  intervalMs: positiveInt,
+  probeEarliest: z.boolean(),
+  probeIntervalMs: positiveInt,
+  maxLagBlocks: nonNegativeInt
+}).partial();
+
+const hashIndexSchema = z.strictObject({
+  enabled: z.boolean(),
+  maxEntries: positiveInt,
+  lookup: z.boolean(),
+  lookupTimeoutMs: positiveInt
+}).partial();
+
+const pipelineStageSchema = z.union([
+  z.string().min(1),
+  z.strictObject({
+    operation: z.string().min(1),
+    options: z.record(z.string(), z.unknown()).optional()
+  })
+]);
+
+const methodSupportSchema = z.strictObject({
+  enabled: z.boolean(),
+  ttlMs: positiveInt
+}).partial();
+
+// responseTimeout falls back to timeouts.defaultResponseTimeoutMs
+const projectSchema = z.strictObject({
+  id: z.string().min(1),
+  description: z.string().optional(),
+  upstreams: z.array(upstreamSchema).min(1, 'At least one upstream is required'),
+  errorRateThreshold: z.number().min(0).max(1).default(0.25),
+  statusCheckInterval: positiveInt.default(30000),
+  responseTimeout: positiveInt.optional(),
+  health: healthSchema.prefault({}),
+  historicalMethods: methodPatterns.optional(),
+  allowedMethods: methodPatterns.optional(),
+  blockedMethods: methodPatterns.optional(),
+  methodAliases: z.record(z.string().min(1), z.string().min(1)).optional(),
+  archiveCutoffBlock: nonNegativeInt.optional(),
+  retry: retrySchema.optional(),
+  batch: batchSchema.optional(),
+  cache: cacheSchema.optional(),
+  coalescing: coalescingSchema.optional(),
+  logs: logsSchema.optional(),
+  errorClassification: z.array(errorRuleSchema).optional(),
+  loadBalancing: loadBalancingSchema.optional(),
+  healthCheck: healthCheckSchema.optional(),
+  blockTracking: blockTrackingSchema.optional(),
+  hashIndex: hashIndexSchema.optional(),
+  methodSupport: methodSupportSchema.optional(),
+  pipeline: z.array(pipelineStageSchema).min(1).optional()
+});
+
+const rateLimitRuleSchema = z.strictObject({
+  group: z.string().min(1),
+  methods: methodPatterns.min(1),
+  requestsPerSecond: z.number().positive(),
+  burst: positiveInt.optional(),
+  dailyQuota: positiveInt.optional()
+});
+
+export const apiKeyConfigSchema = z.strictObject({
+  id: z.string().min(1),
+  key: z.string().min(1),
+  projects: z.array(z.string()).optional(),
+  allowedMethods: methodPatterns.optional(),
+  rateLimits: z.array(rateLimitRuleSchema).optional(),
+  admin: z.boolean().optional(),
+  enabled: z.boolean().optional()
+});
+
+const appConfigSchema = z.strictObject({
+  server: z.strictObject({
+    host: z.string().min(1).default('0.0.0.0'),
+    port: z.number().int().min(1).max(65535).default(1099)
+  }).prefault({}),
+  timeouts: z.strictObject({
+    maxErrorTimeoutMs: positiveInt.default(DEFAULT_TIMEOUTS.maxErrorTimeoutMs),
+    defaultResponseTimeoutMs: positiveInt.default(DEFAULT_TIMEOUTS.defaultResponseTimeoutMs),
+    defaultNodeStatusTimeoutMs: positiveInt.default(DEFAULT_TIMEOUTS.defaultNodeStatusTimeoutMs)
+  }).prefault({}),
+  historicalMethods: methodPatterns.default([]),
+  projects: z.array(projectSchema).min(1, 'At least one project is required'),
+  defaultProject: z.string().min(1),
+  testing: z.strictObject({
+    testAddress: z.string().default(DEFAULT_TESTING.testAddress),
+    historicalBlockHex: z.string().default(DEFAULT_TESTING.historicalBlockHex),
+    historicalBlockNumber: nonNegativeInt.default(DEFAULT_TESTING.historicalBlockNumber),
+    veryOldBlockHex: z.string().default(DEFAULT_TESTING.veryOldBlockHex),
+    veryOldBlockNumber: nonNegativeInt.default(DEFAULT_TESTING.veryOldBlockNumber),
+    timeout: positiveInt.default(DEFAULT_TESTING.timeout),
+    maxDurationMs: nonNegativeInt.default(DEFAULT_TESTING.maxDurationMs),
+    minDurationMs: nonNegativeInt.default(DEFAULT_TESTING.minDurationMs)
+  }).prefault({}),
+  logging: z.strictObject({
+    level: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
+    enableColors: z.boolean().default(true),
+    logRequests: z.boolean().default(true),
+    logUpstreamHealth: z.boolean().default(true),
+    logRoutingDecisions: z.boolean().default(false),
+    debug: z.boolean().default(false),
+    production: z.boolean().default(false)
+  }).prefault({}),
+  auth: z.strictObject({
+    enabled: z.boolean(),
+    header: z.string().min(1).optional(),
+    keys: z.array(apiKeyConfigSchema).optional(),
+    keyFile: z.string().min(1).optional()
+  }).optional(),
+  rateLimit: z.strictObject({
+    enabled: z.boolean(),
+    rules: z.array(rateLimitRuleSchema)
+  }).optional(),
+  reload: z.strictObject({
+    watch: z.boolean(),
+    debounceMs: nonNegativeInt.optional()
+  }).optional(),
+  plugins: z.array(z.string().min(1)).optional()
+}).superRefine((config, ctx) => {
+  // Checks that span several fields; single-field rules live in the schemas above
+  const projectIds = new Set<string>();
+  config.projects.forEach((project, index) => {
+    if (projectIds.has(project.id)) {
+      ctx.addIssue({ code: 'custom', path: ['projects', index, 'id'], message: `Duplicate project id "${project.id}"` });
+    }
+    if (RESERVED_PROJECT_IDS.includes(project.id)) {
+      ctx.addIssue({ code: 'custom', path: ['projects', index, 'id'], message: `"${project.id}" is reserved for gateway endpoints` });
+    }
+    projectIds.add(project.id);
+
+    const upstreamIds = new Set<string>();
+    // First upstream seen at each priority. Upstreams sharing a priority form one tier, which
+    // only the load-balancing policies spread traffic over
+    const tierOwners = new Map<number, { id: string; type: string }>();
+    const balanced = (project.loadBalancing?.policy ?? 'priority') !== 'priority';
+    project.upstreams.forEach((upstream, upstreamIndex) => {
+      if (upstreamIds.has(upstream.id)) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['projects', index, 'upstreams', upstreamIndex, 'id'],
+          message: `Duplicate upstream id "${upstream.id}"`
+        });
+      }
+      upstreamIds.add(upstream.id);
+
+      const tierOwner = tierOwners.get(upstream.priority);
+      if (!tierOwner) {
+        tierOwners.set(upstream.priority, upstream);
+      } else if (tierOwner.type !== upstream.type) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['projects', index, 'upstreams', upstreamIndex, 'priority'],
+          message: `Priority ${upstream.priority} is shared with ${tierOwner.type} upstream "${tierOwner.id}", full and archive upstreams need distinct priorities`
+        });
+      } else if (!balanced) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['projects', index, 'upstreams', upstreamIndex, 'priority'],
+          message: `Priority ${upstream.priority} is already used by "${tierOwner.id}", set loadBalancing.policy to share traffic within a priority`
+        });
+      }
+
+      if (upstream.retentionBlocks !== undefined && upstream.type !== 'full') {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['projects', index, 'upstreams', upstreamIndex, 'retentionBlocks'],
+          message: 'retentionBlocks only applies to full nodes'
+        });
+      }
+
+      if (upstream.statusProbe?.type === 'tendermint' && !upstream.statusProbe.url && !upstream.statusUrl) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['projects', index, 'upstreams', upstreamIndex, 'statusProbe'],
+          message: 'A tendermint probe needs a url or the upstream statusUrl'
+        });
+      }
+    });
+  });
+
+  if (!projectIds.has(config.defaultProject)) {
+    ctx.addIssue({ code: 'custom', path: ['defaultProject'], message: `Project "${config.defaultProject}" does not exist` });
+  }
+
+  config.auth?.keys?.forEach((apiKey, index) => {
+    apiKey.projects?.forEach(projectId => {
+      if (projectId !== '*' && !projectIds.has(projectId)) {
+        ctx.addIssue({ code: 'custom', path: ['auth', 'keys', index, 'projects'], message: `Project "${projectId}" does not exist` });
+      }
+    });
+  });
+});
+
+export type ConfigParseResult =
+  | { success: true; config: AppConfig }
+  | { success: false; errors: string[] };
+
+// Render an issue path against the raw input, naming array items by id where they have one,
+// e.g. projects["gateway"].upstreams["cheap-node-1"].type
+export function formatConfigPath(path: PropertyKey[], raw: unknown): string {
+  let node: any = raw;
+  let rendered = '';
+  path.forEach(segment => {
+    if (typeof segment === 'number') {
+      const id = node?.[segment]?.id;
+      rendered += typeof id === 'string' ? `["${id}"]` : `[${segment}]`;
+    } else {
+      rendered += `${rendered ? '.' : ''}${String(segment)}`;
+    }
+    node = node?.[segment];
+  });
+  return rendered || '(root)';
+}
+
+// Validate a parsed config file, apply defaults and fill project settings from the shared timeouts
+export function parseAppConfig(raw: unknown): ConfigParseResult {
+  const result = appConfigSchema.safeParse(raw, {
+    error: issue => (issue.code === 'invalid_type' && issue.input === undefined ? 'Required' : undefined)
+  });
+
+  if (!result.success) {
+    return {
+      success: false,
+      errors: result.error.issues.map(issue => `${formatConfigPath(issue.path, raw)}: ${issue.message}`)
+    };
+  }
+
+  const { timeouts, ...config } = result.data;
+  return {
+    success: true,
+    config: {
+      ...config,
+      timeouts,
+      projects: config.projects.map(project => ({
+        ...project,
+        responseTimeout: project.responseTimeout ?? timeouts.defaultResponseTimeoutMs,
+        health: {
+          ...project.health,
+          nodeStatusTimeoutMs: project.health.nodeStatusTimeoutMs ?? timeouts.defaultNodeStatusTimeoutMs
+        }
+      }))
+    }
+  };
+}
\ No newline at end of file
@@ -1,10 +1,110 @@
-import { RoutingOperation, RoutingContext, RoutingResult } from '../types';
+import {
+  RoutingOperation,
+  RoutingContext,
+  RoutingResult,
+  UpstreamConfig,
+  ProjectConfig,
+  LocalNodeStatus,
+  UpstreamSyncState,
+  BlockRange
+} from '../types';
+import { getHistoricalMethods } from '../services/BlockNumberExtractor';
+import { exceedsLogsRangeLimit } from '../services/LogsRangeLimits';
+import { ignoresMethod } from './MethodRoutingOps';
+
+// Oldest block an upstream still serves: the tracked earliest block when known, otherwise for
+// full nodes the head minus their retention, then the project's archive cutoff. Null means no known limit
+export function getOldestServableBlock(
+  upstream: UpstreamConfig,
+  config: ProjectConfig,
+  nodeStatus: LocalNodeStatus | null,
+  syncState?: UpstreamSyncState
+): number | null {
+  if (syncState && syncState.earliestBlock !== null) {
+    return syncState.earliestBlock;
+  }
+  if (upstream.type === 'archive') {
+    return null;
+  }
+
+  const latestBlock = syncState?.latestBlock ?? nodeStatus?.latestBlockHeight ?? null;
+  if (upstream.retentionBlocks !== undefined && latestBlock !== null) {
+    return Math.max(0, latestBlock - upstream.retentionBlocks);
+  }
+  return config.archiveCutoffBlock ?? null;
+}
+
+// Full nodes that only block tracking can bound: the project has archives for old blocks, but
+// neither its archiveCutoffBlock nor their retentionBlocks says which blocks are old
+export function findUnboundedFullNodes(config: ProjectConfig): UpstreamConfig[] {
+  if (config.archiveCutoffBlock !== undefined || !config.upstreams.some(u => u.type === 'archive')) {
+    return [];
+  }
+  return config.upstreams.filter(u => u.type === 'full' && u.retentionBlocks === undefined);
+}
+
+// Why an upstream cannot serve the block: 'pruned' below its oldest block, 'behind' when it has
+// not reached a block another upstream already reported. Null when it can serve it
+export function getBlockUnavailability(
+  upstream: UpstreamConfig,
+  blockNumber: number,
+  context: RoutingContext
+): 'pruned' | 'behind' | null {
+  const syncState = context.syncStates?.get(upstream.id);
+
+  if (syncState && syncState.latestBlock !== null && blockNumber > syncState.latestBlock) {
+    const chainHead = Math.max(...Array.from(context.syncStates!.values()).map(state => state.latestBlock ?? 0));
+    if (blockNumber <= chainHead) return 'behind';
+  }
+
+  const oldestBlock = getOldestServableBlock(upstream, context.config, context.nodeStatus, syncState);
+  if (oldestBlock !== null && blockNumber < oldestBlock) return 'pruned';
+
+  // Learned from pruned-state errors: the block and everything older is gone
+  const prunedBlock = context.prunedBlocks?.get(upstream.id);
+  if (prunedBlock !== undefined && blockNumber <= prunedBlock) return 'pruned';
+
+  return null;
+}
+
+// Same as getBlockUnavailability for every block of the range. A range ending at a head tag
+// only needs the upstream to hold its oldest block, lag is left to the head lag filter
+export function getRangeUnavailability(
+  upstream: UpstreamConfig,
+  range: BlockRange,
+  context: RoutingContext
+): 'pruned' | 'behind' | null {
+  return getBlockUnavailability(upstream, range.fromBlock, context) ??
+    (range.toHead ? null : getBlockUnavailability(upstream, range.toBlock, context));
+}
 
 export class BlockBasedRoutingOps implements RoutingOperation {
   name = 'BlockBasedRouting';
 
   async execute(context: RoutingContext): Promise<RoutingResult> {
-    const { blockNumber, nodeStatus, availableUpstreams, request, appConfig } = context;
+    const result = await this.filterByBlock(context);
+    const { blockRange } = context;
+    if (!blockRange || result.filteredUpstreams.length === 0) {
+      return result;
+    }
+
+    // Prefer upstreams whose maxLogsBlockRange takes the whole range in one request
+    const withinLimit = result.filteredUpstreams.filter(u => !exceedsLogsRangeLimit(u, blockRange));
+    if (withinLimit.length === 0 || withinLimit.length === result.filteredUpstreams.length) {
+      return result;
+    }
+    return {
+      ...result,
+      filteredUpstreams: withinLimit,
+      details: {
+        ...result.details,
+        rangeLimited: result.filteredUpstreams.filter(u => !withinLimit.includes(u)).map(u => u.id)
+      }
+    };
+  }
+
+  private async filterByBlock(context: RoutingContext): Promise<RoutingResult> {
+    const { blockNumber, availableUpstreams, allUpstreams, request, config, appConfig, unsupportedMethods } = context;
 
     if (availableUpstreams.length === 0) {
       return {
@@ -35,7 +135,7 @@ export class BlockBasedRoutingOps implements RoutingOperation {
     }
 
     // Determine if this is a historical method that requires special handling
-    const isHistoricalMethod = appConfig.historicalMethods.includes(request.method);
+    const isHistoricalMethod = getHistoricalMethods(config, appConfig).includes(request.method);
 
     // For non-historical methods or when block number is null/latest, prefer non-archive nodes
     if (!isHistoricalMethod || blockNumber === null || blockNumber === 'latest') {
@@ -50,27 +150,48 @@ export class BlockBasedRoutingOps implements RoutingOperation {
       };
     }
 
-    // For historical methods, prefer archive nodes for old blocks, non-archive for recent blocks
-    if (typeof blockNumber === 'number' && blockNumber < 169000000) {
-      // Old block - prefer archive nodes
-      const archiveUpstreams = evmCompatibleUpstreams.filter(u => u.type === 'archive');
-      if (archiveUpstreams.length > 0) {
-        return {
-          filteredUpstreams: archiveUpstreams,
-          reason: `Block-based filter: ${archiveUpstreams.length}/${availableUpstreams.length} archive upstreams for old block ${blockNumber}`,
-          shouldContinue: true
-        };
-      }
+    // For historical methods, drop upstreams that pruned the block (or any block of the range) or have not reached it yet
+    const excluded: Record<string, string> = {};
+    const canServe = (upstream: UpstreamConfig): boolean => {
+      const unavailability = context.blockRange
+        ? getRangeUnavailability(upstream, context.blockRange, context)
+        : getBlockUnavailability(upstream, blockNumber, context);
+      if (unavailability) excluded[upstream.id] = unavailability;
+      return unavailability === null;
+    };
+
+    // Prefer full nodes that still hold the block for cost
+    const servingFullNodes = evmCompatibleUpstreams.filter(u => u.type !== 'archive' && canServe(u));
+    if (servingFullNodes.length > 0) {
+      return {
+        filteredUpstreams: servingFullNodes,
+        reason: `Block-based filter: ${servingFullNodes.length}/${availableUpstreams.length} upstreams for block ${blockNumber}`,
+        shouldContinue: true,
+        ...(Object.keys(excluded).length > 0 && { details: { excluded } })
+      };
     }
 
-    // Recent block or no archive preference - use compatible upstreams, prefer non-archive for cost
-    const nonArchiveUpstreams = evmCompatibleUpstreams.filter(u => u.type !== 'archive');
-    const filteredUpstreams = nonArchiveUpstreams.length > 0 ? nonArchiveUpstreams : evmCompatibleUpstreams;
+    // Old block - no full node holds it, so bring in archive nodes that do
+    const archiveUpstreams = allUpstreams
+      .filter(u => u.type === 'archive')
+      .filter(u => !u.evmStartBlock || blockNumber >= u.evmStartBlock)
+      .filter(u => !ignoresMethod(u, request.method, unsupportedMethods))
+      .filter(canServe);
+    if (archiveUpstreams.length > 0) {
+      return {
+        filteredUpstreams: archiveUpstreams,
+        reason: `Block-based filter: ${archiveUpstreams.length} archive upstreams for old block ${blockNumber}`,
+        shouldContinue: true,
+        ...(Object.keys(excluded).length > 0 && { details: { excluded } })
+      };
+    }
 
+    // Nobody reports the block as available; tracked ranges may be stale, so try every compatible upstream
     return {
-      filteredUpstreams,
-      reason: `Block-based filter: ${filteredUpstreams.length}/${availableUpstreams.length} upstreams for block ${blockNumber}`,
-      shouldContinue: true
+      filteredUpstreams: evmCompatibleUpstreams,
+      reason: `Block-based filter: no upstream reports block ${blockNumber}, trying ${evmCompatibleUpstreams.length} compatible upstreams`,
+      shouldContinue: true,
+      ...(Object.keys(excluded).length > 0 && { details: { excluded } })
     };
   }
 }
\ No newline at end of file
@@ -1,8 +1,12 @@
 import { RoutingOperation, RoutingContext, RoutingResult } from '../types';
+import { resolveHealthCheckConfig } from '../services/HealthCheckService';
+import { UpstreamService } from '../services/UpstreamService';
 
 export class ErrorRatesOps implements RoutingOperation {
   name = 'RecoveryFilter';
 
+  constructor(private upstreamService: UpstreamService) {}
+
   async execute(context: RoutingContext): Promise<RoutingResult> {
     const { availableUpstreams, upstreamHealth, config } = context;
 
@@ -12,9 +16,11 @@ export class ErrorRatesOps implements RoutingOperation {
     const now = Date.now();
     const allUpstreams = [...availableUpstreams];
     const recoveredUpstreams: typeof availableUpstreams = [];
+    // With background health checks, probes close circuits instead of live requests
+    const passiveRecovery = !resolveHealthCheckConfig(config).enabled;
 
     // Check for recovered upstreams that were previously marked unhealthy
-    for (const upstream of allUpstreams) {
+    for (const upstream of passiveRecovery ? allUpstreams : []) {
       const health = upstreamHealth.get(upstream.id);
 
       if (health && !health.isHealthy && health.failoverUntil < now) {
@@ -24,9 +30,10 @@ export class ErrorRatesOps implements RoutingOperation {
         const errorRate = recentErrors.length / Math.max(health.totalRequests, 1);
 
         if (errorRate < config.errorRateThreshold) {
-          health.isHealthy = true;
+          this.upstreamService.transitionCircuit(upstream.id, 'closed', {
+            detail: `cooldown expired, error rate ${errorRate.toFixed(3)}`
+          });
           recoveredUpstreams.push(upstream);
-          console.info(`Upstream ${upstream.id} recovered, marking as healthy`);
         }
       }
     }
@@ -1,10 +1,25 @@
-import { RoutingOperation, RoutingContext, RoutingResult } from '../types';
+import { RoutingOperation, RoutingContext, RoutingResult, UpstreamConfig, UpstreamHealth, LoadBalancingConfig, LoadBalancingPolicy } from '../types';
+
+export const DEFAULT_LOAD_BALANCING_CONFIG: LoadBalancingConfig = {
+  policy: 'priority',
+  ewmaAlpha: 0.3
+};
+
+interface TierSelection {
+  upstream: UpstreamConfig;
+  scores: Record<string, number>;
+}
 
 export class FinalSelectorOps implements RoutingOperation {
   name = 'FinalSelector';
 
+  // Smooth weighted round-robin state: upstream id -> current weight
+  private currentWeights = new Map<string, number>();
+
+  constructor(private random: () => number = Math.random) {}
+
   async execute(context: RoutingContext): Promise<RoutingResult> {
-    const { availableUpstreams } = context;
+    const { availableUpstreams, upstreamHealth } = context;
 
     if (availableUpstreams.length === 0) {
       return {
@@ -14,14 +29,112 @@ export class FinalSelectorOps implements RoutingOperation {
       };
     }
 
-    // Simple strategy: pick the first upstream (they should be sorted by priority by now)
-    const selectedUpstream = availableUpstreams[0];
+    const { policy } = { ...DEFAULT_LOAD_BALANCING_CONFIG, ...context.config.loadBalancing };
+
+    if (policy === 'priority') {
+      // Simple strategy: pick the first upstream (they should be sorted by priority by now)
+      const selectedUpstream = availableUpstreams[0];
+
+      return {
+        filteredUpstreams: availableUpstreams,
+        selectedUpstream,
+        reason: `Final selection: chose ${selectedUpstream.id} from ${availableUpstreams.length} candidates`,
+        shouldContinue: true // Continue to MetricsHandlingOps
+      };
+    }
+
+    // Only balance among the best priority tier - lower tiers stay as failover candidates
+    const bestPriority = Math.min(...availableUpstreams.map(u => u.priority));
+    const tier = availableUpstreams.filter(u => u.priority === bestPriority);
+    const { upstream: selectedUpstream, scores } = this.selectFromTier(policy, tier, upstreamHealth);
+
+    const formattedScores = Object.entries(scores)
+      .map(([id, score]) => `${id}=${Number.isInteger(score) ? score : score.toFixed(2)}`)
+      .join(', ');
 
     return {
-      filteredUpstreams: availableUpstreams,
+      filteredUpstreams: [selectedUpstream, ...availableUpstreams.filter(u => u.id !== selectedUpstream.id)],
       selectedUpstream,
-      reason: `Final selection: chose ${selectedUpstream.id} from ${availableUpstreams.length} candidates`,
-      shouldContinue: true // Continue to MetricsHandlingOps
+      reason: `Final selection (${policy}): chose ${selectedUpstream.id} from ${tier.length} upstreams in priority tier ${bestPriority} [${formattedScores}]`,
+      shouldContinue: true, // Continue to MetricsHandlingOps
+      details: { policy, priorityTier: bestPriority, scores }
     };
   }
+
+  private selectFromTier(policy: LoadBalancingPolicy, tier: UpstreamConfig[], upstreamHealth: Map<string, UpstreamHealth>): TierSelection {
+    if (tier.length === 1) {
+      return { upstream: tier[0], scores: { [tier[0].id]: 0 } };
+    }
+
+    switch (policy) {
+      case 'weighted_round_robin':
+        return this.selectWeightedRoundRobin(tier);
+      case 'least_in_flight':
+        return this.selectLeastInFlight(tier, upstreamHealth);
+      case 'ewma_p2c':
+        return this.selectPowerOfTwoChoices(tier, upstreamHealth);
+      default:
+        return { upstream: tier[0], scores: {} };
+    }
+  }
+
+  // Smooth weighted round-robin: spreads picks evenly instead of bursting on the heaviest upstream
+  private selectWeightedRoundRobin(tier: UpstreamConfig[]): TierSelection {
+    let totalWeight = 0;
+    let selected = tier[0];
+    const scores: Record<string, number> = {};
+
+    tier.forEach(upstream => {
+      const weight = Math.max(0, upstream.weight ?? 1);
+      totalWeight += weight;
+      const current = (this.currentWeights.get(upstream.id) || 0) + weight;
+      this.currentWeights.set(upstream.id, current);
+      scores[upstream.id] = current;
+
+      if (current > this.currentWeights.get(selected.id)!) {
+        selected = upstream;
+      }
+    });
+
+    this.currentWeights.set(selected.id, this.currentWeights.get(selected.id)! - totalWeight);
+    return { upstream: selected, scores };
+  }
+
+  // Fewest outstanding requests wins; ties go to the lower smoothed latency
+  private selectLeastInFlight(tier: UpstreamConfig[], upstreamHealth: Map<string, UpstreamHealth>): TierSelection {
+    const scores: Record<string, number> = {};
+    tier.forEach(upstream => {
+      scores[upstream.id] = upstreamHealth.get(upstream.id)?.inFlight || 0;
+    });
+
+    const selected = tier.reduce((best, upstream) => {
+      if (scores[upstream.id] !== scores[best.id]) {
+        return scores[upstream.id] < scores[best.id] ? upstream : best;
+      }
+      return this.latency(upstream, upstreamHealth) < this.latency(best, upstreamHealth) ? upstream : best;
+    });
+
+    return { upstream: selected, scores };
+  }
+
+  // Power of two choices: compare two random upstreams by latency weighted with their outstanding load
+  private selectPowerOfTwoChoices(tier: UpstreamConfig[], upstreamHealth: Map<string, UpstreamHealth>): TierSelection {
+    const firstIndex = Math.floor(this.random() * tier.length);
+    let secondIndex = Math.floor(this.random() * (tier.length - 1));
+    if (secondIndex >= firstIndex) secondIndex++;
+
+    const scores: Record<string, number> = {};
+    const [first, second] = [tier[firstIndex], tier[secondIndex]];
+    [first, second].forEach(upstream => {
+      const inFlight = upstreamHealth.get(upstream.id)?.inFlight || 0;
+      scores[upstream.id] = this.latency(upstream, upstreamHealth) * (inFlight + 1);
+    });
+
+    return { upstream: scores[second.id] < scores[first.id] ? second : first, scores };
+  }
+
+  // Upstreams without samples score 0 so they get probed before being judged
+  private latency(upstream: UpstreamConfig, upstreamHealth: Map<string, UpstreamHealth>): number {
+    return upstreamHealth.get(upstream.id)?.ewmaResponseTime ?? 0;
+  }
 }
\ No newline at end of file
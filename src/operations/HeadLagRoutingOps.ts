@@ -0,0 +1,54 @@
+import { RoutingOperation, RoutingContext, RoutingResult } from '../types';
+import { computeConsensusHead, computeHeadLag, DEFAULT_BLOCK_TRACKING_CONFIG } from '../services/BlockAvailabilityService';
+
+export class HeadLagRoutingOps implements RoutingOperation {
+  name = 'HeadLagFilter';
+
+  async execute(context: RoutingContext): Promise<RoutingResult> {
+    const { availableUpstreams, blockNumber, blockRange, syncStates, config } = context;
+
+    // Requests pinned to a block are handled by block-based routing; only head requests
+    // and ranges running up to the head care about lag
+    if ((typeof blockNumber === 'number' && !blockRange?.toHead) || !syncStates) {
+      return {
+        filteredUpstreams: availableUpstreams,
+        reason: 'Head lag filter: request is pinned to a block or block tracking is off',
+        shouldContinue: true
+      };
+    }
+
+    const { maxLagBlocks } = { ...DEFAULT_BLOCK_TRACKING_CONFIG, ...config.blockTracking };
+    const consensusHead = computeConsensusHead(syncStates);
+
+    // Drop upstreams trailing the consensus head; unknown lag keeps the upstream
+    const lagging: Record<string, number> = {};
+    const current = availableUpstreams.filter(upstream => {
+      const lag = computeHeadLag(syncStates.get(upstream.id), consensusHead);
+      if (lag !== null && lag > maxLagBlocks) {
+        lagging[upstream.id] = lag;
+        return false;
+      }
+      return true;
+    });
+
+    const laggingCount = availableUpstreams.length - current.length;
+    if (current.length === 0 && laggingCount > 0) {
+      // Everyone is behind; a stale answer beats none
+      return {
+        filteredUpstreams: availableUpstreams,
+        reason: `All ${laggingCount} upstreams lag the consensus head ${consensusHead}, keeping them`,
+        shouldContinue: true,
+        details: { consensusHead, lagging }
+      };
+    }
+
+    return {
+      filteredUpstreams: current,
+      reason: laggingCount > 0
+        ? `Removed ${laggingCount} upstreams lagging the consensus head ${consensusHead}: ${Object.entries(lagging).map(([id, lag]) => `${id} (${lag} blocks)`).join(', ')}`
+        : `All ${current.length} upstreams within ${maxLagBlocks} blocks of the head`,
+      shouldContinue: true,
+      ...(laggingCount > 0 && { details: { consensusHead, lagging } })
+    };
+  }
+}
\ No newline at end of file
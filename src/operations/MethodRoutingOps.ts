@@ -1,30 +1,51 @@
-import { RoutingOperation, RoutingContext, RoutingResult } from '../types';
+import { RoutingOperation, RoutingContext, RoutingResult, UpstreamConfig } from '../types';
+
+// Match a method against a list of exact names or wildcard patterns (e.g. "debug_*")
+export function matchesMethodPattern(method: string, patterns: string[]): boolean {
+  return patterns.some(pattern => {
+    if (pattern.endsWith('*')) {
+      // Wildcard pattern matching (e.g., "debug_*" matches "debug_traceTransaction")
+      const prefix = pattern.slice(0, -1);
+      return method.startsWith(prefix);
+    }
+    // Exact match
+    return method === pattern;
+  });
+}
+
+// Whether the upstream ignores the method in its config or has answered it as unsupported
+export function ignoresMethod(
+  upstream: UpstreamConfig,
+  method: string,
+  unsupportedMethods?: Map<string, Set<string>>
+): boolean {
+  if (upstream.ignoredMethods && matchesMethodPattern(method, upstream.ignoredMethods)) {
+    return true;
+  }
+  return unsupportedMethods?.get(upstream.id)?.has(method) ?? false;
+}
 
 export class MethodRoutingOps implements RoutingOperation {
   name = 'MethodRouting';
 
   private isMethodIgnored(method: string, ignoredMethods: string[]): boolean {
-    return ignoredMethods.some(ignoredMethod => {
-      if (ignoredMethod.endsWith('*')) {
-        // Wildcard pattern matching (e.g., "debug_*" matches "debug_traceTransaction")
-        const prefix = ignoredMethod.slice(0, -1);
-        return method.startsWith(prefix);
-      }
-      // Exact match
-      return method === ignoredMethod;
-    });
+    return matchesMethodPattern(method, ignoredMethods);
   }
 
   async execute(context: RoutingContext): Promise<RoutingResult> {
-    const { request, availableUpstreams } = context;
+    const { request, availableUpstreams, unsupportedMethods } = context;
 
-    // Filter upstreams that support this method
+    // Filter upstreams that support this method, by config and by what they answered before
+    const learned: string[] = [];
     const filteredUpstreams = availableUpstreams.filter(upstream => {
-      // Include upstream if it doesn't have ignoredMethods or if it doesn't ignore this method
-      if (!upstream.ignoredMethods) {
-        return true;
+      if (upstream.ignoredMethods && this.isMethodIgnored(request.method, upstream.ignoredMethods)) {
+        return false;
+      }
+      if (unsupportedMethods?.get(upstream.id)?.has(request.method)) {
+        learned.push(upstream.id);
+        return false;
       }
-      return !this.isMethodIgnored(request.method, upstream.ignoredMethods);
+      return true;
     });
 
     const filteredCount = filteredUpstreams.length;
@@ -33,7 +54,8 @@ export class MethodRoutingOps implements RoutingOperation {
     return {
       filteredUpstreams,
       reason: `Filtered ${filteredCount}/${totalCount} upstreams that support method ${request.method}`,
-      shouldContinue: filteredCount > 0
+      shouldContinue: filteredCount > 0,
+      ...(learned.length > 0 && { details: { learnedUnsupported: learned } })
     };
   }
 }
\ No newline at end of file
@@ -0,0 +1,132 @@
+import path from 'path';
+import { PipelineStageConfig, ProjectConfig, RoutingOperation } from '../types';
+import { UpstreamService } from '../services/UpstreamService';
+import { ErrorRatesOps } from './ErrorRatesOps';
+import { MethodRoutingOps } from './MethodRoutingOps';
+import { BlockBasedRoutingOps } from './BlockBasedRoutingOps';
+import { HeadLagRoutingOps } from './HeadLagRoutingOps';
+import { PriorityRoutingOps } from './PriorityRoutingOps';
+import { FallbackArchivalRoutingOps } from './FallbackArchivalRoutingOps';
+import { UpstreamBudgetOps } from './UpstreamBudgetOps';
+import { FinalSelectorOps } from './FinalSelectorOps';
+import { MetricsHandlingOps } from './MetricsHandlingOps';
+
+// Filters narrow the candidates, selectors pick one and observers only look at the decision
+export type OperationKind = 'filter' | 'selector' | 'observer';
+
+// What an operation factory gets to build one project's instance
+export interface OperationFactoryContext {
+  project: ProjectConfig;
+  upstreamService: UpstreamService;
+  options: Record<string, unknown>; // Per-operation options from the pipeline config
+}
+
+export type OperationFactory = (context: OperationFactoryContext) => RoutingOperation;
+
+interface OperationDefinition {
+  factory: OperationFactory;
+  kind: OperationKind;
+}
+
+// Used when a project does not declare its own pipeline
+export const DEFAULT_PIPELINE = [
+  'RecoveryFilter', // 1. Recovery filter - try to recover failed upstreams first
+  'MethodRouting', // 2. Method filter - remove upstreams that don't support the method
+  'BlockBasedRouting', // 3. Block-based filter - filter by archive vs full node requirements
+  'HeadLagFilter', // 4. Head lag filter - remove upstreams behind the consensus head for latest requests
+  'PriorityRoutingOps', // 5. Health filter - remove unhealthy upstreams, sort by priority
+  'ArchiveFilter', // 6. Archive emergency fallback - if only archival upstreams remain
+  'UpstreamBudget', // 7. Budget filter - remove throttled or rate/credit-exhausted upstreams
+  'FinalSelector', // 8. Final selector - pick the best upstream from remaining candidates
+  'MetricsHandling' // 9. Metrics collection - always final step for stats and health data
+];
+
+// Routing operations by the name a pipeline config refers to them with
+export class OperationRegistry {
+  private definitions = new Map<string, OperationDefinition>();
+
+  register(name: string, factory: OperationFactory, kind: OperationKind = 'filter'): void {
+    if (this.definitions.has(name)) {
+      throw new Error(`Routing operation ${name} is already registered`);
+    }
+    this.definitions.set(name, { factory, kind });
+  }
+
+  has(name: string): boolean {
+    return this.definitions.has(name);
+  }
+
+  getNames(): string[] {
+    return Array.from(this.definitions.keys());
+  }
+
+  // Problems with a pipeline: unknown or repeated operations, a missing selector,
+  // or filters placed after the last selector where they could no longer change the choice
+  validate(pipeline: (string | PipelineStageConfig)[]): string[] {
+    const errors: string[] = [];
+    const names = pipeline.map(getStageName);
+
+    names.forEach((name, index) => {
+      if (!this.definitions.has(name)) {
+        errors.push(`Unknown routing operation ${name}, registered: ${this.getNames().join(', ')}`);
+      } else if (names.indexOf(name) !== index) {
+        errors.push(`Routing operation ${name} is listed more than once`);
+      }
+    });
+    if (errors.length > 0) return errors;
+
+    const lastSelector = names.map(name => this.definitions.get(name)!.kind).lastIndexOf('selector');
+    if (lastSelector === -1) {
+      return ['Pipeline has no selector operation such as FinalSelector'];
+    }
+    names.slice(lastSelector + 1).forEach(name => {
+      if (this.definitions.get(name)!.kind === 'filter') {
+        errors.push(`Routing operation ${name} runs after the selector ${names[lastSelector]}`);
+      }
+    });
+    return errors;
+  }
+
+  // Instantiate a project's pipeline, which must have passed validate()
+  build(project: ProjectConfig, upstreamService: UpstreamService): RoutingOperation[] {
+    return (project.pipeline ?? DEFAULT_PIPELINE).map(stage =>
+      this.definitions.get(getStageName(stage))!.factory({
+        project,
+        upstreamService,
+        options: typeof stage === 'string' ? {} : stage.options ?? {}
+      })
+    );
+  }
+}
+
+function getStageName(stage: string | PipelineStageConfig): string {
+  return typeof stage === 'string' ? stage : stage.operation;
+}
+
+// A registry with the built-in operations plus those registered by plugin modules.
+// Plugin paths are resolved against the config file's directory and must export
+// register(registry)
+export function createOperationRegistry(plugins: string[] = [], configDir: string = process.cwd()): OperationRegistry {
+  const registry = new OperationRegistry();
+  registry.register('RecoveryFilter', ({ upstreamService }) => new ErrorRatesOps(upstreamService));
+  registry.register('MethodRouting', () => new MethodRoutingOps());
+  registry.register('BlockBasedRouting', () => new BlockBasedRoutingOps());
+  registry.register('HeadLagFilter', () => new HeadLagRoutingOps());
+  registry.register('PriorityRoutingOps', () => new PriorityRoutingOps());
+  registry.register('ArchiveFilter', () => new FallbackArchivalRoutingOps());
+  registry.register('UpstreamBudget', ({ upstreamService }) => new UpstreamBudgetOps(upstreamService));
+  registry.register('FinalSelector', () => new FinalSelectorOps(), 'selector');
+  registry.register('MetricsHandling', () => new MetricsHandlingOps(), 'observer');
+
+  plugins.forEach(plugin => {
+    const pluginPath = path.resolve(configDir, plugin);
+    const pluginModule = require(pluginPath);
+    const register = pluginModule.register ?? pluginModule.default?.register;
+    if (typeof register !== 'function') {
+      throw new Error(`Plugin ${plugin} does not export a register(registry) function`);
+    }
+    register(registry);
+  });
+
+  return registry;
+}
\ No newline at end of file
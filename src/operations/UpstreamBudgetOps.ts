@@ -0,0 +1,41 @@
+import { RoutingOperation, RoutingContext, RoutingResult } from '../types';
+import { UpstreamService } from '../services/UpstreamService';
+
+export class UpstreamBudgetOps implements RoutingOperation {
+  name = 'UpstreamBudget';
+
+  constructor(private upstreamService: UpstreamService) {}
+
+  async execute(context: RoutingContext): Promise<RoutingResult> {
+    const { availableUpstreams, request } = context;
+
+    // Remove upstreams that are throttled after a 429 or have spent their rate/credit budget
+    const blocked: Record<string, string> = {};
+    const withinBudget = availableUpstreams.filter(upstream => {
+      const block = this.upstreamService.getBudgetBlock(upstream, request.method);
+      if (block) {
+        blocked[upstream.id] = block.reason;
+      }
+      return !block;
+    });
+
+    const blockedCount = availableUpstreams.length - withinBudget.length;
+    if (withinBudget.length === 0 && blockedCount > 0) {
+      return {
+        filteredUpstreams: [],
+        reason: `All ${blockedCount} candidate upstreams are out of budget or throttled`,
+        shouldContinue: false,
+        details: { blocked }
+      };
+    }
+
+    return {
+      filteredUpstreams: withinBudget,
+      reason: blockedCount > 0
+        ? `Removed ${blockedCount} upstreams out of budget or throttled: ${Object.entries(blocked).map(([id, reason]) => `${id} (${reason})`).join(', ')}`
+        : `All ${withinBudget.length} upstreams within budget`,
+      shouldContinue: true,
+      ...(blockedCount > 0 && { details: { blocked } })
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,78 @@
+// Masks secrets in upstream URLs and request paths before they are logged or returned by an endpoint
+
+const MASK = '***';
+
+// Environment variables whose values are treated as secrets when interpolated into the config
+const SECRET_ENV_NAME = /KEY|TOKEN|SECRET|PASSWORD|PASS|CREDENTIAL/i;
+
+// Values interpolated from secret-looking environment variables, masked wherever they appear
+const knownSecrets = new Set<string>();
+
+export function isSecretEnvName(name: string): boolean {
+  return SECRET_ENV_NAME.test(name);
+}
+
+export function registerSecret(value: string): void {
+  // Very short values would mask unrelated text
+  if (value.length >= 4) {
+    knownSecrets.add(value);
+  }
+}
+
+// Provider API keys embedded in the path, e.g. /v2/<key> or /<token>/
+function looksLikeSecret(segment: string): boolean {
+  return segment.length >= 16 && /^[A-Za-z0-9_-]+$/.test(segment) && /\d/.test(segment) && /[A-Za-z]/.test(segment);
+}
+
+function maskKnownSecrets(text: string): string {
+  let masked = text;
+  knownSecrets.forEach(secret => {
+    masked = masked.split(secret).join(MASK);
+  });
+  return masked;
+}
+
+// Mask credentials, query values and key-like path segments of a URL
+export function redactUrl(raw: string): string {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    return maskKnownSecrets(raw);
+  }
+
+  if (url.username) url.username = MASK;
+  if (url.password) url.password = MASK;
+  Array.from(url.searchParams.keys()).forEach(key => url.searchParams.set(key, MASK));
+  url.pathname = url.pathname
+    .split('/')
+    .map(segment => (looksLikeSecret(segment) ? MASK : segment))
+    .join('/');
+
+  return maskKnownSecrets(url.toString());
+}
+
+// Redact every URL inside free text such as an error message
+export function redactSecrets(text: string): string {
+  return maskKnownSecrets(text).replace(/\b(?:https?|wss?):\/\/[^\s"'<>,]+/g, url => redactUrl(url));
+}
+
+// Second path segments of the gateway's own project routes; any other one is an API key
+const PROJECT_ROUTES = ['', 'health', 'metrics', 'ws'];
+
+// Mask the API key of /:projectId/:apiKey and /:projectId/ws/:apiKey request paths
+export function redactRequestPath(raw: string): string {
+  const queryStart = raw.indexOf('?');
+  const pathname = queryStart === -1 ? raw : raw.slice(0, queryStart);
+  const query = queryStart === -1 ? '' : raw.slice(queryStart);
+
+  const segments = pathname.split('/');
+  if (segments[1] !== 'admin') {
+    if (segments.length === 3 && !PROJECT_ROUTES.includes(segments[2])) {
+      segments[2] = MASK;
+    } else if (segments.length === 4 && segments[2] === 'ws' && segments[3]) {
+      segments[3] = MASK;
+    }
+  }
+  return maskKnownSecrets(segments.join('/') + query);
+}
\ No newline at end of file
@@ -1,66 +1,238 @@
 #!/usr/bin/env node
 
 import fastify from "fastify";
+import websocket, { SocketStream } from "@fastify/websocket";
 import fs from "fs";
 import path from "path";
 
-import { AppConfig, JsonRpcRequest } from "./types";
+import { AppConfig, JsonRpcRequest, ProjectConfig } from "./types";
 import { DefaultRoutingStrategy } from "./strategy/RoutingStrategy";
 import { UpstreamService } from "./services/UpstreamService";
-import { BlockNumberExtractor } from "./services/BlockNumberExtractor";
+import {
+  BlockNumberExtractor,
+  getHistoricalMethods,
+} from "./services/BlockNumberExtractor";
 import { NodeStatusService } from "./services/NodeStatusService";
+import { BlockAvailabilityService } from "./services/BlockAvailabilityService";
+import { HealthCheckService } from "./services/HealthCheckService";
+import { BlockHashIndex } from "./services/BlockHashIndex";
+import { ResponseCache } from "./services/ResponseCache";
+import { RequestCoalescer } from "./services/RequestCoalescer";
+import { SubscriptionService } from "./services/SubscriptionService";
+import { ApiKeyService, ApiKeyCheck } from "./services/ApiKeyService";
+import { RateLimiter } from "./services/RateLimiter";
+import { ConfigDiff, diffConfigs } from "./services/ConfigDiff";
+import { checkMethodPolicy } from "./services/MethodPolicy";
+import { loadConfigFile, resolveConfigPath } from "./configLoader";
 import {
   validateJsonRpcRequestOrBatch,
   createJsonRpcError,
   JSON_RPC_ERRORS,
 } from "./validation";
 
-// Import routing operations
-import { MethodRoutingOps } from "./operations/MethodRoutingOps";
-import { PriorityRoutingOps } from "./operations/PriorityRoutingOps";
-import { BlockBasedRoutingOps } from "./operations/BlockBasedRoutingOps";
-import { FallbackArchivalRoutingOps } from "./operations/FallbackArchivalRoutingOps";
-import { ErrorRatesOps } from "./operations/ErrorRatesOps";
-import { FinalSelectorOps } from "./operations/FinalSelectorOps";
-import { MetricsHandlingOps } from "./operations/MetricsHandlingOps";
+// Routing operations are built from each project's pipeline config
+import {
+  OperationRegistry,
+  createOperationRegistry,
+  DEFAULT_PIPELINE,
+} from "./operations/OperationRegistry";
+import { findUnboundedFullNodes } from "./operations/BlockBasedRoutingOps";
 import { Logger } from "./services/Logger";
+import { GaugeSample, MetricsRegistry } from "./services/MetricsRegistry";
+import { redactRequestPath } from "./redaction";
+import {
+  DEFAULT_BATCH_CONFIG,
+  executeGroupedBatch,
+  executeProjectRequest,
+  mapWithConcurrency,
+  ProjectRequestResult,
+} from "./services/BatchExecutor";
+
+interface ProjectServices {
+  upstreamService: UpstreamService;
+  nodeStatusService: NodeStatusService;
+  blockAvailability: BlockAvailabilityService;
+  healthCheck: HealthCheckService;
+  blockHashIndex: BlockHashIndex;
+  responseCache: ResponseCache;
+  requestCoalescer: RequestCoalescer;
+  subscriptionService: SubscriptionService;
+  strategy: DefaultRoutingStrategy;
+}
+
+type ReloadTrigger = "watch" | "sighup" | "admin";
+
+interface ReloadResult {
+  trigger: ReloadTrigger;
+  success: boolean;
+  timestamp: string;
+  errors?: string[];
+  diff?: ConfigDiff;
+}
+
+const DEFAULT_RELOAD_DEBOUNCE_MS = 500;
 
 // Global state
 let config: AppConfig;
-let projectServices: Map<
-  string,
-  {
-    upstreamService: UpstreamService;
-    nodeStatusService: NodeStatusService;
-    strategy: DefaultRoutingStrategy;
-  }
-> = new Map();
+let configPath: string;
+let projectServices: Map<string, ProjectServices> = new Map();
+let apiKeyService: ApiKeyService;
+let rateLimiter: RateLimiter;
+let operationRegistry: OperationRegistry;
+let lastReload: ReloadResult | null = null;
 
 // Create Fastify server
-const server = fastify({ logger: true });
+const server = fastify({
+  logger: {
+    serializers: {
+      // Same fields as Fastify's default, with API keys masked in the path
+      req: (request) => ({
+        method: request.method,
+        url: redactRequestPath(request.url),
+        hostname: request.hostname,
+        remoteAddress: request.ip,
+        remotePort: request.socket?.remotePort,
+      }),
+    },
+  },
+});
+
+// Default config path when neither --config nor ERPC_CONFIG is given
+// In dev mode (ts-node): __dirname = /Users/.../erpc/src -> ../config.json
+// In prod mode: __dirname = /Users/.../erpc/dist/src -> ../../config.json
+function defaultConfigPath(): string {
+  const isDev =
+    __dirname.includes("/src") && !__dirname.includes("/dist/src");
+  return isDev
+    ? path.join(__dirname, "../config.json")
+    : path.join(__dirname, "../../config.json");
+}
 
 // Load configuration
 function loadConfig(): void {
   try {
-    // Determine config path based on execution context
-    // In dev mode (ts-node): __dirname = /Users/.../erpc/src -> ../config.json
-    // In prod mode: __dirname = /Users/.../erpc/dist/src -> ../../config.json
-    const isDev =
-      __dirname.includes("/src") && !__dirname.includes("/dist/src");
-    const configPath = isDev
-      ? path.join(__dirname, "../config.json")
-      : path.join(__dirname, "../../config.json");
+    configPath = resolveConfigPath(
+      process.argv,
+      process.env,
+      defaultConfigPath()
+    );
 
     console.log(`🔍 Loading config from: ${configPath}`);
-    config = JSON.parse(fs.readFileSync(configPath, "utf8"));
+    config = readConfigFile();
+    Logger.initialize(config.logging);
+    operationRegistry = loadOperationRegistry(config);
     console.log("✅ Configuration loaded successfully");
+    initializeAccessControl(loadApiKeys(config), buildRateLimiter(config));
     initializeServices();
   } catch (error) {
-    console.error("❌ Failed to load configuration:", error);
+    console.error(
+      "❌ Failed to load configuration:",
+      (error as Error).message
+    );
     process.exit(1);
   }
 }
 
+// --check-config: validate the config file and exit without starting the server
+function checkConfig(): void {
+  configPath = resolveConfigPath(
+    process.argv,
+    process.env,
+    defaultConfigPath()
+  );
+  try {
+    const checked = readConfigFile();
+    loadOperationRegistry(checked);
+    loadApiKeys(checked);
+    const upstreamCount = checked.projects.reduce(
+      (count, project) => count + project.upstreams.length,
+      0
+    );
+    console.log(
+      `✅ ${configPath} is valid: ${checked.projects.length} projects, ${upstreamCount} upstreams, default project ${checked.defaultProject}`
+    );
+    process.exit(0);
+  } catch (error) {
+    console.error(`❌ ${configPath}: ${(error as Error).message}`);
+    process.exit(1);
+  }
+}
+
+// Read, interpolate and validate the config file, throwing with every problem
+// found. The returned config has all defaults applied
+function readConfigFile(): AppConfig {
+  const result = loadConfigFile(configPath);
+  if (!result.success) {
+    throw new Error(
+      `Invalid configuration:\n  - ${result.errors.join("\n  - ")}`
+    );
+  }
+  return result.config;
+}
+
+// Register the built-in and plugin routing operations and check every project's
+// pipeline against them, throwing like readConfigFile when one is unusable
+function loadOperationRegistry(candidate: AppConfig): OperationRegistry {
+  let registry: OperationRegistry;
+  try {
+    registry = createOperationRegistry(
+      candidate.plugins,
+      path.dirname(configPath)
+    );
+  } catch (error) {
+    throw new Error(
+      `Invalid configuration:\n  - plugins: ${(error as Error).message}`
+    );
+  }
+  validatePipelines(candidate, registry);
+  return registry;
+}
+
+function validatePipelines(
+  candidate: AppConfig,
+  registry: OperationRegistry
+): void {
+  const errors = candidate.projects.flatMap((project) =>
+    registry
+      .validate(project.pipeline ?? DEFAULT_PIPELINE)
+      .map((message) => `projects["${project.id}"].pipeline: ${message}`)
+  );
+  if (errors.length > 0) {
+    throw new Error(`Invalid configuration:\n  - ${errors.join("\n  - ")}`);
+  }
+}
+
+// API keys of a candidate config, including its key file, throwing like
+// readConfigFile when the key file cannot be used
+function loadApiKeys(candidate: AppConfig): ApiKeyService {
+  return new ApiKeyService(candidate.auth, path.dirname(configPath));
+}
+
+// (Re)build API key and rate limit state from the current config
+// Keep token buckets and quotas unless the limits themselves changed
+function buildRateLimiter(candidate: AppConfig, previous?: AppConfig): RateLimiter {
+  if (
+    rateLimiter &&
+    JSON.stringify(previous?.rateLimit) === JSON.stringify(candidate.rateLimit)
+  ) {
+    return rateLimiter;
+  }
+  return new RateLimiter(candidate.rateLimit);
+}
+
+function initializeAccessControl(
+  keys: ApiKeyService,
+  limiter: RateLimiter
+): void {
+  apiKeyService = keys;
+  rateLimiter = limiter;
+  if (apiKeyService.isEnabled()) {
+    console.log(
+      `🔑 API key authentication enabled (${apiKeyService.keyCount} keys)`
+    );
+  }
+}
+
 // Initialize services and strategy for each project
 function initializeServices(): void {
   console.log(
@@ -68,161 +240,340 @@ function initializeServices(): void {
   );
 
   for (const project of config.projects) {
-    console.log(
-      `📋 Setting up project: ${project.id} - ${
-        project.description || "No description"
-      }`
-    );
+    const services = createProjectServices(project, config);
+    activateProjectServices(project, services);
+    projectServices.set(project.id, services);
+  }
 
-    // Create services for this project
-    const upstreamService = new UpstreamService(project);
-    const blockExtractor = new BlockNumberExtractor(project, config);
-    const nodeStatusService = new NodeStatusService(project, config);
+  console.log(
+    `✅ All projects initialized. Default project: ${config.defaultProject}`
+  );
+}
 
-    // Wire up the NodeStatusService with UpstreamService for health tracking
-    nodeStatusService.setUpstreamService(upstreamService);
+// Build the services and routing pipeline for one project without starting
+// them. When replacing the services of a reloaded project, health and budget
+// state for upstream ids that still exist is carried over and open
+// subscriptions are kept
+function createProjectServices(
+  project: ProjectConfig,
+  appConfig: AppConfig,
+  previous?: ProjectServices
+): ProjectServices {
+  console.log(
+    `📋 Setting up project: ${project.id} - ${
+      project.description || "No description"
+    }`
+  );
 
-    // Create strategy
-    const strategy = new DefaultRoutingStrategy(
-      upstreamService,
-      blockExtractor,
-      nodeStatusService,
-      config
+  const unboundedFullNodes = findUnboundedFullNodes(project);
+  if (unboundedFullNodes.length > 0) {
+    console.warn(
+      `⚠️  Project ${project.id}: ${unboundedFullNodes
+        .map((u) => u.id)
+        .join(
+          ", "
+        )} have no retentionBlocks and there is no archiveCutoffBlock, so old blocks go to these full nodes unless block tracking learns their earliest block`
     );
+  }
 
-    // Register pipeline operations in order
-    const operations = [
-      new ErrorRatesOps(), // 1. Recovery filter - try to recover failed upstreams first
-      new MethodRoutingOps(), // 2. Method filter - remove upstreams that don't support the method
-      new BlockBasedRoutingOps(), // 3. Block-based filter - filter by archive vs full node requirements
-      new PriorityRoutingOps(), // 4. Health filter - remove unhealthy upstreams, sort by priority
-      new FallbackArchivalRoutingOps(), // 5. Archive emergency fallback - if only archival upstreams remain
-      new FinalSelectorOps(), // 6. Final selector - pick the best upstream from remaining candidates
-      new MetricsHandlingOps(), // 7. Metrics collection - always final step for stats and health data
-    ];
-
-    strategy.registerPipe(operations);
-
-    // Store project services
-    projectServices.set(project.id, {
-      upstreamService,
-      nodeStatusService,
-      strategy,
-    });
+  // Create services for this project
+  const upstreamService = new UpstreamService(project);
+  const blockExtractor = new BlockNumberExtractor(project, appConfig);
+  const nodeStatusService = new NodeStatusService(project, appConfig);
+  const blockAvailability = new BlockAvailabilityService(project);
 
-    console.log(
-      `   ✅ Project ${project.id}: ${project.upstreams.length} upstreams, ${operations.length} routing operations`
+  const healthCheck = new HealthCheckService(project, upstreamService);
+  const blockHashIndex = new BlockHashIndex(project, upstreamService);
+  blockExtractor.setBlockHashIndex(blockHashIndex);
+
+  if (previous) {
+    upstreamService.adoptState(previous.upstreamService);
+    blockAvailability.adoptState(previous.blockAvailability);
+    blockHashIndex.adoptState(previous.blockHashIndex);
+  }
+
+  // Wire up the NodeStatusService with UpstreamService for health tracking
+  nodeStatusService.setUpstreamService(upstreamService);
+
+  const subscriptionService =
+    previous?.subscriptionService ??
+    new SubscriptionService(project, upstreamService);
+  const responseCache = new ResponseCache(
+    project.id,
+    project.cache,
+    blockExtractor,
+    nodeStatusService
+  );
+  const requestCoalescer = new RequestCoalescer(project.coalescing);
+
+  // Create strategy
+  const strategy = new DefaultRoutingStrategy(
+    upstreamService,
+    blockExtractor,
+    nodeStatusService,
+    appConfig
+  );
+
+  // Register pipeline operations in the order the project declares, or the default pipeline
+  const operations = operationRegistry.build(project, upstreamService);
+
+  strategy.registerPipe(operations);
+  strategy.setResponseCache(responseCache);
+  strategy.setRequestCoalescer(requestCoalescer);
+  strategy.setBlockAvailability(blockAvailability);
+  strategy.setBlockHashIndex(blockHashIndex);
+
+  console.log(
+    `   ✅ Project ${project.id}: ${project.upstreams.length} upstreams, ${operations.length} routing operations`
+  );
+
+  return {
+    upstreamService,
+    nodeStatusService,
+    blockAvailability,
+    healthCheck,
+    blockHashIndex,
+    responseCache,
+    requestCoalescer,
+    subscriptionService,
+    strategy,
+  };
+}
+
+// Start the background work of freshly built services, taking over from the
+// services they replace
+function activateProjectServices(
+  project: ProjectConfig,
+  services: ProjectServices,
+  previous?: ProjectServices
+): void {
+  if (previous) {
+    previous.healthCheck.stop();
+    services.subscriptionService.reconfigure(project, services.upstreamService);
+  }
+  services.healthCheck.start();
+}
+
+// Re-read the config file and swap in services for changed projects without
+// dropping in-flight requests, which finish on the services they started with.
+// Everything is built before anything is swapped, so an invalid file or a
+// failing service (e.g. a plugin rejecting its options) leaves the running
+// config untouched. Plugins stay as loaded at startup because require() caches
+// their modules
+function reloadConfig(trigger: ReloadTrigger): ReloadResult {
+  const timestamp = new Date().toISOString();
+  const previousConfig = config;
+  let nextConfig: AppConfig;
+  let nextApiKeys: ApiKeyService;
+  let nextRateLimiter: RateLimiter;
+  let diff: ConfigDiff;
+  const replacements = new Map<string, ProjectServices>();
+  try {
+    nextConfig = readConfigFile();
+    validatePipelines(nextConfig, operationRegistry);
+    nextApiKeys = loadApiKeys(nextConfig);
+    nextRateLimiter = buildRateLimiter(nextConfig, previousConfig);
+    diff = diffConfigs(previousConfig, nextConfig);
+    for (const project of nextConfig.projects) {
+      if (diff.addedProjects.includes(project.id)) {
+        replacements.set(project.id, createProjectServices(project, nextConfig));
+      } else if (diff.changedProjects.includes(project.id)) {
+        replacements.set(
+          project.id,
+          createProjectServices(
+            project,
+            nextConfig,
+            projectServices.get(project.id)
+          )
+        );
+      }
+    }
+  } catch (error) {
+    const message = (error as Error).message;
+    console.error(
+      `❌ Config reload (${trigger}) rejected, keeping current config: ${message}`
     );
+    lastReload = { trigger, success: false, timestamp, errors: [message] };
+    return lastReload;
   }
 
+  config = nextConfig;
+  initializeAccessControl(nextApiKeys, nextRateLimiter);
+
+  for (const projectId of diff.removedProjects) {
+    projectServices.get(projectId)?.subscriptionService.close();
+    projectServices.get(projectId)?.healthCheck.stop();
+    projectServices.delete(projectId);
+  }
+  for (const project of config.projects) {
+    const services = replacements.get(project.id);
+    if (!services) continue;
+    activateProjectServices(project, services, projectServices.get(project.id));
+    projectServices.set(project.id, services);
+  }
+
+  const upstreamChanges = Object.entries(diff.upstreams)
+    .map(
+      ([projectId, changes]) =>
+        `${projectId} (+${changes.added.length} -${changes.removed.length} ~${changes.changed.length})`
+    )
+    .join(", ");
   console.log(
-    `✅ All projects initialized. Default project: ${config.defaultProject}`
+    `🔄 Config reloaded (${trigger}): added [${diff.addedProjects.join(
+      ", "
+    )}], removed [${diff.removedProjects.join(
+      ", "
+    )}], changed [${diff.changedProjects.join(", ")}]${
+      upstreamChanges ? `, upstreams ${upstreamChanges}` : ""
+    }`
+  );
+  if (diff.restartRequired.length > 0) {
+    console.warn(
+      `⚠️  Changes to ${diff.restartRequired.join(
+        ", "
+      )} only take effect after a restart`
+    );
+  }
+
+  lastReload = { trigger, success: true, timestamp, diff };
+  return lastReload;
+}
+
+// Reload when the config file changes. Editors often write a file in several
+// steps, so changes are debounced and the directory is watched to survive renames
+function watchConfigFile(): void {
+  if (config.reload?.watch === false) return;
+
+  const debounceMs = config.reload?.debounceMs ?? DEFAULT_RELOAD_DEBOUNCE_MS;
+  const fileName = path.basename(configPath);
+  let timer: NodeJS.Timeout | undefined;
+
+  const watcher = fs.watch(path.dirname(configPath), (_, changedFile) => {
+    if (changedFile !== fileName) return;
+    clearTimeout(timer);
+    timer = setTimeout(() => reloadConfig("watch"), debounceMs);
+  });
+  watcher.unref();
+  console.log(`👀 Watching ${configPath} for changes`);
+}
+
+// Authenticate the caller by header or `/:projectId/:apiKey` path segment
+function authorizeRequest(projectId: string, request: any): ApiKeyCheck {
+  return apiKeyService.authorize(
+    apiKeyService.extractKey(request.headers, request.params?.apiKey),
+    projectId
   );
 }
 
-// Execute a single project request and return the response
-async function executeProjectRequest(
-  projectService: any,
-  singleRequest: JsonRpcRequest,
-  originalRequest: any
-): Promise<{
+interface RequestRejection {
+  statusCode: number;
   response: any;
-  success: boolean;
-  upstreamUsed?: string;
-  error?: string;
-  duration: number;
-}> {
-  const startTime = Date.now();
-
-  return new Promise(async (resolve) => {
-    // Create a mock reply object that captures the response
-    const mockReply = {
-      _response: null as any,
-      _statusCode: 200,
-      _upstreamUsed: null as string | null,
-
-      send: function (response: any) {
-        this._response = response;
-        const duration = Date.now() - startTime;
-        const success = !response.error;
-
-        resolve({
-          response,
-          success,
-          upstreamUsed: this._upstreamUsed || undefined,
-          error: response.error
-            ? response.error.message || "Unknown error"
-            : undefined,
-          duration,
-        });
-        return this;
-      },
+  retryAfterMs?: number;
+}
 
-      code: function (statusCode: number) {
-        this._statusCode = statusCode;
-        return this;
-      },
+// Apply the project's method lists, the API key's method allow list and the rate
+// limits to one call. Returns the error to answer with instead of executing it, or null
+function checkRequestLimits(
+  projectId: string,
+  access: Extract<ApiKeyCheck, { allowed: true }>,
+  request: any,
+  singleRequest: JsonRpcRequest
+): RequestRejection | null {
+  const { apiKey } = access;
+  const id = singleRequest.id ?? null;
+
+  const projectConfig = config.projects.find((p) => p.id === projectId);
+  const policy = projectConfig
+    ? checkMethodPolicy(projectConfig, singleRequest.method)
+    : null;
+  if (policy && !policy.allowed) {
+    return {
+      statusCode: 403,
+      response: createJsonRpcError(policy.code, policy.message, id),
+    };
+  }
 
-      setUpstreamUsed: function (upstreamId: string) {
-        this._upstreamUsed = upstreamId;
-      },
+  if (!apiKeyService.authorizeMethod(apiKey, projectId, singleRequest.method)) {
+    return {
+      statusCode: 403,
+      response: createJsonRpcError(
+        JSON_RPC_ERRORS.UNAUTHORIZED,
+        `Method ${singleRequest.method} is not allowed for this API key`,
+        id
+      ),
     };
+  }
 
-    try {
-      // Execute the routing strategy with the mock reply
-      await projectService.strategy.execute(
-        singleRequest,
-        mockReply as any,
-        originalRequest
-      );
+  // Authenticated clients are limited per key, anonymous ones per IP
+  const clientId = apiKey ? `key:${apiKey.id}` : `ip:${request.ip}`;
+  const decision = rateLimiter.consume(
+    clientId,
+    singleRequest.method,
+    apiKey?.rateLimits
+  );
+  if (decision.allowed) return null;
 
-      // If no response was sent, something went wrong
-      if (!mockReply._response) {
-        const duration = Date.now() - startTime;
-        resolve({
-          response: createJsonRpcError(
-            JSON_RPC_ERRORS.INTERNAL_ERROR,
-            "No response from routing strategy",
-            singleRequest.id || null
-          ),
-          success: false,
-          error: "No response from routing strategy",
-          duration,
-        });
-      }
-    } catch (error) {
-      const duration = Date.now() - startTime;
-      resolve({
-        response: createJsonRpcError(
-          JSON_RPC_ERRORS.INTERNAL_ERROR,
-          "Internal error",
-          singleRequest.id || null
-        ),
-        success: false,
-        error: (error as Error).message || "Internal error",
-        duration,
-      });
-    }
+  MetricsRegistry.getInstance().incrementCounter("erpc_rate_limited_total", {
+    project: projectId,
+    client: apiKey?.id || "anonymous",
+    group: decision.group,
+    reason: decision.reason,
   });
+
+  const message =
+    decision.reason === "daily_quota"
+      ? `Daily quota of ${decision.limit} requests exceeded for method group ${decision.group}`
+      : `Rate limit of ${decision.limit} requests/s exceeded for method group ${decision.group}`;
+  return {
+    statusCode: 429,
+    retryAfterMs: decision.retryAfterMs,
+    response: createJsonRpcError(JSON_RPC_ERRORS.LIMIT_EXCEEDED, message, id, {
+      group: decision.group,
+      reason: decision.reason,
+      retryAfterMs: decision.retryAfterMs,
+    }),
+  };
 }
 
+// Projects are resolved per request so projects added by a reload are served
+// without registering new routes
+type ProjectResolver = (request: any) => string;
+
+const projectFromPath: ProjectResolver = (request) => request.params.projectId;
+const defaultProject: ProjectResolver = () => config.defaultProject;
+
 // Project-specific request handler factory
-function createProjectHandler(projectId: string) {
+function createProjectHandler(resolveProject: ProjectResolver) {
   return async function handleProjectRequest(
     request: any,
     reply: any
   ): Promise<void> {
     const requestBody = request.body;
+    const projectId = resolveProject(request);
     const projectService = projectServices.get(projectId);
 
     if (!projectService) {
       return reply
-        .code(500)
+        .code(404)
         .send(
           createJsonRpcError(
-            JSON_RPC_ERRORS.INTERNAL_ERROR,
-            `Project ${projectId} not initialized`,
-            null
+            JSON_RPC_ERRORS.INVALID_REQUEST,
+            `Unknown project ${projectId}`,
+            requestBody?.id ?? null
+          )
+        );
+    }
+
+    // Reject callers without a valid API key before doing any work
+    const access = authorizeRequest(projectId, request);
+    if (!access.allowed) {
+      return reply
+        .code(access.statusCode)
+        .send(
+          createJsonRpcError(
+            JSON_RPC_ERRORS.UNAUTHORIZED,
+            access.message,
+            requestBody?.id ?? null
           )
         );
     }
@@ -271,60 +622,85 @@ function createProjectHandler(projectId: string) {
           );
         }
 
-        // Process each request in the batch
-        const batchResponses = [];
+        // Process batch items concurrently; results keep the batch order
+        const projectConfig = config.projects.find((p) => p.id === projectId);
+        const batchConfig = { ...DEFAULT_BATCH_CONFIG, ...projectConfig?.batch };
+        const isDebugEnabled = request.query?.debug === "1";
+
+        // Items rejected by key or rate limits get an error, the rest are executed
+        const results: ProjectRequestResult[] = new Array(batchData.length);
+        const allowedIndexes: number[] = [];
+        batchData.forEach((singleRequest, index) => {
+          const rejection = checkRequestLimits(
+            projectId,
+            access,
+            request,
+            singleRequest
+          );
+          if (rejection) {
+            results[index] = {
+              response: rejection.response,
+              success: false,
+              error: rejection.response.error.message,
+              duration: 0,
+            };
+          } else {
+            allowedIndexes.push(index);
+          }
+        });
+        const allowedItems = allowedIndexes.map((index) => batchData[index]);
+
+        let allowedResults: ProjectRequestResult[];
+        if (batchConfig.groupByUpstream && !isDebugEnabled) {
+          // Debug responses are per item, so grouping is skipped in debug mode
+          allowedResults = await executeGroupedBatch(
+            projectService,
+            allowedItems,
+            request,
+            batchConfig.concurrency
+          );
+        } else {
+          allowedResults = await mapWithConcurrency(
+            allowedItems,
+            batchConfig.concurrency,
+            (singleRequest) =>
+              executeProjectRequest(projectService, singleRequest, request)
+          );
+        }
+        allowedIndexes.forEach((index, i) => {
+          results[index] = allowedResults[i];
+        });
+
+        const batchResponses: any[] = [];
         const methods: string[] = [];
         let successCount = 0;
         let failureCount = 0;
 
-        for (const singleRequest of batchData) {
-          try {
-            // Execute each request and capture its response with timing
-            const result = await executeProjectRequest(
-              projectService,
-              singleRequest,
-              request
-            );
-            batchResponses.push(result.response);
-            methods.push(singleRequest.method);
-
-            if (result.success) {
-              successCount++;
-            } else {
-              failureCount++;
-            }
-
-            // Log individual request in production mode
-            if (config.logging.production) {
-              const logger = Logger.getInstance();
-              logger.logProductionRequest(
-                projectId,
-                singleRequest.method,
-                singleRequest.params,
-                result.duration,
-                result.success,
-                result.upstreamUsed,
-                result.error
-              );
-            }
-          } catch (error) {
+        results.forEach((result, index) => {
+          const singleRequest = batchData[index];
+          batchResponses.push(result.response);
+          methods.push(singleRequest.method);
+
+          if (result.success) {
+            successCount++;
+          } else {
             failureCount++;
-            methods.push("unknown");
-            if (config.logging.debug) {
-              console.log(
-                `🔍 DEBUG [${projectId}]: Batch request ${singleRequest.id} failed:`,
-                error
-              );
-            }
-            batchResponses.push(
-              createJsonRpcError(
-                JSON_RPC_ERRORS.INTERNAL_ERROR,
-                "Internal error",
-                singleRequest.id || null
-              )
+          }
+
+          // Log individual request in production mode
+          if (config.logging.production) {
+            const logger = Logger.getInstance();
+            logger.logProductionRequest(
+              projectId,
+              singleRequest.method,
+              singleRequest.params,
+              result.duration,
+              result.success,
+              result.upstreamUsed,
+              result.error
             );
           }
-        }
+        });
 
         // Log batch summary in production mode
         if (config.logging.production) {
@@ -346,6 +722,22 @@ function createProjectHandler(projectId: string) {
         const singleRequest = validatedData as JsonRpcRequest;
         const requestStartTime = Date.now();
 
+        const rejection = checkRequestLimits(
+          projectId,
+          access,
+          request,
+          singleRequest
+        );
+        if (rejection) {
+          if (rejection.retryAfterMs !== undefined) {
+            reply.header(
+              "Retry-After",
+              String(Math.ceil(rejection.retryAfterMs / 1000))
+            );
+          }
+          return reply.code(rejection.statusCode).send(rejection.response);
+        }
+
         if (!config.logging.production) {
           console.log(
             `🔄 Processing ${
@@ -418,6 +810,142 @@ function createProjectHandler(projectId: string) {
   };
 }
 
+// Project-specific WebSocket handler factory: request/response RPC goes through
+// the routing pipeline, eth_subscribe is served by upstream WebSocket connections
+function createProjectSocketHandler(resolveProject: ProjectResolver) {
+  return function handleProjectSocket(
+    connection: SocketStream,
+    request: any
+  ): void {
+    const socket = connection.socket;
+    const projectId = resolveProject(request);
+    // Looked up per call: a reload may replace the project's services while
+    // the connection is open
+    const getProjectService = () => projectServices.get(projectId);
+    // Subscriptions owned by this client, removed when it disconnects
+    const clientSubscriptions = new Set<string>();
+    let closed = false;
+
+    const send = (payload: any) => {
+      if (socket.readyState === socket.OPEN) {
+        socket.send(JSON.stringify(payload));
+      }
+    };
+
+    if (!getProjectService()) {
+      const message = `Unknown project ${projectId}`;
+      send(createJsonRpcError(JSON_RPC_ERRORS.INVALID_REQUEST, message, null));
+      socket.close(1008, message);
+      return;
+    }
+
+    // The key is checked once per connection; methods are checked per call
+    const access = authorizeRequest(projectId, request);
+    if (!access.allowed) {
+      send(
+        createJsonRpcError(JSON_RPC_ERRORS.UNAUTHORIZED, access.message, null)
+      );
+      socket.close(1008, access.message);
+      return;
+    }
+
+    const handleRpc = async (singleRequest: JsonRpcRequest): Promise<any> => {
+      const projectService = getProjectService();
+      if (!projectService) {
+        return createJsonRpcError(
+          JSON_RPC_ERRORS.INVALID_REQUEST,
+          `Project ${projectId} was removed`,
+          singleRequest.id ?? null
+        );
+      }
+
+      const rejection = checkRequestLimits(
+        projectId,
+        access,
+        request,
+        singleRequest
+      );
+      if (rejection) {
+        return rejection.response;
+      }
+
+      if (singleRequest.method === "eth_subscribe") {
+        try {
+          const subscriptionId =
+            await projectService.subscriptionService.subscribe(
+              singleRequest.params || [],
+              send
+            );
+          // The client left while the upstream was subscribing
+          if (closed) {
+            await projectService.subscriptionService.unsubscribe(subscriptionId);
+          } else {
+            clientSubscriptions.add(subscriptionId);
+          }
+          return { jsonrpc: "2.0", result: subscriptionId, id: singleRequest.id };
+        } catch (error) {
+          return createJsonRpcError(
+            JSON_RPC_ERRORS.INTERNAL_ERROR,
+            (error as Error).message,
+            singleRequest.id ?? null
+          );
+        }
+      }
+
+      if (singleRequest.method === "eth_unsubscribe") {
+        const subscriptionId = singleRequest.params?.[0];
+        const removed =
+          clientSubscriptions.delete(subscriptionId) &&
+          (await projectService.subscriptionService.unsubscribe(subscriptionId));
+        return { jsonrpc: "2.0", result: removed, id: singleRequest.id };
+      }
+
+      const result = await executeProjectRequest(
+        projectService,
+        singleRequest,
+        request
+      );
+      return result.response;
+    };
+
+    socket.on("message", async (raw: Buffer) => {
+      let body: unknown;
+      try {
+        body = JSON.parse(raw.toString());
+      } catch {
+        send(createJsonRpcError(JSON_RPC_ERRORS.PARSE_ERROR, "Parse error", null));
+        return;
+      }
+
+      const validationResult = validateJsonRpcRequestOrBatch(body);
+      if (!validationResult.success) {
+        send(validationResult.error);
+        return;
+      }
+
+      if (validationResult.isBatch) {
+        const batchData = validationResult.data as JsonRpcRequest[];
+        const projectConfig = config.projects.find((p) => p.id === projectId);
+        const batchConfig = { ...DEFAULT_BATCH_CONFIG, ...projectConfig?.batch };
+        send(
+          await mapWithConcurrency(batchData, batchConfig.concurrency, handleRpc)
+        );
+      } else {
+        send(await handleRpc(validationResult.data as JsonRpcRequest));
+      }
+    });
+
+    socket.on("close", () => {
+      closed = true;
+      const subscriptionService = getProjectService()?.subscriptionService;
+      for (const subscriptionId of clientSubscriptions) {
+        subscriptionService?.unsubscribe(subscriptionId);
+      }
+      clientSubscriptions.clear();
+    });
+  };
+}
+
 // Health check endpoint
 server.get("/health", async (request) => {
   const projectId = (request.query as any)?.project || config.defaultProject;
@@ -435,90 +963,244 @@ server.get("/health", async (request) => {
     project: projectId,
     upstreams: projectService.upstreamService.getHealthStatus(),
     localNode: await projectService.nodeStatusService.getStatus(),
+    blocks: projectService.blockAvailability.getStatus(),
     timestamp: new Date().toISOString(),
   };
 
   return status;
 });
 
-// Metrics endpoint
-server.get("/metrics", async (request) => {
-  const projectId = (request.query as any)?.project || config.defaultProject;
-  const projectService = projectServices.get(projectId);
+// Sample point-in-time gauges for one project at scrape time
+async function collectProjectGauges(projectId: string): Promise<GaugeSample[]> {
+  const services = projectServices.get(projectId)!;
+  const now = Date.now();
+  const gauges: GaugeSample[] = [];
+
+  services.upstreamService.getHealthMap().forEach((health, upstreamId) => {
+    const labels = { project: projectId, upstream: upstreamId };
+    gauges.push({
+      name: "erpc_upstream_healthy",
+      labels,
+      value: health.isHealthy ? 1 : 0,
+    });
+    gauges.push({
+      name: "erpc_upstream_failover_cooldown_seconds",
+      labels,
+      value: Math.max(0, health.failoverUntil - now) / 1000,
+    });
+  });
 
-  if (!projectService) {
-    return {
-      error: `Invalid project: ${projectId}`,
-      availableProjects: Array.from(projectServices.keys()),
-      timestamp: new Date().toISOString(),
-    };
+  const upstreamStatus = services.upstreamService.getHealthStatus();
+  Object.entries(upstreamStatus).forEach(([upstreamId, status]) => {
+    const labels = { project: projectId, upstream: upstreamId };
+    gauges.push({
+      name: "erpc_upstream_throttled",
+      labels,
+      value: status.budget.throttled ? 1 : 0,
+    });
+    if (status.budget.creditsUsed !== null) {
+      gauges.push({
+        name: "erpc_upstream_credits_used",
+        labels,
+        value: status.budget.creditsUsed,
+      });
+    }
+  });
+
+  const blocks = services.blockAvailability.getStatus();
+  Object.entries(blocks.upstreams).forEach(([upstreamId, state]) => {
+    const labels = { project: projectId, upstream: upstreamId };
+    if (state.latestBlock !== null) {
+      gauges.push({
+        name: "erpc_upstream_latest_block",
+        labels,
+        value: state.latestBlock,
+      });
+    }
+    if (state.earliestBlock !== null) {
+      gauges.push({
+        name: "erpc_upstream_earliest_block",
+        labels,
+        value: state.earliestBlock,
+      });
+    }
+    if (state.lag !== null) {
+      gauges.push({
+        name: "erpc_upstream_head_lag_blocks",
+        labels,
+        value: state.lag,
+      });
+    }
+  });
+
+  const nodeStatus = await services.nodeStatusService.getStatus();
+  const nodeLabels = { project: projectId };
+  if (nodeStatus.latestBlockHeight !== null) {
+    gauges.push({
+      name: "erpc_local_node_latest_block",
+      labels: nodeLabels,
+      value: nodeStatus.latestBlockHeight,
+    });
+  }
+  if (nodeStatus.earliestBlockHeight !== null) {
+    gauges.push({
+      name: "erpc_local_node_earliest_block",
+      labels: nodeLabels,
+      value: nodeStatus.earliestBlockHeight,
+    });
+  }
+  // Unknown statuses have no catching-up flag to report
+  if (nodeStatus.state !== "unknown") {
+    gauges.push({
+      name: "erpc_local_node_catching_up",
+      labels: nodeLabels,
+      value: nodeStatus.catchingUp ? 1 : 0,
+    });
+  }
+  gauges.push({
+    name: "erpc_local_node_status_unknown",
+    labels: nodeLabels,
+    value: nodeStatus.state === "unknown" ? 1 : 0,
+  });
+
+  return gauges;
+}
+
+// Render Prometheus text exposition for the given projects
+async function renderPrometheusMetrics(
+  projectIds: string[],
+  reply: any
+): Promise<string> {
+  const gauges: GaugeSample[] = [];
+  for (const projectId of projectIds) {
+    gauges.push(...(await collectProjectGauges(projectId)));
   }
 
+  const project = projectIds.length === 1 ? projectIds[0] : undefined;
+  reply.type("text/plain; version=0.0.4; charset=utf-8");
+  return MetricsRegistry.getInstance().render(gauges, project);
+}
+
+// JSON metrics snapshot for one project
+async function buildProjectMetrics(projectId: string) {
+  const services = projectServices.get(projectId)!;
   const projectConfig = config.projects.find((p) => p.id === projectId)!;
-  const metrics = {
+  return {
     project: projectId,
-    upstreams: projectService.upstreamService.getHealthStatus(),
-    localNode: await projectService.nodeStatusService.getStatus(),
+    upstreams: services.upstreamService.getHealthStatus(),
+    localNode: await services.nodeStatusService.getStatus(),
+    cache: services.responseCache.getStats(),
+    hashIndex: services.blockHashIndex.getStats(),
+    coalescing: services.requestCoalescer.getStats(),
+    subscriptions: services.subscriptionService.getStats(),
     config: {
       errorRateThreshold: projectConfig.errorRateThreshold,
       responseTimeout: projectConfig.responseTimeout,
-      historicalMethods: config.historicalMethods.length,
+      historicalMethods: getHistoricalMethods(projectConfig, config).length,
+      archiveCutoffBlock: projectConfig.archiveCutoffBlock ?? null,
     },
   };
+}
+
+// Metrics endpoint - Prometheus text for all projects, or JSON with ?format=json
+server.get("/metrics", async (request, reply) => {
+  const query = request.query as any;
+  if (query?.format !== "json") {
+    const projectIds = query?.project
+      ? [query.project]
+      : Array.from(projectServices.keys());
+    if (projectIds.some((id) => !projectServices.has(id))) {
+      reply.code(404);
+      return `Invalid project: ${query.project}\n`;
+    }
+    return renderPrometheusMetrics(projectIds, reply);
+  }
+
+  const projectId = query?.project || config.defaultProject;
+  if (!projectServices.has(projectId)) {
+    return {
+      error: `Invalid project: ${projectId}`,
+      availableProjects: Array.from(projectServices.keys()),
+      timestamp: new Date().toISOString(),
+    };
+  }
 
-  return metrics;
+  return buildProjectMetrics(projectId);
 });
 
-// Register project-specific endpoints
+// Register project-specific endpoints. Routes take the project from the path so
+// projects added by a config reload are reachable immediately
 function registerProjectEndpoints(): void {
-  for (const [projectId, services] of projectServices) {
-    const projectHandler = createProjectHandler(projectId);
+  const projectHandler = createProjectHandler(projectFromPath);
 
-    // Register main project endpoint (both with and without trailing slash)
-    server.post(`/${projectId}`, {
-      handler: projectHandler,
-    });
-    server.post(`/${projectId}/`, {
-      handler: projectHandler,
-    });
+  // Register main project endpoint (both with and without trailing slash)
+  server.post("/:projectId", {
+    handler: projectHandler,
+  });
+  server.post("/:projectId/", {
+    handler: projectHandler,
+  });
 
-    // Register project-specific health endpoint
-    server.get(`/${projectId}/health`, async () => {
-      const status = {
-        project: projectId,
-        upstreams: services.upstreamService.getHealthStatus(),
-        localNode: await services.nodeStatusService.getStatus(),
-        timestamp: new Date().toISOString(),
-      };
-      return status;
-    });
+  // API key carried in the path instead of a header
+  server.post("/:projectId/:apiKey", {
+    handler: projectHandler,
+  });
 
-    // Register project-specific metrics endpoint
-    server.get(`/${projectId}/metrics`, async () => {
-      const projectConfig = config.projects.find((p) => p.id === projectId)!;
-      const metrics = {
-        project: projectId,
-        upstreams: services.upstreamService.getHealthStatus(),
-        localNode: await services.nodeStatusService.getStatus(),
-        config: {
-          errorRateThreshold: projectConfig.errorRateThreshold,
-          responseTimeout: projectConfig.responseTimeout,
-          historicalMethods: config.historicalMethods.length,
-        },
-      };
-      return metrics;
-    });
+  // Register project-specific WebSocket endpoint
+  const socketHandler = createProjectSocketHandler(projectFromPath);
+  server.get("/:projectId/ws", { websocket: true }, socketHandler);
+  server.get("/:projectId/ws/:apiKey", { websocket: true }, socketHandler);
+
+  // Register project-specific health endpoint
+  server.get("/:projectId/health", async (request, reply) => {
+    const { projectId } = request.params as any;
+    const services = projectServices.get(projectId);
+    if (!services) {
+      reply.code(404);
+      return { error: `Unknown project ${projectId}` };
+    }
 
-    console.log(`📍 Registered endpoints for project ${projectId}:`);
-    console.log(`   POST /${projectId}[/] - RPC requests`);
-    console.log(`   GET  /${projectId}/health - Health check`);
-    console.log(`   GET  /${projectId}/metrics - Metrics`);
-  }
+    const status = {
+      project: projectId,
+      upstreams: services.upstreamService.getHealthStatus(),
+      localNode: await services.nodeStatusService.getStatus(),
+      blocks: services.blockAvailability.getStatus(),
+      timestamp: new Date().toISOString(),
+    };
+    return status;
+  });
+
+  // Register project-specific metrics endpoint
+  server.get("/:projectId/metrics", async (request, reply) => {
+    const { projectId } = request.params as any;
+    if (!projectServices.has(projectId)) {
+      reply.code(404);
+      return `Unknown project ${projectId}\n`;
+    }
+    if ((request.query as any)?.format === "json") {
+      return buildProjectMetrics(projectId);
+    }
+    return renderPrometheusMetrics([projectId], reply);
+  });
+
+  console.log(
+    `📍 Registered endpoints for projects ${Array.from(
+      projectServices.keys()
+    ).join(", ")}:`
+  );
+  console.log(`   POST /:projectId[/] - RPC requests`);
+  console.log(`   POST /:projectId/:apiKey - RPC requests with API key`);
+  console.log(`   GET  /:projectId/health - Health check`);
+  console.log(
+    `   GET  /:projectId/metrics - Prometheus metrics (?format=json for JSON)`
+  );
+  console.log(
+    `   GET  /:projectId/ws[/:apiKey] - WebSocket RPC and subscriptions`
+  );
 
   // Also register default project at root
-  const defaultHandler = createProjectHandler(config.defaultProject);
   server.post("/", {
-    handler: defaultHandler,
+    handler: createProjectHandler(defaultProject),
   });
 
   console.log(
@@ -529,10 +1211,60 @@ function registerProjectEndpoints(): void {
   );
 }
 
+// Reject admin calls without an admin API key when authentication is enabled
+function authorizeAdmin(request: any, reply: any): boolean {
+  const access = apiKeyService.authorizeAdmin(
+    apiKeyService.extractKey(request.headers)
+  );
+  if (!access.allowed) {
+    reply.code(access.statusCode).send({ error: access.message });
+  }
+  return access.allowed;
+}
+
+// Last reload result, and a manual trigger for environments without file events
+server.get("/admin/reload", async (request, reply) => {
+  if (!authorizeAdmin(request, reply)) return reply;
+  return lastReload || { message: "Config has not been reloaded yet" };
+});
+
+server.post("/admin/reload", async (request, reply) => {
+  if (!authorizeAdmin(request, reply)) return reply;
+  const result = reloadConfig("admin");
+  reply.code(result.success ? 200 : 422);
+  return result;
+});
+
+// Forget methods upstreams answered as unsupported so they are tried again,
+// optionally limited to one project and upstream
+server.delete("/admin/unsupported-methods", async (request, reply) => {
+  if (!authorizeAdmin(request, reply)) return reply;
+  const query = request.query as { project?: string; upstream?: string };
+  const projectIds = query?.project
+    ? [query.project]
+    : Array.from(projectServices.keys());
+  if (projectIds.some((id) => !projectServices.has(id))) {
+    reply.code(404);
+    return { error: `Invalid project: ${query.project}` };
+  }
+
+  const cleared: Record<string, number> = {};
+  for (const projectId of projectIds) {
+    cleared[projectId] = projectServices
+      .get(projectId)!
+      .upstreamService.clearUnsupportedMethods(query?.upstream);
+  }
+  return { cleared };
+});
+
 // Graceful shutdown
 async function gracefulShutdown(): Promise<void> {
   console.log("🔄 Shutting down gracefully...");
   try {
+    for (const services of projectServices.values()) {
+      services.subscriptionService.close();
+      services.healthCheck.stop();
+    }
     await server.close();
     console.log("✅ Server closed successfully");
     process.exit(0);
@@ -544,12 +1276,17 @@ async function gracefulShutdown(): Promise<void> {
 
 process.on("SIGTERM", gracefulShutdown);
 process.on("SIGINT", gracefulShutdown);
+process.on("SIGHUP", () => {
+  if (config) reloadConfig("sighup");
+});
 
 // Start server
 async function start(): Promise<void> {
   try {
     loadConfig();
+    await server.register(websocket);
     registerProjectEndpoints();
+    watchConfigFile();
 
     await server.listen({
       host: config.server.host,
@@ -570,6 +1307,7 @@ async function start(): Promise<void> {
     for (const [projectId, services] of projectServices) {
       console.log(`📡 Checking status for project ${projectId}...`);
       await services.nodeStatusService.getStatus();
+      await services.blockAvailability.refresh();
     }
   } catch (error) {
     console.error("❌ Failed to start server:", error);
@@ -578,7 +1316,11 @@ async function start(): Promise<void> {
 }
 
 if (require.main === module) {
-  start();
+  if (process.argv.includes("--check-config")) {
+    checkConfig();
+  } else {
+    start();
+  }
 }
 
-export { server, start, loadConfig };
+export { server, start, loadConfig, reloadConfig };
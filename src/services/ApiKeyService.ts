@@ -0,0 +1,110 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { ApiKeyConfig, AuthConfig } from '../types';
+import { apiKeyConfigSchema, formatConfigPath } from '../configSchema';
+import { matchesMethodPattern } from '../operations/MethodRoutingOps';
+import { MetricsRegistry } from './MetricsRegistry';
+
+export const DEFAULT_API_KEY_HEADER = 'x-api-key';
+
+export type ApiKeyCheck =
+  | { allowed: true; apiKey: ApiKeyConfig | null } // null when authentication is disabled
+  | { allowed: false; statusCode: number; message: string };
+
+export class ApiKeyService {
+  private keys = new Map<string, ApiKeyConfig>();
+
+  constructor(private config: AuthConfig | undefined, configDir: string) {
+    const keys = [...(config?.keys || [])];
+    if (config?.keyFile) {
+      keys.push(...readKeyFile(path.resolve(configDir, config.keyFile)));
+    }
+
+    keys
+      .filter(apiKey => apiKey.enabled !== false)
+      .forEach(apiKey => this.keys.set(apiKey.key, apiKey));
+  }
+
+  isEnabled(): boolean {
+    return this.config?.enabled === true;
+  }
+
+  get keyCount(): number {
+    return this.keys.size;
+  }
+
+  // Keys are taken from the configured header first, then from the URL path
+  extractKey(headers: Record<string, any>, pathKey?: string): string | undefined {
+    const headerName = (this.config?.header || DEFAULT_API_KEY_HEADER).toLowerCase();
+    const headerValue = headers[headerName];
+    if (typeof headerValue === 'string' && headerValue.length > 0) return headerValue;
+    return pathKey || undefined;
+  }
+
+  // Check that a key exists and may use the project
+  authorize(key: string | undefined, projectId: string): ApiKeyCheck {
+    if (!this.isEnabled()) return { allowed: true, apiKey: null };
+
+    const apiKey = key ? this.keys.get(key) : undefined;
+    if (!apiKey) {
+      this.recordRequest(null, projectId, 'unauthorized');
+      return { allowed: false, statusCode: 401, message: key ? 'Invalid API key' : 'Missing API key' };
+    }
+
+    if (apiKey.projects && !apiKey.projects.includes(projectId) && !apiKey.projects.includes('*')) {
+      this.recordRequest(apiKey, projectId, 'forbidden_project');
+      return { allowed: false, statusCode: 403, message: `API key is not allowed to access project ${projectId}` };
+    }
+
+    return { allowed: true, apiKey };
+  }
+
+  // Admin endpoints need a key flagged as admin; open when authentication is disabled
+  authorizeAdmin(key: string | undefined): ApiKeyCheck {
+    if (!this.isEnabled()) return { allowed: true, apiKey: null };
+
+    const apiKey = key ? this.keys.get(key) : undefined;
+    if (!apiKey) {
+      return { allowed: false, statusCode: 401, message: key ? 'Invalid API key' : 'Missing API key' };
+    }
+    if (!apiKey.admin) {
+      return { allowed: false, statusCode: 403, message: 'API key is not allowed to use admin endpoints' };
+    }
+    return { allowed: true, apiKey };
+  }
+
+  // Check a single method against the key's allow list and count the request
+  authorizeMethod(apiKey: ApiKeyConfig | null, projectId: string, method: string): boolean {
+    if (!apiKey) return true;
+
+    const allowed = !apiKey.allowedMethods || matchesMethodPattern(method, apiKey.allowedMethods);
+    this.recordRequest(apiKey, projectId, allowed ? 'allowed' : 'forbidden_method');
+    return allowed;
+  }
+
+  private recordRequest(apiKey: ApiKeyConfig | null, projectId: string, outcome: string): void {
+    MetricsRegistry.getInstance().incrementCounter('erpc_api_key_requests_total', {
+      project: projectId,
+      key: apiKey?.id || 'unknown',
+      outcome
+    });
+  }
+}
+
+// Keys from a key file, validated like the keys in the config file itself
+function readKeyFile(keyFilePath: string): ApiKeyConfig[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(keyFilePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Cannot read API key file ${keyFilePath}: ${(error as Error).message}`);
+  }
+
+  const result = z.array(apiKeyConfigSchema).safeParse(raw);
+  if (!result.success) {
+    const errors = result.error.issues.map(issue => `${formatConfigPath(issue.path, raw)}: ${issue.message}`);
+    throw new Error(`Invalid API key file ${keyFilePath}:\n  - ${errors.join('\n  - ')}`);
+  }
+  return result.data;
+}
\ No newline at end of file
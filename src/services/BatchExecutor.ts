@@ -0,0 +1,227 @@
+import { FastifyRequest } from 'fastify';
+import { BatchConfig, JsonRpcRequest, UpstreamConfig } from '../types';
+import { DefaultRoutingStrategy } from '../strategy/RoutingStrategy';
+import { UpstreamService } from './UpstreamService';
+import { ResponseCache } from './ResponseCache';
+import { createJsonRpcError, JSON_RPC_ERRORS } from '../validation';
+
+// Applied when a project does not define its own batch settings
+export const DEFAULT_BATCH_CONFIG: BatchConfig = {
+  concurrency: 10,
+  groupByUpstream: false
+};
+
+// The project services a batch item is executed with
+export interface BatchServices {
+  strategy: DefaultRoutingStrategy;
+  upstreamService: UpstreamService;
+  responseCache: ResponseCache;
+}
+
+export interface ProjectRequestResult {
+  response: any;
+  success: boolean;
+  upstreamUsed?: string;
+  error?: string;
+  duration: number;
+}
+
+// Map items with at most `limit` workers in flight, preserving input order
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const runners = Array.from(
+    { length: Math.min(Math.max(limit, 1), items.length) },
+    async () => {
+      while (nextIndex < items.length) {
+        const index = nextIndex++;
+        results[index] = await worker(items[index], index);
+      }
+    }
+  );
+
+  await Promise.all(runners);
+  return results;
+}
+
+// Execute a single project request and return the response
+export async function executeProjectRequest(
+  projectService: BatchServices,
+  singleRequest: JsonRpcRequest,
+  originalRequest?: Pick<FastifyRequest, 'query'>
+): Promise<ProjectRequestResult> {
+  const startTime = Date.now();
+
+  return new Promise(async (resolve) => {
+    // Create a mock reply object that captures the response
+    const mockReply = {
+      _response: null as any,
+      _statusCode: 200,
+      _upstreamUsed: null as string | null,
+
+      send: function (response: any) {
+        this._response = response;
+        const duration = Date.now() - startTime;
+        const success = !response.error;
+
+        resolve({
+          response,
+          success,
+          upstreamUsed: this._upstreamUsed || undefined,
+          error: response.error
+            ? response.error.message || 'Unknown error'
+            : undefined,
+          duration
+        });
+        return this;
+      },
+
+      code: function (statusCode: number) {
+        this._statusCode = statusCode;
+        return this;
+      },
+
+      setUpstreamUsed: function (upstreamId: string) {
+        this._upstreamUsed = upstreamId;
+      }
+    };
+
+    try {
+      // Execute the routing strategy with the mock reply
+      await projectService.strategy.execute(
+        singleRequest,
+        mockReply,
+        originalRequest
+      );
+
+      // If no response was sent, something went wrong
+      if (!mockReply._response) {
+        const duration = Date.now() - startTime;
+        resolve({
+          response: createJsonRpcError(
+            JSON_RPC_ERRORS.INTERNAL_ERROR,
+            'No response from routing strategy',
+            singleRequest.id || null
+          ),
+          success: false,
+          error: 'No response from routing strategy',
+          duration
+        });
+      }
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      resolve({
+        response: createJsonRpcError(
+          JSON_RPC_ERRORS.INTERNAL_ERROR,
+          'Internal error',
+          singleRequest.id || null
+        ),
+        success: false,
+        error: (error as Error).message || 'Internal error',
+        duration
+      });
+    }
+  });
+}
+
+// Route every batch item first, then forward items that share an upstream as
+// one upstream batch call. Items that are not answered cleanly (routing failed,
+// eth_getLogs range over the upstream's limit, upstream fault, missing response)
+// go through the regular per-request path
+export async function executeGroupedBatch(
+  projectService: BatchServices,
+  batchData: JsonRpcRequest[],
+  originalRequest: Pick<FastifyRequest, 'query'> | undefined,
+  concurrency: number
+): Promise<ProjectRequestResult[]> {
+  const results: (ProjectRequestResult | undefined)[] = new Array(
+    batchData.length
+  );
+  const groups = new Map<
+    string,
+    { upstream: UpstreamConfig; indexes: number[] }
+  >();
+
+  // Cached items are answered directly and never routed
+  batchData.forEach((singleRequest, index) => {
+    const cached = projectService.responseCache.get(singleRequest);
+    if (cached) {
+      results[index] = { response: cached, success: true, duration: 0 };
+    }
+  });
+
+  const selections: (UpstreamConfig | null)[] = await mapWithConcurrency(
+    batchData,
+    concurrency,
+    (singleRequest, index) =>
+      results[index]
+        ? Promise.resolve(null)
+        : projectService.strategy.selectUpstream(singleRequest)
+  );
+
+  selections.forEach((upstream, index) => {
+    if (!upstream) return;
+    const group = groups.get(upstream.id) || { upstream, indexes: [] };
+    group.indexes.push(index);
+    groups.set(upstream.id, group);
+  });
+
+  await mapWithConcurrency([...groups.values()], concurrency, async (group) => {
+    const startTime = Date.now();
+    // Use batch positions as ids so duplicate or missing client ids cannot collide
+    const upstreamBatch = group.indexes.map((index) => ({
+      ...batchData[index],
+      id: index
+    }));
+    const proxyResult = await projectService.upstreamService.proxyRequest(
+      group.upstream,
+      upstreamBatch
+    );
+
+    if (!proxyResult.success || !Array.isArray(proxyResult.data)) {
+      return;
+    }
+
+    const duration = Date.now() - startTime;
+    for (const itemResponse of proxyResult.data) {
+      const index = itemResponse?.id;
+      if (typeof index !== 'number' || !group.indexes.includes(index)) {
+        continue;
+      }
+      if (projectService.upstreamService.isUpstreamFailureResponse(itemResponse)) {
+        continue;
+      }
+
+      await projectService.responseCache.store(batchData[index], itemResponse);
+      results[index] = {
+        response: { ...itemResponse, id: batchData[index].id },
+        success: !itemResponse.error,
+        upstreamUsed: group.upstream.id,
+        error: itemResponse.error
+          ? itemResponse.error.message || 'Unknown error'
+          : undefined,
+        duration
+      };
+    }
+  });
+
+  const pendingIndexes = batchData
+    .map((_, index) => index)
+    .filter((index) => !results[index]);
+  const pendingResults = await mapWithConcurrency(
+    pendingIndexes,
+    concurrency,
+    (index) =>
+      executeProjectRequest(projectService, batchData[index], originalRequest)
+  );
+  pendingIndexes.forEach((index, i) => {
+    results[index] = pendingResults[i];
+  });
+
+  return results as ProjectRequestResult[];
+}
\ No newline at end of file
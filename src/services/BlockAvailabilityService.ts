@@ -0,0 +1,230 @@
+import { BlockTrackingConfig, ProjectConfig, UpstreamConfig, UpstreamSyncState } from '../types';
+import { redactSecrets } from '../redaction';
+import { callJsonRpc, createStatusProbe, JsonRpcCallError, resolveStatusProbeConfig } from './StatusProbes';
+
+export const DEFAULT_BLOCK_TRACKING_CONFIG: BlockTrackingConfig = {
+  enabled: true,
+  probeEarliest: false, // The probe's eth_getBalance calls bypass upstream budgets
+  probeIntervalMs: 3600000,
+  maxLagBlocks: 10
+};
+
+// Any address works: the call only checks whether the node still holds state at the block
+const PROBE_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+// Highest block a strict majority of the reachable upstreams have reached, so a single
+// upstream reporting a runaway height cannot make every other one look behind. Two
+// upstreams have no majority beyond the lower head, so neither is treated as lagging
+export function computeConsensusHead(syncStates: Map<string, UpstreamSyncState>): number | null {
+  const heads = Array.from(syncStates.values())
+    .filter(state => state.latestBlock !== null && !state.error)
+    .map(state => state.latestBlock as number)
+    .sort((a, b) => b - a);
+  return heads.length > 0 ? heads[Math.floor(heads.length / 2)] : null;
+}
+
+// Blocks an upstream trails the consensus head by, null when either is unknown
+export function computeHeadLag(syncState: UpstreamSyncState | undefined, consensusHead: number | null): number | null {
+  if (!syncState || syncState.latestBlock === null || consensusHead === null) return null;
+  return Math.max(0, consensusHead - syncState.latestBlock);
+}
+
+// Tracks the earliest and latest block every upstream can serve. Polling is lazy like
+// NodeStatusService: reads return the cached states and refresh them in the background once stale
+export class BlockAvailabilityService {
+  private config: BlockTrackingConfig;
+  private states = new Map<string, UpstreamSyncState>();
+  // Highest block each upstream answered with a pruned-state error, and when that was learned
+  private prunedBlocks = new Map<string, { block: number; learnedAt: number }>();
+  private refreshing: Promise<void> | null = null;
+  private lastRefresh = 0;
+
+  constructor(private project: ProjectConfig) {
+    this.config = { ...DEFAULT_BLOCK_TRACKING_CONFIG, ...project.blockTracking };
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  // Keep the ranges learned before a config reload for upstreams that are still configured
+  adoptState(previous: BlockAvailabilityService): void {
+    this.project.upstreams.forEach(upstream => {
+      const state = previous.states.get(upstream.id);
+      if (state) {
+        this.states.set(upstream.id, state);
+      }
+      const pruned = previous.prunedBlocks.get(upstream.id);
+      if (pruned) {
+        this.prunedBlocks.set(upstream.id, pruned);
+      }
+    });
+    this.lastRefresh = previous.lastRefresh;
+  }
+
+  getSyncStates(): Map<string, UpstreamSyncState> {
+    const intervalMs = this.config.intervalMs ?? this.project.statusCheckInterval;
+    if (this.config.enabled && !this.refreshing && Date.now() - this.lastRefresh >= intervalMs) {
+      this.refresh().catch(() => undefined);
+    }
+    return this.states;
+  }
+
+  getSyncState(upstreamId: string): UpstreamSyncState | undefined {
+    return this.states.get(upstreamId);
+  }
+
+  // The upstream no longer holds this block, nor any older one. Learned from request errors,
+  // so it works without polling and keeps the highest block seen
+  recordPrunedBlock(upstreamId: string, block: number): void {
+    const current = this.getPrunedBlocks().get(upstreamId);
+    if (current === undefined || block > current) {
+      this.prunedBlocks.set(upstreamId, { block, learnedAt: Date.now() });
+    }
+  }
+
+  // Learned pruned blocks expire after probeIntervalMs so a resynced node gets retried
+  getPrunedBlocks(): Map<string, number> {
+    const now = Date.now();
+    const pruned = new Map<string, number>();
+    this.prunedBlocks.forEach((entry, upstreamId) => {
+      if (now - entry.learnedAt < this.config.probeIntervalMs) {
+        pruned.set(upstreamId, entry.block);
+      } else {
+        this.prunedBlocks.delete(upstreamId);
+      }
+    });
+    return pruned;
+  }
+
+  // Highest latest block reported by any upstream
+  getChainHead(): number | null {
+    let head: number | null = null;
+    this.states.forEach(state => {
+      if (state.latestBlock !== null && (head === null || state.latestBlock > head)) {
+        head = state.latestBlock;
+      }
+    });
+    return head;
+  }
+
+  // Summary for the health endpoints
+  getStatus(): {
+    enabled: boolean;
+    chainHead: number | null;
+    consensusHead: number | null;
+    maxLagBlocks: number;
+    upstreams: Record<string, UpstreamSyncState & { lag: number | null; lagging: boolean }>;
+    prunedBlocks: Record<string, number>;
+  } {
+    const syncStates = this.getSyncStates();
+    const consensusHead = computeConsensusHead(syncStates);
+    const upstreams = Array.from(syncStates.entries()).map(([upstreamId, state]) => {
+      const lag = computeHeadLag(state, consensusHead);
+      return [upstreamId, { ...state, lag, lagging: lag !== null && lag > this.config.maxLagBlocks }];
+    });
+    return {
+      enabled: this.config.enabled,
+      chainHead: this.getChainHead(),
+      consensusHead,
+      maxLagBlocks: this.config.maxLagBlocks,
+      upstreams: Object.fromEntries(upstreams),
+      prunedBlocks: Object.fromEntries(this.getPrunedBlocks())
+    };
+  }
+
+  // Poll every upstream once; concurrent callers share the same refresh
+  refresh(): Promise<void> {
+    if (!this.config.enabled) return Promise.resolve();
+    if (!this.refreshing) {
+      this.refreshing = Promise.all(this.project.upstreams.map(upstream => this.pollUpstream(upstream)))
+        .then(() => {
+          this.lastRefresh = Date.now();
+        })
+        .finally(() => {
+          this.refreshing = null;
+        });
+    }
+    return this.refreshing;
+  }
+
+  private async pollUpstream(upstream: UpstreamConfig): Promise<void> {
+    const previous = this.states.get(upstream.id);
+    const probeConfig = resolveStatusProbeConfig(upstream);
+    try {
+      const status = await createStatusProbe(probeConfig).probe(upstream, this.project.health.nodeStatusTimeoutMs);
+      const state: UpstreamSyncState = {
+        earliestBlock: status.earliestBlock ?? previous?.earliestBlock ?? null,
+        latestBlock: status.latestBlock,
+        source: probeConfig.type,
+        catchingUp: status.catchingUp,
+        lastUpdated: Date.now(),
+        earliestProbedAt: previous?.earliestProbedAt
+      };
+
+      if (status.earliestBlock === null) {
+        if (upstream.type === 'archive') {
+          // Archive nodes keep everything since the EVM became available
+          state.earliestBlock = upstream.evmStartBlock ?? 0;
+        } else if (
+          this.config.probeEarliest &&
+          (previous?.earliestProbedAt === undefined || Date.now() - previous.earliestProbedAt >= this.config.probeIntervalMs)
+        ) {
+          state.earliestBlock = await this.probeEarliestBlock(upstream, status.latestBlock);
+          state.earliestProbedAt = Date.now();
+        }
+      }
+      this.states.set(upstream.id, state);
+    } catch (error) {
+      const message = redactSecrets((error as Error).message);
+      if (!previous?.error) {
+        console.warn(`Block tracking failed for ${upstream.id}: ${message}`);
+      }
+      this.states.set(upstream.id, {
+        earliestBlock: previous?.earliestBlock ?? null,
+        latestBlock: previous?.latestBlock ?? null,
+        source: probeConfig.type,
+        catchingUp: previous?.catchingUp,
+        lastUpdated: previous?.lastUpdated ?? 0,
+        earliestProbedAt: previous?.earliestProbedAt,
+        error: message
+      });
+    }
+  }
+
+  // Binary search for the oldest block whose state the node still serves
+  private async probeEarliestBlock(upstream: UpstreamConfig, latestBlock: number): Promise<number | null> {
+    let low = upstream.evmStartBlock ?? 0;
+    let high = latestBlock;
+
+    if (await this.hasState(upstream, low)) return low;
+    if (!(await this.hasState(upstream, high))) return null;
+
+    // Invariant: the node has no state at low and has state at high
+    while (high - low > 1) {
+      const middle = Math.floor((low + high) / 2);
+      if (await this.hasState(upstream, middle)) {
+        high = middle;
+      } else {
+        low = middle;
+      }
+    }
+    return high;
+  }
+
+  private async hasState(upstream: UpstreamConfig, block: number): Promise<boolean> {
+    try {
+      await callJsonRpc(
+        upstream.rpcUrl,
+        'eth_getBalance',
+        [PROBE_ADDRESS, `0x${block.toString(16)}`],
+        this.project.health.nodeStatusTimeoutMs
+      );
+      return true;
+    } catch (error) {
+      // Transport failures abort the probe rather than reading as pruned
+      if (error instanceof JsonRpcCallError) return false;
+      throw error;
+    }
+  }
+}
\ No newline at end of file
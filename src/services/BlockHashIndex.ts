@@ -0,0 +1,175 @@
+import { HashIndexConfig, JsonRpcRequest, ProjectConfig } from '../types';
+import { UpstreamService } from './UpstreamService';
+import { callJsonRpc, parseBlockHeight } from './StatusProbes';
+
+export const DEFAULT_HASH_INDEX_CONFIG: HashIndexConfig = {
+  enabled: true,
+  maxEntries: 100000,
+  lookup: false
+};
+
+// Parameter index of the block hash for methods addressed by block hash
+const BLOCK_HASH_METHODS: Record<string, number> = {
+  'eth_getBlockByHash': 0,
+  'eth_getBlockTransactionCountByHash': 0,
+  'eth_getTransactionByBlockHashAndIndex': 0,
+  'eth_getUncleByBlockHashAndIndex': 0,
+  'eth_getUncleCountByBlockHash': 0,
+  'debug_traceBlockByHash': 0
+};
+
+// Methods addressed by transaction hash, always the first parameter
+const TRANSACTION_HASH_METHODS = [
+  'eth_getTransactionByHash',
+  'eth_getTransactionReceipt',
+  'debug_traceTransaction',
+  'trace_transaction',
+  'trace_replayTransaction'
+];
+
+export interface HashReference {
+  kind: 'block' | 'transaction';
+  hash: string;
+}
+
+// The block or transaction hash a request is addressed by, including eth_getLogs blockHash filters
+export function getHashReference(method: string, params?: any[]): HashReference | null {
+  if (!Array.isArray(params)) return null;
+
+  let reference: HashReference | null = null;
+  if (BLOCK_HASH_METHODS.hasOwnProperty(method)) {
+    reference = { kind: 'block', hash: params[BLOCK_HASH_METHODS[method]] };
+  } else if (TRANSACTION_HASH_METHODS.includes(method)) {
+    reference = { kind: 'transaction', hash: params[0] };
+  } else if (method === 'eth_getLogs' && params[0] && typeof params[0] === 'object') {
+    reference = { kind: 'block', hash: params[0].blockHash };
+  }
+
+  return reference && typeof reference.hash === 'string' ? { ...reference, hash: reference.hash.toLowerCase() } : null;
+}
+
+// Maps block and transaction hashes to block numbers so by-hash requests can be routed like
+// numeric ones. Learns from blocks, transactions, receipts and logs in upstream responses
+export class BlockHashIndex {
+  private config: HashIndexConfig;
+  private entries = new Map<string, number>();
+  private lookups = new Map<string, Promise<void>>();
+  private hits = 0;
+  private misses = 0;
+  private lookupCount = 0;
+
+  constructor(private project: ProjectConfig, private upstreamService: UpstreamService) {
+    this.config = { ...DEFAULT_HASH_INDEX_CONFIG, ...project.hashIndex };
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  // Keep the hashes learned before a config reload
+  adoptState(previous: BlockHashIndex): void {
+    previous.entries.forEach((blockNumber, hash) => this.set(hash, blockNumber));
+  }
+
+  get(hash: string): number | null {
+    if (!this.config.enabled) return null;
+
+    const key = hash.toLowerCase();
+    const blockNumber = this.entries.get(key);
+    if (blockNumber === undefined) {
+      this.misses++;
+      return null;
+    }
+
+    // Re-insert to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, blockNumber);
+    this.hits++;
+    return blockNumber;
+  }
+
+  set(hash: string, blockNumber: number): void {
+    if (!this.config.enabled) return;
+
+    const key = hash.toLowerCase();
+    this.entries.delete(key);
+    this.entries.set(key, blockNumber);
+    if (this.entries.size > this.config.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  // Record every hash a JSON-RPC result ties to a block number
+  learn(result: unknown): void {
+    if (!this.config.enabled || !result || typeof result !== 'object') return;
+
+    if (Array.isArray(result)) {
+      result.forEach(item => this.learn(item));
+      return;
+    }
+
+    const item = result as Record<string, any>;
+    // Blocks carry number and hash; transactions, receipts and logs carry blockNumber and blockHash
+    const blockNumber = parseBlockHeight(item.blockNumber ?? item.number);
+    if (blockNumber === null) return;
+
+    const blockHash = item.blockNumber !== undefined ? item.blockHash : item.hash;
+    if (typeof blockHash === 'string') this.set(blockHash, blockNumber);
+
+    const transactionHash = item.transactionHash ?? (item.blockNumber !== undefined ? item.hash : undefined);
+    if (typeof transactionHash === 'string') this.set(transactionHash, blockNumber);
+
+    if (Array.isArray(item.transactions)) {
+      item.transactions.forEach((transaction: unknown) => {
+        const hash = typeof transaction === 'string' ? transaction : (transaction as any)?.hash;
+        if (typeof hash === 'string') this.set(hash, blockNumber);
+      });
+    }
+  }
+
+  // With lookups enabled, ask the preferred upstream for the block of a hash the index does not
+  // know yet. Concurrent requests for the same hash share one call; failures leave it unresolved
+  async resolve(request: JsonRpcRequest): Promise<void> {
+    const reference = getHashReference(request.method, request.params);
+    if (!this.config.enabled || !this.config.lookup || !reference || this.entries.has(reference.hash)) return;
+
+    let lookup = this.lookups.get(reference.hash);
+    if (!lookup) {
+      lookup = this.lookup(reference).finally(() => this.lookups.delete(reference.hash));
+      this.lookups.set(reference.hash, lookup);
+    }
+    await lookup;
+  }
+
+  getStats() {
+    return {
+      enabled: this.config.enabled,
+      entries: this.entries.size,
+      hits: this.hits,
+      misses: this.misses,
+      lookups: this.lookupCount
+    };
+  }
+
+  // Lookups bypass budgets and health tracking and go to the healthiest cheap upstream
+  private async lookup(reference: HashReference): Promise<void> {
+    const health = this.upstreamService.getHealthMap();
+    const upstream = [...this.upstreamService.getAvailableUpstreams()].sort((a, b) =>
+      Number(health.get(b.id)?.isHealthy ?? false) - Number(health.get(a.id)?.isHealthy ?? false) ||
+      Number(a.type === 'archive') - Number(b.type === 'archive') ||
+      a.priority - b.priority
+    )[0];
+    if (!upstream) return;
+
+    this.lookupCount++;
+    const timeoutMs = this.config.lookupTimeoutMs ?? this.project.health.nodeStatusTimeoutMs;
+    try {
+      const result = reference.kind === 'block'
+        ? await callJsonRpc(upstream.rpcUrl, 'eth_getBlockByHash', [reference.hash, false], timeoutMs)
+        : await callJsonRpc(upstream.rpcUrl, 'eth_getTransactionByHash', [reference.hash], timeoutMs);
+      this.learn(result);
+    } catch {
+      // Unknown to this upstream too; the request is routed without a block number
+    }
+  }
+}
\ No newline at end of file
@@ -1,56 +1,102 @@
-import { ProjectConfig, AppConfig } from '../types';
+import { ProjectConfig, AppConfig, BlockRange } from '../types';
+import { BlockHashIndex, getHashReference } from './BlockHashIndex';
+
+// A project's own historicalMethods replace the top-level list
+export function getHistoricalMethods(config: ProjectConfig, appConfig: AppConfig): string[] {
+  return config.historicalMethods ?? appConfig.historicalMethods;
+}
 
 export class BlockNumberExtractor {
+  private hashIndex: BlockHashIndex | null = null;
+
   constructor(private config: ProjectConfig, private appConfig: AppConfig) {}
 
+  // Set the index that resolves by-hash requests to block numbers
+  setBlockHashIndex(hashIndex: BlockHashIndex) {
+    this.hashIndex = hashIndex;
+  }
+
   extract(method: string, params?: any[]): number | 'latest' | null {
     if (!params || !Array.isArray(params)) return null;
 
     // Check if this method has block number parameters
-    if (!this.appConfig.historicalMethods.includes(method)) return null;
-
-    const blockNumberMethods: Record<string, number> = {
-      // Block number as first parameter (index 0)
-      'eth_getBlockByNumber': 0,
-      'eth_getBlockTransactionCountByNumber': 0,
-      'eth_getTransactionByBlockNumberAndIndex': 0,
-      'eth_getUncleByBlockNumberAndIndex': 0,
-      'eth_getUncleCountByBlockNumber': 0,
-      'debug_traceBlockByNumber': 0,
-      'trace_block': 0,
-      'trace_blockByNumber': 0,
-      // Block number as second parameter (index 1)
-      'eth_getBalance': 1,
-      'eth_getCode': 1,
-      'eth_getStorageAt': 2, // storage key is param 1, block is param 2
-      'eth_call': 1
-    };
+    if (!getHistoricalMethods(this.config, this.appConfig).includes(method)) return null;
+
+    // By-hash methods and blockHash log filters get the block number the index learned for the hash
+    const hashReference = getHashReference(method, params);
+    if (hashReference) {
+      return this.hashIndex?.get(hashReference.hash) ?? null;
+    }
 
     // Handle methods with block number parameter
-    if (blockNumberMethods.hasOwnProperty(method)) {
-      const blockParam = params[blockNumberMethods[method]];
-      if (blockParam === 'latest' || blockParam === 'pending') {
-        return 'latest';
-      }
-      if (blockParam === 'earliest') {
-        return 0;
-      }
-      if (typeof blockParam === 'string') {
-        const blockNum = parseInt(blockParam, 16);
-        return isNaN(blockNum) ? null : blockNum;
-      }
-      return blockParam;
+    const blockParam = getBlockParam(method, params);
+    if (blockParam !== undefined) {
+      if (HEAD_TAGS.includes(blockParam as string)) return 'latest';
+      if (blockParam === 'earliest') return 0;
+      return typeof blockParam === 'number' ? blockParam : parseBlockNumber(blockParam);
     }
 
-    // Handle eth_getLogs with block range
+    // Handle eth_getLogs with block range, routed by its oldest block
     if (method === 'eth_getLogs' && params[0] && typeof params[0] === 'object') {
       const filter = params[0];
-      if (filter.fromBlock && filter.fromBlock !== 'latest' && filter.fromBlock !== 'pending') {
-        const blockNum = parseInt(filter.fromBlock, 16);
-        return isNaN(blockNum) ? null : blockNum;
+      if (filter.fromBlock && !HEAD_TAGS.includes(filter.fromBlock)) {
+        return filter.fromBlock === 'earliest' ? 0 : parseBlockNumber(filter.fromBlock);
       }
     }
 
     return null;
   }
+
+  // Block span of an eth_getLogs filter. Omitted bounds default to latest and tags resolve
+  // against head; null without a resolvable span, including blockHash filters (a single block)
+  extractRange(method: string, params: any[] | undefined, head: number | null): BlockRange | null {
+    if (method !== 'eth_getLogs' || !Array.isArray(params)) return null;
+
+    const filter = params[0];
+    if (!filter || typeof filter !== 'object' || filter.blockHash) return null;
+
+    const resolve = (tag: unknown): number | null => {
+      if (tag === undefined || HEAD_TAGS.includes(tag as string)) return head;
+      if (tag === 'earliest') return 0;
+      return typeof tag === 'number' ? tag : parseBlockNumber(tag);
+    };
+
+    const fromBlock = resolve(filter.fromBlock);
+    const toBlock = resolve(filter.toBlock);
+    if (fromBlock === null || toBlock === null || fromBlock > toBlock) return null;
+
+    return { fromBlock, toBlock, toHead: filter.toBlock === undefined || HEAD_TAGS.includes(filter.toBlock) };
+  }
+}
+
+// Tags that follow the chain head
+const HEAD_TAGS = ['latest', 'pending', 'safe', 'finalized'];
+
+// Position of the block parameter in methods addressed by block number
+const BLOCK_PARAM_INDEX: Record<string, number> = {
+  // Block number as first parameter (index 0)
+  'eth_getBlockByNumber': 0,
+  'eth_getBlockTransactionCountByNumber': 0,
+  'eth_getTransactionByBlockNumberAndIndex': 0,
+  'eth_getUncleByBlockNumberAndIndex': 0,
+  'eth_getUncleCountByBlockNumber': 0,
+  'debug_traceBlockByNumber': 0,
+  'trace_block': 0,
+  'trace_blockByNumber': 0,
+  // Block number as second parameter (index 1)
+  'eth_getBalance': 1,
+  'eth_getCode': 1,
+  'eth_getStorageAt': 2, // storage key is param 1, block is param 2
+  'eth_call': 1
+};
+
+// Block parameter of a by-number request as sent, undefined for other methods
+export function getBlockParam(method: string, params?: any[]): unknown {
+  if (!Array.isArray(params) || !Object.prototype.hasOwnProperty.call(BLOCK_PARAM_INDEX, method)) return undefined;
+  return params[BLOCK_PARAM_INDEX[method]];
+}
+
+// A hex block number such as 0x1b4; tags and any other value give null
+export function parseBlockNumber(value: unknown): number | null {
+  return typeof value === 'string' && /^0x[0-9a-fA-F]+$/.test(value) ? parseInt(value, 16) : null;
 }
\ No newline at end of file
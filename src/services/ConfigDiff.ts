@@ -0,0 +1,71 @@
+import { AppConfig, ProjectConfig } from '../types';
+
+export interface UpstreamDiff {
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+export interface ConfigDiff {
+  addedProjects: string[];
+  removedProjects: string[];
+  changedProjects: string[];
+  unchangedProjects: string[];
+  upstreams: Record<string, UpstreamDiff>; // Per changed project
+  restartRequired: string[]; // Settings that only take effect after a restart
+}
+
+// App-level settings that project services read at construction time
+const SHARED_PROJECT_SETTINGS: (keyof AppConfig)[] = ['historicalMethods', 'timeouts'];
+
+// Read once at startup: the listening socket, the file watcher and the plugin modules
+const RESTART_REQUIRED_SETTINGS: (keyof AppConfig)[] = ['server', 'reload', 'plugins'];
+
+const isEqual = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+function diffUpstreams(previous: ProjectConfig, next: ProjectConfig): UpstreamDiff {
+  const previousById = new Map(previous.upstreams.map(u => [u.id, u]));
+  const nextById = new Map(next.upstreams.map(u => [u.id, u]));
+
+  return {
+    added: next.upstreams.filter(u => !previousById.has(u.id)).map(u => u.id),
+    removed: previous.upstreams.filter(u => !nextById.has(u.id)).map(u => u.id),
+    changed: next.upstreams.filter(u => previousById.has(u.id) && !isEqual(previousById.get(u.id), u)).map(u => u.id)
+  };
+}
+
+// Compare two configs project by project to decide which services must be rebuilt
+export function diffConfigs(previous: AppConfig, next: AppConfig): ConfigDiff {
+  const previousProjects = new Map(previous.projects.map(p => [p.id, p]));
+  const nextIds = new Set(next.projects.map(p => p.id));
+  const sharedSettingsChanged = SHARED_PROJECT_SETTINGS.some(key => !isEqual(previous[key], next[key]));
+
+  const diff: ConfigDiff = {
+    addedProjects: [],
+    removedProjects: previous.projects.filter(p => !nextIds.has(p.id)).map(p => p.id),
+    changedProjects: [],
+    unchangedProjects: [],
+    upstreams: {},
+    restartRequired: []
+  };
+
+  next.projects.forEach(project => {
+    const previousProject = previousProjects.get(project.id);
+    if (!previousProject) {
+      diff.addedProjects.push(project.id);
+    } else if (sharedSettingsChanged || !isEqual(previousProject, project)) {
+      diff.changedProjects.push(project.id);
+      diff.upstreams[project.id] = diffUpstreams(previousProject, project);
+    } else {
+      diff.unchangedProjects.push(project.id);
+    }
+  });
+
+  RESTART_REQUIRED_SETTINGS.forEach(key => {
+    if (!isEqual(previous[key], next[key])) {
+      diff.restartRequired.push(key);
+    }
+  });
+
+  return diff;
+}
\ No newline at end of file
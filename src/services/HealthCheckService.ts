@@ -0,0 +1,93 @@
+import { HealthCheckConfig, ProjectConfig, UpstreamConfig } from '../types';
+import { UpstreamService } from './UpstreamService';
+import { callJsonRpc } from './StatusProbes';
+import { redactSecrets } from '../redaction';
+
+export const DEFAULT_HEALTH_CHECK_CONFIG: HealthCheckConfig = {
+  enabled: true,
+  intervalMs: 5000,
+  method: 'eth_blockNumber',
+  params: [],
+  backoffMultiplier: 2,
+  maxBackoffMs: 600000
+};
+
+export function resolveHealthCheckConfig(project: ProjectConfig): HealthCheckConfig {
+  return { ...DEFAULT_HEALTH_CHECK_CONFIG, ...project.healthCheck };
+}
+
+// Background recovery for unhealthy upstreams. Once an open circuit's cooldown expires the
+// upstream goes half-open and gets one probe request: success closes the circuit, failure
+// reopens it with a cooldown that grows by backoffMultiplier per failed probe
+export class HealthCheckService {
+  private config: HealthCheckConfig;
+  private timer: NodeJS.Timeout | null = null;
+  private probing = new Set<string>();
+
+  constructor(private project: ProjectConfig, private upstreamService: UpstreamService) {
+    this.config = resolveHealthCheckConfig(project);
+  }
+
+  start(): void {
+    if (!this.config.enabled || this.timer) return;
+    this.timer = setInterval(() => {
+      this.checkOpenCircuits().catch(() => undefined);
+    }, this.config.intervalMs);
+    // Never keep the process alive just for health checks
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Probe every upstream whose circuit is open and past its cooldown
+  async checkOpenCircuits(): Promise<void> {
+    const now = Date.now();
+    const health = this.upstreamService.getHealthMap();
+    const due = this.project.upstreams.filter(upstream => {
+      const upstreamHealth = health.get(upstream.id);
+      return (
+        !!upstreamHealth &&
+        this.upstreamService.getCircuitState(upstream.id) === 'open' &&
+        upstreamHealth.failoverUntil <= now &&
+        !this.probing.has(upstream.id)
+      );
+    });
+    await Promise.all(due.map(upstream => this.probe(upstream)));
+  }
+
+  private async probe(upstream: UpstreamConfig): Promise<void> {
+    this.probing.add(upstream.id);
+    this.upstreamService.transitionCircuit(upstream.id, 'half_open', { detail: `probing with ${this.config.method}` });
+
+    try {
+      await callJsonRpc(
+        upstream.rpcUrl,
+        this.config.method,
+        this.config.params,
+        this.config.timeoutMs ?? this.project.health.nodeStatusTimeoutMs
+      );
+      this.upstreamService.transitionCircuit(upstream.id, 'closed', { detail: 'probe succeeded' });
+    } catch (error) {
+      const health = this.upstreamService.getHealthMap().get(upstream.id);
+      const failedProbes = (health?.failedProbes ?? 0) + 1;
+      const cooldownMs = Math.min(
+        this.project.health.failoverCooldownMs * Math.pow(this.config.backoffMultiplier, failedProbes),
+        this.config.maxBackoffMs
+      );
+      if (health) {
+        health.failedProbes = failedProbes;
+      }
+      this.upstreamService.transitionCircuit(upstream.id, 'open', {
+        cooldownMs,
+        detail: `probe failed: ${redactSecrets((error as Error).message)}, retrying in ${Math.round(cooldownMs / 1000)}s`
+      });
+    } finally {
+      this.probing.delete(upstream.id);
+    }
+  }
+}
\ No newline at end of file
@@ -1,4 +1,13 @@
-import { DebugEvent, InstrumentationContext, RoutingContext } from '../types';
+import { DebugEvent, InstrumentationContext, RoutingContext, UpstreamErrorClass } from '../types';
+
+export interface ProxyAttemptInfo {
+  attempt: number;
+  maxAttempts: number;
+  errorClass?: UpstreamErrorClass;
+  responseTime: number;
+  willRetry: boolean;
+  splitRequests?: number;
+}
 
 export class InstrumentationService {
   private static instance: InstrumentationService;
@@ -65,7 +74,8 @@ export class InstrumentationService {
       filteredUpstreams: result.filteredUpstreams?.map((u: any) => u.id) || [],
       selectedUpstream: result.selectedUpstream?.id || null,
       reason: result.reason,
-      shouldContinue: result.shouldContinue
+      shouldContinue: result.shouldContinue,
+      ...(result.details && { details: result.details })
     }, startTime);
   }
 
@@ -76,11 +86,43 @@ export class InstrumentationService {
     }, startTime);
   }
 
-  logRequestProxy(requestId: string, upstreamId: string, success: boolean, error?: string): void {
+  logRequestProxy(requestId: string, upstreamId: string, success: boolean, error?: string, attempt?: ProxyAttemptInfo): void {
     this.logEvent(requestId, 'request_proxy', success ? 'result' : 'error', {
       upstream: upstreamId,
       success,
-      error
+      error,
+      ...attempt
+    });
+  }
+
+  logCacheLookup(requestId: string, method: string, hit: boolean): void {
+    this.logEvent(requestId, 'cache', hit ? 'result' : 'skip', {
+      method,
+      hit
+    });
+  }
+
+  logCacheStore(requestId: string, method: string, stored: boolean): void {
+    this.logEvent(requestId, 'cache', 'result', {
+      method,
+      stored
+    });
+  }
+
+  logFailover(requestId: string, chain: string[], succeeded: boolean): void {
+    this.logEvent(requestId, 'failover', succeeded ? 'result' : 'error', {
+      chain,
+      attempts: chain.length,
+      succeeded
+    });
+  }
+
+  logArchiveFallback(requestId: string, fromUpstream: string, toUpstream: string, blockNumber: number): void {
+    this.logEvent(requestId, 'archive_fallback', 'result', {
+      from: fromUpstream,
+      to: toUpstream,
+      blockNumber,
+      reason: 'pruned_state'
     });
   }
 
@@ -107,6 +149,7 @@ export class InstrumentationService {
       },
       context: {
         blockNumber: routingContext.blockNumber,
+        blockRange: routingContext.blockRange,
         availableUpstreams: routingContext.availableUpstreams.map(u => u.id),
         healthyUpstreams: routingContext.availableUpstreams
           .filter(u => routingContext.upstreamHealth.get(u.id)?.isHealthy)
@@ -1,4 +1,4 @@
-import { LoggingConfig } from '../types';
+import { CircuitState, LoggingConfig } from '../types';
 
 export class Logger {
   private static instance: Logger;
@@ -107,12 +107,14 @@ export class Logger {
     }
   }
 
-  logUpstreamHealth(upstreamId: string, isHealthy: boolean, errorRate?: number, consecutiveErrors?: number): void {
+  // Circuit breaker transitions: closed is healthy, open and half-open are not
+  logUpstreamHealth(upstreamId: string, from: CircuitState, to: CircuitState, detail?: string): void {
     if (this.config.logUpstreamHealth && !this.config.production) {
-      if (isHealthy) {
-        this.info(`Upstream ${upstreamId} marked as healthy${errorRate !== undefined ? `. Error rate: ${errorRate.toFixed(3)}` : ''}`);
+      const message = `Upstream ${upstreamId} circuit ${from} → ${to}${detail ? ` (${detail})` : ''}`;
+      if (to === 'closed') {
+        this.info(message);
       } else {
-        this.warn(`Upstream ${upstreamId} marked as unhealthy${errorRate !== undefined ? `. Error rate: ${errorRate.toFixed(3)}` : ''}${consecutiveErrors !== undefined ? `, consecutive errors: ${consecutiveErrors}` : ''}`);
+        this.warn(message);
       }
     }
   }
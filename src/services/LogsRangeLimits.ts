@@ -0,0 +1,47 @@
+import { BlockRange, JsonRpcRequest, LogsConfig, ProjectConfig, UpstreamConfig } from '../types';
+
+export const DEFAULT_LOGS_CONFIG: LogsConfig = {
+  onRangeExceeded: 'split',
+  maxSplitRequests: 10
+};
+
+export function resolveLogsConfig(project: ProjectConfig): LogsConfig {
+  return { ...DEFAULT_LOGS_CONFIG, ...project.logs };
+}
+
+export function getBlockRangeSize(range: BlockRange): number {
+  return range.toBlock - range.fromBlock + 1;
+}
+
+export function exceedsLogsRangeLimit(upstream: UpstreamConfig, range: BlockRange): boolean {
+  return upstream.maxLogsBlockRange !== undefined && getBlockRangeSize(range) > upstream.maxLogsBlockRange;
+}
+
+// Whether the range can never be sent to the upstream: too wide and either rejection is
+// configured or splitting would take more than maxSplitRequests chunks
+export function rejectsLogsRange(upstream: UpstreamConfig, range: BlockRange, config: LogsConfig): boolean {
+  if (!exceedsLogsRangeLimit(upstream, range)) return false;
+  if (config.onRangeExceeded === 'reject') return true;
+  return Math.ceil(getBlockRangeSize(range) / upstream.maxLogsBlockRange!) > config.maxSplitRequests;
+}
+
+// One eth_getLogs request per chunk of at most maxBlocks blocks. The last chunk keeps the
+// original toBlock so ranges ending at a head tag still follow the head
+export function splitLogsRequest(request: JsonRpcRequest, range: BlockRange, maxBlocks: number): JsonRpcRequest[] {
+  const filter = request.params![0];
+  const requests: JsonRpcRequest[] = [];
+
+  for (let fromBlock = range.fromBlock; fromBlock <= range.toBlock; fromBlock += maxBlocks) {
+    const toBlock = Math.min(fromBlock + maxBlocks - 1, range.toBlock);
+    const isLast = toBlock === range.toBlock;
+    requests.push({
+      ...request,
+      params: [{
+        ...filter,
+        fromBlock: `0x${fromBlock.toString(16)}`,
+        toBlock: isLast && range.toHead ? filter.toBlock ?? 'latest' : `0x${toBlock.toString(16)}`
+      }, ...request.params!.slice(1)]
+    });
+  }
+  return requests;
+}
\ No newline at end of file
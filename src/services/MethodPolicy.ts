@@ -0,0 +1,49 @@
+import { JsonRpcRequest, ProjectConfig, UpstreamConfig } from '../types';
+import { matchesMethodPattern } from '../operations/MethodRoutingOps';
+import { JSON_RPC_ERRORS } from '../validation';
+
+export type MethodPolicyCheck =
+  | { allowed: true }
+  | { allowed: false; code: number; message: string };
+
+// Project-wide allow and deny lists, checked before a request is routed. Blocked methods
+// are refused even when they also match allowedMethods
+export function checkMethodPolicy(project: ProjectConfig, method: string): MethodPolicyCheck {
+  if (project.blockedMethods && matchesMethodPattern(method, project.blockedMethods)) {
+    return {
+      allowed: false,
+      code: JSON_RPC_ERRORS.METHOD_NOT_ALLOWED,
+      message: `Method ${method} is blocked on project ${project.id}`
+    };
+  }
+
+  if (project.allowedMethods && !matchesMethodPattern(method, project.allowedMethods)) {
+    return {
+      allowed: false,
+      code: JSON_RPC_ERRORS.METHOD_NOT_FOUND,
+      message: `Method ${method} is not available on project ${project.id}`
+    };
+  }
+
+  return { allowed: true };
+}
+
+// Name the upstream knows a method by: its own aliases first, then the project's
+export function resolveMethodAlias(project: ProjectConfig, upstream: UpstreamConfig, method: string): string {
+  return upstream.methodAliases?.[method] ?? project.methodAliases?.[method] ?? method;
+}
+
+// The request as sent to the upstream, with every aliased method renamed
+export function applyMethodAliases(
+  project: ProjectConfig,
+  upstream: UpstreamConfig,
+  requestBody: JsonRpcRequest | JsonRpcRequest[]
+): JsonRpcRequest | JsonRpcRequest[] {
+  if (!project.methodAliases && !upstream.methodAliases) return requestBody;
+
+  const rename = (request: JsonRpcRequest): JsonRpcRequest => {
+    const method = resolveMethodAlias(project, upstream, request.method);
+    return method === request.method ? request : { ...request, method };
+  };
+  return Array.isArray(requestBody) ? requestBody.map(rename) : rename(requestBody);
+}
\ No newline at end of file
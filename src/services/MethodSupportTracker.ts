@@ -0,0 +1,96 @@
+import { MethodSupportConfig } from '../types';
+
+// Clients can send any method name, so each upstream keeps only this many learned methods
+const MAX_METHODS_PER_UPSTREAM = 1000;
+
+export const DEFAULT_METHOD_SUPPORT_CONFIG: MethodSupportConfig = {
+  enabled: true,
+  ttlMs: 3600000
+};
+
+// Methods each upstream answered as unsupported (-32601 or a "method not supported" message).
+// Entries expire after ttlMs so upstreams that add a method are tried again
+export class MethodSupportTracker {
+  private config: MethodSupportConfig;
+  private learned = new Map<string, Map<string, number>>();
+
+  constructor(config: Partial<MethodSupportConfig> = {}, private now: () => number = Date.now) {
+    this.config = { ...DEFAULT_METHOD_SUPPORT_CONFIG, ...config };
+  }
+
+  // Keep the methods learned before a config reload
+  adoptState(previous: MethodSupportTracker): void {
+    previous.learned.forEach((methods, upstreamId) => {
+      this.learned.set(upstreamId, new Map(methods));
+    });
+  }
+
+  recordUnsupported(upstreamId: string, method: string): void {
+    if (!this.config.enabled) return;
+
+    let methods = this.learned.get(upstreamId);
+    if (!methods) {
+      methods = new Map();
+      this.learned.set(upstreamId, methods);
+    }
+    if (!methods.has(method)) {
+      console.warn(`Upstream ${upstreamId} does not support ${method}, skipping it for ${this.config.ttlMs}ms`);
+      if (methods.size >= MAX_METHODS_PER_UPSTREAM) {
+        this.removeExpired(methods);
+      }
+      if (methods.size >= MAX_METHODS_PER_UPSTREAM) {
+        // Entries are kept in the order they were learned, so the first one is the oldest
+        methods.delete(methods.keys().next().value as string);
+      }
+    }
+    methods.delete(method);
+    methods.set(method, this.now());
+  }
+
+  // Unexpired unsupported methods per upstream id
+  getUnsupported(): Map<string, Set<string>> {
+    const unsupported = new Map<string, Set<string>>();
+    if (!this.config.enabled) return unsupported;
+
+    this.learned.forEach((methods, upstreamId) => {
+      this.removeExpired(methods);
+      if (methods.size > 0) {
+        unsupported.set(upstreamId, new Set(methods.keys()));
+      }
+    });
+    return unsupported;
+  }
+
+  // Forget learned methods for one upstream, or for all of them; returns how many were removed
+  clear(upstreamId?: string): number {
+    let cleared = 0;
+    this.learned.forEach((methods, id) => {
+      if (upstreamId === undefined || id === upstreamId) {
+        this.removeExpired(methods);
+        cleared += methods.size;
+        this.learned.delete(id);
+      }
+    });
+    return cleared;
+  }
+
+  // Learned methods of an upstream with the time each one expires
+  getStatus(upstreamId: string): Record<string, string> {
+    const methods = this.learned.get(upstreamId);
+    const status: Record<string, string> = {};
+    if (!methods) return status;
+
+    this.removeExpired(methods);
+    methods.forEach((learnedAt, method) => {
+      status[method] = new Date(learnedAt + this.config.ttlMs).toISOString();
+    });
+    return status;
+  }
+
+  private removeExpired(methods: Map<string, number>): void {
+    const cutoff = this.now() - this.config.ttlMs;
+    methods.forEach((learnedAt, method) => {
+      if (learnedAt <= cutoff) methods.delete(method);
+    });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,192 @@
+export type MetricLabels = Record<string, string>;
+
+export interface GaugeSample {
+  name: string;
+  labels: MetricLabels;
+  value: number;
+}
+
+interface MetricDefinition {
+  type: 'counter' | 'histogram' | 'gauge';
+  help: string;
+}
+
+interface HistogramSeries {
+  labels: MetricLabels;
+  bucketCounts: number[];
+  sum: number;
+  count: number;
+}
+
+// Latency buckets in seconds, from cache-fast local calls up to slow archive queries
+export const LATENCY_BUCKETS_SECONDS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+// Methods reported under their own name in the method label; anything else a client sends is
+// reported as 'other' so arbitrary method names cannot create unbounded series
+const KNOWN_METHODS = new Set([
+  'batch',
+  'eth_accounts', 'eth_blobBaseFee', 'eth_blockNumber', 'eth_call', 'eth_chainId', 'eth_coinbase',
+  'eth_createAccessList', 'eth_estimateGas', 'eth_feeHistory', 'eth_gasPrice', 'eth_getBalance',
+  'eth_getBlockByHash', 'eth_getBlockByNumber', 'eth_getBlockReceipts', 'eth_getBlockTransactionCountByHash',
+  'eth_getBlockTransactionCountByNumber', 'eth_getCode', 'eth_getFilterChanges', 'eth_getFilterLogs',
+  'eth_getLogs', 'eth_getProof', 'eth_getStorageAt', 'eth_getTransactionByBlockHashAndIndex',
+  'eth_getTransactionByBlockNumberAndIndex', 'eth_getTransactionByHash', 'eth_getTransactionCount',
+  'eth_getTransactionReceipt', 'eth_getUncleByBlockHashAndIndex', 'eth_getUncleByBlockNumberAndIndex',
+  'eth_getUncleCountByBlockHash', 'eth_getUncleCountByBlockNumber', 'eth_maxPriorityFeePerGas',
+  'eth_newBlockFilter', 'eth_newFilter', 'eth_newPendingTransactionFilter', 'eth_protocolVersion',
+  'eth_sendRawTransaction', 'eth_subscribe', 'eth_syncing', 'eth_uninstallFilter', 'eth_unsubscribe',
+  'net_listening', 'net_peerCount', 'net_version', 'web3_clientVersion', 'web3_sha3',
+  'debug_traceBlockByHash', 'debug_traceBlockByNumber', 'debug_traceCall', 'debug_traceTransaction',
+  'trace_block', 'trace_blockByNumber', 'trace_call', 'trace_filter', 'trace_replayBlockTransactions',
+  'trace_replayTransaction', 'trace_transaction'
+]);
+
+export function getMethodLabel(method: string): string {
+  return KNOWN_METHODS.has(method) ? method : 'other';
+}
+
+export const METRIC_DEFINITIONS: Record<string, MetricDefinition> = {
+  erpc_upstream_requests_total: { type: 'counter', help: 'Requests sent to upstreams' },
+  erpc_upstream_errors_total: { type: 'counter', help: 'Failed upstream requests' },
+  erpc_upstream_request_duration_seconds: { type: 'histogram', help: 'Upstream request latency in seconds' },
+  erpc_upstream_healthy: { type: 'gauge', help: 'Whether the upstream is currently healthy (1) or not (0)' },
+  erpc_upstream_circuit_transitions_total: { type: 'counter', help: 'Upstream circuit breaker state changes' },
+  erpc_upstream_failover_cooldown_seconds: { type: 'gauge', help: 'Seconds left before an unhealthy upstream may recover' },
+  erpc_upstream_throttled: { type: 'gauge', help: 'Whether the upstream is throttled after a 429 (1) or not (0)' },
+  erpc_upstream_credits_used: { type: 'gauge', help: 'Credits spent on the upstream in the current budget period' },
+  erpc_upstream_latest_block: { type: 'gauge', help: 'Latest block height reported by the upstream' },
+  erpc_upstream_earliest_block: { type: 'gauge', help: 'Earliest block height the upstream still serves' },
+  erpc_upstream_head_lag_blocks: { type: 'gauge', help: 'Blocks the upstream trails the consensus head by' },
+  erpc_local_node_latest_block: { type: 'gauge', help: 'Latest block height reported by the local node' },
+  erpc_local_node_earliest_block: { type: 'gauge', help: 'Earliest block height reported by the local node' },
+  erpc_local_node_catching_up: { type: 'gauge', help: 'Whether the local node is catching up (1) or not (0)' },
+  erpc_local_node_status_unknown: { type: 'gauge', help: 'Whether the local node status could not be determined (1) or not (0)' },
+  erpc_api_key_requests_total: { type: 'counter', help: 'Requests per API key by authorization outcome' },
+  erpc_rate_limited_total: { type: 'counter', help: 'Requests rejected by rate limits or daily quotas' },
+  erpc_archive_fallbacks_total: { type: 'counter', help: 'Requests re-routed to an archive after a pruned-state error from a full node' },
+  erpc_cache_lookups_total: { type: 'counter', help: 'Response cache lookups by result (hit or miss)' },
+  erpc_coalesced_requests_total: { type: 'counter', help: 'Requests answered from an identical in-flight request' }
+};
+
+// Process-wide Prometheus counters and histograms, rendered in text exposition format
+export class MetricsRegistry {
+  private static instance: MetricsRegistry;
+  private counters = new Map<string, Map<string, { labels: MetricLabels; value: number }>>();
+  private histograms = new Map<string, Map<string, HistogramSeries>>();
+
+  static getInstance(): MetricsRegistry {
+    if (!MetricsRegistry.instance) {
+      MetricsRegistry.instance = new MetricsRegistry();
+    }
+    return MetricsRegistry.instance;
+  }
+
+  incrementCounter(name: string, labels: MetricLabels, value = 1): void {
+    labels = this.boundLabels(labels);
+    const series = this.getSeries(this.counters, name);
+    const key = this.labelKey(labels);
+    const existing = series.get(key);
+    if (existing) {
+      existing.value += value;
+    } else {
+      series.set(key, { labels, value });
+    }
+  }
+
+  observeHistogram(name: string, labels: MetricLabels, value: number): void {
+    labels = this.boundLabels(labels);
+    const series = this.getSeries(this.histograms, name);
+    const key = this.labelKey(labels);
+    let histogram = series.get(key);
+    if (!histogram) {
+      histogram = { labels, bucketCounts: LATENCY_BUCKETS_SECONDS.map(() => 0), sum: 0, count: 0 };
+      series.set(key, histogram);
+    }
+
+    LATENCY_BUCKETS_SECONDS.forEach((bound, index) => {
+      if (value <= bound) histogram!.bucketCounts[index]++;
+    });
+    histogram.sum += value;
+    histogram.count++;
+  }
+
+  // Record the outcome of one upstream call: 'success' or the failure's error class
+  recordUpstreamRequest(project: string, upstream: string, method: string, outcome: string, responseTimeMs: number): void {
+    const labels = { project, upstream, method, outcome };
+    this.incrementCounter('erpc_upstream_requests_total', labels);
+    if (outcome !== 'success') {
+      this.incrementCounter('erpc_upstream_errors_total', labels);
+    }
+    this.observeHistogram('erpc_upstream_request_duration_seconds', labels, responseTimeMs / 1000);
+  }
+
+  // Render all metrics, optionally limited to one project; gauges are sampled by the caller at scrape time
+  render(gauges: GaugeSample[], project?: string): string {
+    const lines: string[] = [];
+    const includes = (labels: MetricLabels) => !project || labels.project === project;
+
+    Object.entries(METRIC_DEFINITIONS).forEach(([name, definition]) => {
+      const samples: string[] = [];
+
+      if (definition.type === 'counter') {
+        this.counters.get(name)?.forEach(({ labels, value }) => {
+          if (includes(labels)) samples.push(`${name}${this.formatLabels(labels)} ${value}`);
+        });
+      } else if (definition.type === 'histogram') {
+        this.histograms.get(name)?.forEach(histogram => {
+          if (!includes(histogram.labels)) return;
+          LATENCY_BUCKETS_SECONDS.forEach((bound, index) => {
+            const labels = { ...histogram.labels, le: String(bound) };
+            samples.push(`${name}_bucket${this.formatLabels(labels)} ${histogram.bucketCounts[index]}`);
+          });
+          samples.push(`${name}_bucket${this.formatLabels({ ...histogram.labels, le: '+Inf' })} ${histogram.count}`);
+          samples.push(`${name}_sum${this.formatLabels(histogram.labels)} ${histogram.sum}`);
+          samples.push(`${name}_count${this.formatLabels(histogram.labels)} ${histogram.count}`);
+        });
+      } else {
+        gauges.forEach(gauge => {
+          if (gauge.name === name && includes(gauge.labels)) {
+            samples.push(`${name}${this.formatLabels(gauge.labels)} ${gauge.value}`);
+          }
+        });
+      }
+
+      if (samples.length === 0) return;
+      lines.push(`# HELP ${name} ${definition.help}`);
+      lines.push(`# TYPE ${name} ${definition.type}`);
+      lines.push(...samples);
+    });
+
+    return lines.join('\n') + '\n';
+  }
+
+  reset(): void {
+    this.counters.clear();
+    this.histograms.clear();
+  }
+
+  private getSeries<T>(store: Map<string, Map<string, T>>, name: string): Map<string, T> {
+    let series = store.get(name);
+    if (!series) {
+      series = new Map();
+      store.set(name, series);
+    }
+    return series;
+  }
+
+  private boundLabels(labels: MetricLabels): MetricLabels {
+    return labels.method === undefined ? labels : { ...labels, method: getMethodLabel(labels.method) };
+  }
+
+  private labelKey(labels: MetricLabels): string {
+    return JSON.stringify(Object.keys(labels).sort().map(key => [key, labels[key]]));
+  }
+
+  private formatLabels(labels: MetricLabels): string {
+    const pairs = Object.entries(labels).map(([key, value]) => {
+      const escaped = value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+      return `${key}="${escaped}"`;
+    });
+    return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+  }
+}
\ No newline at end of file
@@ -1,6 +1,7 @@
-import fetch from 'node-fetch';
 import { LocalNodeStatus, ProjectConfig, AppConfig } from '../types';
 import { UpstreamService } from './UpstreamService';
+import { redactSecrets } from '../redaction';
+import { probeUpstreamStatus, resolveStatusProbeConfig } from './StatusProbes';
 
 export class NodeStatusService {
   private localNodeStatus: LocalNodeStatus | null = null;
@@ -14,96 +15,70 @@ export class NodeStatusService {
     this.upstreamService = upstreamService;
   }
 
-  async getStatus(): Promise<LocalNodeStatus | null> {
+  async getStatus(): Promise<LocalNodeStatus> {
     const now = Date.now();
-    if (now - this.lastStatusCheck < this.config.statusCheckInterval) {
+    if (this.localNodeStatus && now - this.lastStatusCheck < this.config.statusCheckInterval) {
       return this.localNodeStatus;
     }
-
-    try {
-      // Find the first upstream with a statusUrl (usually local node)
-      const localUpstream = this.config.upstreams.find(u => u.statusUrl);
-      const statusUrl = localUpstream?.statusUrl;
-
-      if (!statusUrl) {
-        // No status URL configured - assume node is healthy and synced
-        // Block availability is determined by per-upstream evmStartBlock config
-        this.localNodeStatus = {
-          earliestBlockHeight: 0, // Not used - evmStartBlock determines availability
-          latestBlockHeight: 999999999, // Assume node is synced
-          catchingUp: false,
-          lastUpdated: now
-        };
-        this.lastStatusCheck = now;
-        console.log(`No status URL configured - assuming node is healthy and synced`);
-        return this.localNodeStatus;
+    this.lastStatusCheck = now;
+
+    // The local node is the first upstream with a statusUrl or an explicit status probe
+    const localUpstream = this.config.upstreams.find(u => u.statusUrl || u.statusProbe);
+    if (!localUpstream) {
+      // Nothing to ask - report the status as unknown rather than pretending the node is synced
+      if (this.localNodeStatus?.state !== 'unknown') {
+        console.log(`No status probe configured - local node status is unknown`);
       }
+      this.localNodeStatus = this.unknownStatus(now, 'No status probe configured');
+      return this.localNodeStatus;
+    }
 
-      const timeoutMs = Math.min(this.config.health.nodeStatusTimeoutMs, this.appConfig.timeouts.maxErrorTimeoutMs);
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
-
-      try {
-        const response = await fetch(statusUrl, {
-          signal: controller.signal,
-          timeout: timeoutMs
-        } as any);
-
-        clearTimeout(timeoutId);
-
-        if (!response.ok) {
-          throw new Error(`Status check failed: ${response.status}`);
-        }
-
-        const data = await response.json() as any;
-        this.localNodeStatus = {
-          earliestBlockHeight: parseInt(data.sync_info.earliest_block_height),
-          latestBlockHeight: parseInt(data.sync_info.latest_block_height),
-          catchingUp: data.sync_info.catching_up,
-          lastUpdated: now
-        };
-
-        this.lastStatusCheck = now;
-        console.log(`Local node status: earliest=${this.localNodeStatus.earliestBlockHeight}, latest=${this.localNodeStatus.latestBlockHeight}, catching_up=${this.localNodeStatus.catchingUp}`);
+    const probe = resolveStatusProbeConfig(localUpstream).type;
+    const timeoutMs = Math.min(this.config.health.nodeStatusTimeoutMs, this.appConfig.timeouts.maxErrorTimeoutMs);
 
-        // Mark the local upstream as healthy since status check succeeded
-        if (this.upstreamService && localUpstream) {
-          this.upstreamService.recordRequestResult(localUpstream.id, true);
-        }
+    try {
+      const status = await probeUpstreamStatus(localUpstream, timeoutMs);
+      this.localNodeStatus = {
+        state: status.catchingUp ? 'catching_up' : 'synced',
+        earliestBlockHeight: status.earliestBlock,
+        latestBlockHeight: status.latestBlock,
+        catchingUp: status.catchingUp,
+        lastUpdated: now,
+        upstreamId: localUpstream.id,
+        probe
+      };
+      console.log(`Local node status (${probe}): earliest=${status.earliestBlock ?? 'unknown'}, latest=${status.latestBlock}, catching_up=${status.catchingUp}`);
 
-        return this.localNodeStatus;
-      } catch (fetchError) {
-        clearTimeout(timeoutId);
+      // Mark the local upstream as healthy since status check succeeded
+      this.upstreamService?.recordRequestResult(localUpstream.id, true);
+    } catch (error) {
+      const message = redactSecrets((error as Error).message);
 
-        // Mark the local upstream as unhealthy on timeout/error
-        if (this.upstreamService && localUpstream) {
-          this.upstreamService.recordRequestResult(localUpstream.id, false);
+      // Mark the local upstream as unhealthy on timeout/error
+      if (this.upstreamService) {
+        this.upstreamService.recordRequestResult(localUpstream.id, false);
 
-          // Special handling for timeout/abort errors
-          if (fetchError instanceof Error &&
-              (fetchError.name === 'AbortError' ||
-               fetchError.message.includes('timeout') ||
-               fetchError.message.includes('ECONNREFUSED'))) {
-            console.warn(`Local node status check timeout/connection failed for ${localUpstream.id} after ${timeoutMs}ms - marked as unhealthy`);
-          }
+        // Special handling for timeout/abort errors
+        if ((error as Error).name === 'AbortError' || message.includes('timeout') || message.includes('ECONNREFUSED')) {
+          console.warn(`Local node status check timeout/connection failed for ${localUpstream.id} after ${timeoutMs}ms - marked as unhealthy`);
         }
-
-        throw fetchError;
       }
-    } catch (error) {
-      console.error('Failed to check local node status:', (error as Error).message);
 
-      // Fallback when status fetch fails - assume node is healthy and synced
-      // Block availability is determined by per-upstream evmStartBlock config
-      this.localNodeStatus = {
-        earliestBlockHeight: 0, // Not used - evmStartBlock determines availability
-        latestBlockHeight: 999999999, // Assume node is synced
-        catchingUp: false,
-        lastUpdated: now
-      };
-      this.lastStatusCheck = now;
-      console.log(`Node status fetch failed - assuming node is healthy and synced`);
-      return this.localNodeStatus;
+      console.error(`Failed to check local node status (${probe}):`, message);
+      this.localNodeStatus = { ...this.unknownStatus(now, message), upstreamId: localUpstream.id, probe };
     }
+
+    return this.localNodeStatus;
+  }
+
+  private unknownStatus(now: number, error: string): LocalNodeStatus {
+    return {
+      state: 'unknown',
+      earliestBlockHeight: null,
+      latestBlockHeight: null,
+      catchingUp: false,
+      lastUpdated: now,
+      error
+    };
   }
 }
\ No newline at end of file
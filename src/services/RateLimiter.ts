@@ -0,0 +1,127 @@
+import { RateLimitConfig, RateLimitRule } from '../types';
+import { matchesMethodPattern } from '../operations/MethodRoutingOps';
+
+// Idle buckets and past days' quota counters are dropped once this many are tracked
+const MAX_TRACKED_BUCKETS = 10000;
+
+export type RateLimitDecision =
+  | { allowed: true }
+  | { allowed: false; reason: 'rate_limit' | 'daily_quota'; group: string; limit: number; retryAfterMs: number };
+
+interface TokenBucket {
+  tokens: number;
+  lastRefill: number;
+  fullAt: number; // When the bucket will be back at capacity if left alone
+}
+
+interface QuotaCounter {
+  day: string; // UTC date the counter belongs to
+  used: number;
+}
+
+// Token buckets and daily quota counters keyed by client and method group
+export class RateLimiter {
+  private buckets = new Map<string, TokenBucket>();
+  private quotas = new Map<string, QuotaCounter>();
+
+  constructor(private config: RateLimitConfig | undefined, private now: () => number = Date.now) {}
+
+  isEnabled(): boolean {
+    return this.config?.enabled === true;
+  }
+
+  // Take one token for the method; `rules` replaces the global rules for clients with their own limits
+  consume(clientId: string, method: string, rules?: RateLimitRule[]): RateLimitDecision {
+    if (!this.isEnabled()) return { allowed: true };
+
+    const rule = (rules || this.config!.rules).find(r => matchesMethodPattern(method, r.methods));
+    if (!rule) return { allowed: true };
+
+    const key = `${clientId}|${rule.group}`;
+    const now = this.now();
+
+    // Quota is checked first so a spent quota does not also drain the bucket
+    if (rule.dailyQuota !== undefined && this.getQuotaUsed(key, now) >= rule.dailyQuota) {
+      return { allowed: false, reason: 'daily_quota', group: rule.group, limit: rule.dailyQuota, retryAfterMs: this.msUntilNextDay(now) };
+    }
+
+    const capacity = rule.burst ?? rule.requestsPerSecond;
+    const bucket = this.refill(key, capacity, rule.requestsPerSecond, now);
+    if (bucket.tokens < 1) {
+      const retryAfterMs = Math.ceil(((1 - bucket.tokens) / rule.requestsPerSecond) * 1000);
+      return { allowed: false, reason: 'rate_limit', group: rule.group, limit: rule.requestsPerSecond, retryAfterMs };
+    }
+
+    bucket.tokens -= 1;
+    bucket.fullAt = now + ((capacity - bucket.tokens) / rule.requestsPerSecond) * 1000;
+    // Only rules with a daily quota keep a counter
+    if (rule.dailyQuota !== undefined) {
+      this.recordQuotaUse(key, now);
+    }
+    return { allowed: true };
+  }
+
+  private refill(key: string, capacity: number, ratePerSecond: number, now: number): TokenBucket {
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      if (this.buckets.size >= MAX_TRACKED_BUCKETS) {
+        this.pruneIdleBuckets(now);
+      }
+      bucket = { tokens: capacity, lastRefill: now, fullAt: now };
+      this.buckets.set(key, bucket);
+      return bucket;
+    }
+
+    const elapsedSeconds = (now - bucket.lastRefill) / 1000;
+    bucket.tokens = Math.min(capacity, bucket.tokens + elapsedSeconds * ratePerSecond);
+    bucket.lastRefill = now;
+    return bucket;
+  }
+
+  private getQuotaUsed(key: string, now: number): number {
+    const quota = this.quotas.get(key);
+    return quota && quota.day === this.getDay(now) ? quota.used : 0;
+  }
+
+  private recordQuotaUse(key: string, now: number): void {
+    const day = this.getDay(now);
+    const quota = this.quotas.get(key);
+    if (quota && quota.day === day) {
+      quota.used++;
+      return;
+    }
+
+    if (!quota && this.quotas.size >= MAX_TRACKED_BUCKETS) {
+      this.pruneStaleQuotas(day);
+    }
+    this.quotas.set(key, { day, used: 1 });
+  }
+
+  private getDay(now: number): string {
+    return new Date(now).toISOString().slice(0, 10);
+  }
+
+  private msUntilNextDay(now: number): number {
+    const nextDay = new Date(now);
+    nextDay.setUTCHours(24, 0, 0, 0);
+    return nextDay.getTime() - now;
+  }
+
+  // Full buckets behave exactly like new ones, so they can be dropped
+  private pruneIdleBuckets(now: number): void {
+    this.buckets.forEach((bucket, key) => {
+      if (bucket.fullAt <= now) {
+        this.buckets.delete(key);
+      }
+    });
+  }
+
+  // Counters from earlier days count as zero, so they can be dropped
+  private pruneStaleQuotas(today: string): void {
+    this.quotas.forEach((quota, key) => {
+      if (quota.day !== today) {
+        this.quotas.delete(key);
+      }
+    });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,103 @@
+import { CoalescingConfig, JsonRpcRequest } from '../types';
+import { matchesMethodPattern } from '../operations/MethodRoutingOps';
+import { MetricsRegistry } from './MetricsRegistry';
+
+export const DEFAULT_COALESCING_CONFIG: CoalescingConfig = {
+  enabled: true,
+  // Stateful or side-effecting methods must reach the upstream once per caller
+  excludedMethods: [
+    'eth_sendRawTransaction',
+    'eth_sendTransaction',
+    'eth_newFilter',
+    'eth_newBlockFilter',
+    'eth_newPendingTransactionFilter',
+    'eth_getFilterChanges',
+    'eth_uninstallFilter',
+    'eth_subscribe',
+    'eth_unsubscribe',
+    'personal_*'
+  ]
+};
+
+// Any result carrying a JSON-RPC response that can be handed to several callers
+export interface CoalescableResult {
+  data?: any;
+  coalesced?: boolean;
+}
+
+export class RequestCoalescer {
+  private config: CoalescingConfig;
+  private inFlight = new Map<string, Promise<CoalescableResult>>();
+  private coalescedByMethod = new Map<string, number>();
+
+  constructor(config?: Partial<CoalescingConfig>) {
+    this.config = { ...DEFAULT_COALESCING_CONFIG, ...config };
+  }
+
+  shouldCoalesce(method: string): boolean {
+    return this.config.enabled && !matchesMethodPattern(method, this.config.excludedMethods);
+  }
+
+  // Share one execution of `task` between identical concurrent requests of the same project
+  async run<T extends CoalescableResult>(projectId: string, request: JsonRpcRequest, task: () => Promise<T>): Promise<T> {
+    const key = `${projectId}:${request.method}:${this.normalizeParams(request.params)}`;
+    const pending = this.inFlight.get(key) as Promise<T> | undefined;
+
+    if (pending) {
+      this.coalescedByMethod.set(request.method, (this.coalescedByMethod.get(request.method) || 0) + 1);
+      MetricsRegistry.getInstance().incrementCounter('erpc_coalesced_requests_total', {
+        project: projectId,
+        method: request.method
+      });
+      const shared = await pending;
+      return {
+        ...shared,
+        data: shared.data ? { ...shared.data, id: request.id } : shared.data,
+        coalesced: true
+      };
+    }
+
+    const execution = task();
+    this.inFlight.set(key, execution);
+    try {
+      return await execution;
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  getStats() {
+    const methods: Record<string, number> = {};
+    let total = 0;
+    this.coalescedByMethod.forEach((count, method) => {
+      methods[method] = count;
+      total += count;
+    });
+
+    return {
+      enabled: this.config.enabled,
+      inFlight: this.inFlight.size,
+      coalescedRequests: total,
+      methods
+    };
+  }
+
+  // Stable representation: sorted object keys and lowercase hex strings
+  private normalizeParams(params: any): string {
+    const normalize = (value: any): any => {
+      if (Array.isArray(value)) return value.map(normalize);
+      if (value && typeof value === 'object') {
+        return Object.keys(value).sort().reduce((normalized: Record<string, any>, key) => {
+          normalized[key] = normalize(value[key]);
+          return normalized;
+        }, {});
+      }
+      if (typeof value === 'string' && /^0x[0-9a-fA-F]*$/.test(value)) {
+        return value.toLowerCase();
+      }
+      return value;
+    };
+
+    return JSON.stringify(normalize(params ?? []));
+  }
+}
\ No newline at end of file
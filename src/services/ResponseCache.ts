@@ -0,0 +1,233 @@
+import { CacheConfig, JsonRpcRequest } from '../types';
+import { BlockNumberExtractor, getBlockParam, parseBlockNumber } from './BlockNumberExtractor';
+import { NodeStatusService } from './NodeStatusService';
+import { MetricsRegistry } from './MetricsRegistry';
+
+export const DEFAULT_CACHE_CONFIG: CacheConfig = {
+  enabled: false,
+  maxEntries: 10000,
+  maxSizeBytes: 64 * 1024 * 1024,
+  finalityDepth: 64,
+  methodTtlMs: {
+    eth_chainId: 0,
+    net_version: 0
+  }
+};
+
+// Methods addressed by hash: their results are immutable once the containing block is final
+const BY_HASH_METHODS = [
+  'eth_getBlockByHash',
+  'eth_getTransactionByHash',
+  'eth_getTransactionReceipt',
+  'eth_getTransactionByBlockHashAndIndex',
+  'eth_getBlockTransactionCountByHash'
+];
+
+interface CacheEntry {
+  value: any;
+  expiresAt: number; // 0 = never expires
+  size: number;
+}
+
+// In-memory LRU keyed by string, bounded by entry count and approximate byte size
+export class MemoryLruCache {
+  private entries = new Map<string, CacheEntry>();
+  private totalSize = 0;
+
+  constructor(private maxEntries: number, private maxSizeBytes: number) {}
+
+  get(key: string): any | null {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (entry.expiresAt !== 0 && entry.expiresAt <= Date.now()) {
+      this.delete(key);
+      return null;
+    }
+
+    // Re-insert to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: any, ttlMs: number): void {
+    const size = JSON.stringify(value).length;
+    if (size > this.maxSizeBytes) return;
+
+    this.delete(key);
+    this.entries.set(key, {
+      value,
+      expiresAt: ttlMs === 0 ? 0 : Date.now() + ttlMs,
+      size
+    });
+    this.totalSize += size;
+
+    // Evict least recently used entries until within limits
+    while (this.entries.size > this.maxEntries || this.totalSize > this.maxSizeBytes) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.delete(oldestKey);
+    }
+  }
+
+  delete(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    this.totalSize -= entry.size;
+    this.entries.delete(key);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get sizeBytes(): number {
+    return this.totalSize;
+  }
+}
+
+export class ResponseCache {
+  private config: CacheConfig;
+  private backend: MemoryLruCache;
+  private hits = 0;
+  private misses = 0;
+  private methodStats = new Map<string, { hits: number; misses: number }>();
+
+  constructor(
+    private projectId: string,
+    config: Partial<CacheConfig> | undefined,
+    private blockExtractor: BlockNumberExtractor,
+    private nodeStatusService: NodeStatusService
+  ) {
+    this.config = { ...DEFAULT_CACHE_CONFIG, ...config };
+    this.backend = new MemoryLruCache(this.config.maxEntries, this.config.maxSizeBytes);
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  // Return a cached response re-tagged with the caller's id, or null on miss
+  get(request: JsonRpcRequest): any | null {
+    if (!this.config.enabled || !this.isCandidate(request)) return null;
+
+    const cached = this.backend.get(this.buildKey(request));
+    this.recordLookup(request.method, cached !== null);
+
+    return cached === null ? null : { ...cached, id: request.id };
+  }
+
+  // Store a successful upstream response if the request is cacheable; returns whether it was stored
+  async store(request: JsonRpcRequest, response: any): Promise<boolean> {
+    if (!this.config.enabled || !this.isCandidate(request)) return false;
+    if (!response || response.error || response.result === null || response.result === undefined) return false;
+
+    const ttlMs = await this.resolveTtl(request, response.result);
+    if (ttlMs === null) return false;
+
+    this.backend.set(this.buildKey(request), response, ttlMs);
+    return true;
+  }
+
+  getStats() {
+    const lookups = this.hits + this.misses;
+    const methods: Record<string, { hits: number; misses: number }> = {};
+    this.methodStats.forEach((stats, method) => {
+      methods[method] = { ...stats };
+    });
+
+    return {
+      enabled: this.config.enabled,
+      entries: this.backend.size,
+      sizeBytes: this.backend.sizeBytes,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
+      methods
+    };
+  }
+
+  private buildKey(request: JsonRpcRequest): string {
+    return `${request.method}:${JSON.stringify(request.params ?? [])}`;
+  }
+
+  private recordLookup(method: string, hit: boolean): void {
+    const stats = this.methodStats.get(method) || { hits: 0, misses: 0 };
+    if (hit) {
+      this.hits++;
+      stats.hits++;
+    } else {
+      this.misses++;
+      stats.misses++;
+    }
+    this.methodStats.set(method, stats);
+    MetricsRegistry.getInstance().incrementCounter('erpc_cache_lookups_total', {
+      project: this.projectId,
+      method,
+      result: hit ? 'hit' : 'miss'
+    });
+  }
+
+  // Only requests that could ever produce a cacheable response take part in lookups. By-number
+  // requests need a hex block: tags such as earliest or finalized move with the node
+  private isCandidate(request: JsonRpcRequest): boolean {
+    const blockNumber = this.blockExtractor.extract(request.method, request.params);
+    if (blockNumber === 'latest') return false;
+    if (typeof blockNumber === 'number') {
+      const blockParam = getBlockParam(request.method, request.params);
+      if (blockParam === undefined || parseBlockNumber(blockParam) !== null) return true;
+    }
+
+    return BY_HASH_METHODS.includes(request.method) || this.hasMethodTtl(request.method);
+  }
+
+  // Decide how long a response may live: 0 = forever, null = not cacheable
+  private async resolveTtl(request: JsonRpcRequest, result: any): Promise<number | null> {
+    const methodTtl = this.hasMethodTtl(request.method) ? this.config.methodTtlMs![request.method] : null;
+    const blockNumber = this.resolveBlockNumber(request, result);
+
+    if (blockNumber === null) {
+      // Not tied to a block - only cached when a TTL is configured for the method
+      return methodTtl;
+    }
+
+    if (await this.isFinal(blockNumber)) {
+      return 0;
+    }
+
+    return methodTtl;
+  }
+
+  private resolveBlockNumber(request: JsonRpcRequest, result: any): number | null {
+    if (request.method === 'eth_getLogs') {
+      // A range is only immutable once its upper bound is, and a missing toBlock means latest
+      const filter = request.params?.[0];
+      if (!filter || filter.blockHash) return null;
+      return parseBlockNumber(filter.toBlock);
+    }
+
+    const blockParam = getBlockParam(request.method, request.params);
+    if (blockParam !== undefined) return parseBlockNumber(blockParam);
+
+    const blockNumber = this.blockExtractor.extract(request.method, request.params);
+    if (typeof blockNumber === 'number') return blockNumber;
+
+    if (BY_HASH_METHODS.includes(request.method) && result && typeof result === 'object') {
+      const blockHex = result.blockNumber ?? result.number;
+      return parseBlockNumber(blockHex);
+    }
+
+    return null;
+  }
+
+  private async isFinal(blockNumber: number): Promise<boolean> {
+    const nodeStatus = await this.nodeStatusService.getStatus();
+    // Without a known, synced head finality cannot be proven
+    if (nodeStatus.state !== 'synced' || nodeStatus.latestBlockHeight === null) return false;
+    return blockNumber <= nodeStatus.latestBlockHeight - this.config.finalityDepth;
+  }
+
+  private hasMethodTtl(method: string): boolean {
+    return !!this.config.methodTtlMs && Object.prototype.hasOwnProperty.call(this.config.methodTtlMs, method);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,91 @@
+import { RpcErrorCategory, RpcErrorRule } from '../types';
+
+// Built-in classification table. Codes are matched across all rules before any message,
+// and client errors come first among messages so a revert reason that mentions rate limits
+// or pruning is still the caller's error
+export const DEFAULT_RPC_ERROR_RULES: RpcErrorRule[] = [
+  {
+    category: 'client_error',
+    codes: [-32700, -32600, -32602, 3],
+    messagePatterns: [
+      'execution reverted',
+      'invalid argument',
+      'invalid params',
+      'insufficient funds',
+      'nonce too low',
+      'gas required exceeds'
+    ]
+  },
+  {
+    category: 'rate_limited',
+    codes: [-32005, 429],
+    messagePatterns: ['rate limit', 'too many requests', 'request limit', 'exceeded the quota'],
+    // -32005 is also used for result-size limits, which the request has to narrow
+    exceptPatterns: ['returned more than', 'too many results', 'response size']
+  },
+  {
+    category: 'unsupported_method',
+    codes: [-32601],
+    messagePatterns: [
+      'method not found',
+      'method not supported',
+      'unsupported method',
+      'does not exist/is not available',
+      'method not available'
+    ]
+  },
+  {
+    category: 'pruned_state',
+    messagePatterns: [
+      'missing trie node',
+      'header not found',
+      'state not available',
+      'historical state',
+      'pruned',
+      'state histories'
+    ]
+  },
+  {
+    category: 'node_unsynced',
+    messagePatterns: ['syncing', 'not synced', 'node is behind', 'block not yet available']
+  },
+  {
+    category: 'internal',
+    codes: [-32603],
+    messagePatterns: ['internal error']
+  }
+];
+
+function containsAny(message: string, patterns: string[]): boolean {
+  return patterns.some(pattern => message.includes(pattern.toLowerCase()));
+}
+
+function isExcepted(rule: RpcErrorRule, message: string): boolean {
+  return !!rule.exceptPatterns && containsAny(message, rule.exceptPatterns);
+}
+
+export class RpcErrorClassifier {
+  constructor(private customRules: RpcErrorRule[] = []) {}
+
+  // Project rules are checked first, each by code or message; then the built-in table
+  classify(error: { code?: number; message?: string }): RpcErrorCategory {
+    const message = (error.message || '').toLowerCase();
+    const matchesCode = (rule: RpcErrorRule) =>
+      !!rule.codes && error.code !== undefined && rule.codes.includes(error.code) && !isExcepted(rule, message);
+    const matchesMessage = (rule: RpcErrorRule) =>
+      !!rule.messagePatterns && containsAny(message, rule.messagePatterns) && !isExcepted(rule, message);
+
+    const rule =
+      this.customRules.find(r => matchesCode(r) || matchesMessage(r)) ??
+      DEFAULT_RPC_ERROR_RULES.find(matchesCode) ??
+      DEFAULT_RPC_ERROR_RULES.find(matchesMessage);
+
+    // Unrecognised errors are treated as caused by the request, not the upstream
+    return rule?.category ?? 'client_error';
+  }
+
+  // Client errors are forwarded as-is and never penalize the upstream
+  isUpstreamFailure(category: RpcErrorCategory): boolean {
+    return category !== 'client_error';
+  }
+}
\ No newline at end of file
@@ -0,0 +1,165 @@
+import fetch from 'node-fetch';
+import {
+  JsonPathStatusProbeConfig,
+  StatusProbeConfig,
+  StatusProbeType,
+  TendermintStatusProbeConfig,
+  UpstreamConfig
+} from '../types';
+
+export interface StatusProbeResult {
+  earliestBlock: number | null; // Null when the probe cannot tell
+  latestBlock: number;
+  catchingUp: boolean;
+}
+
+export interface StatusProbe {
+  readonly type: StatusProbeType;
+  probe(upstream: UpstreamConfig, timeoutMs: number): Promise<StatusProbeResult>;
+}
+
+// Thrown for JSON-RPC error payloads, as opposed to transport failures
+export class JsonRpcCallError extends Error {
+  constructor(message: string, public code?: number) {
+    super(message);
+    this.name = 'JsonRpcCallError';
+  }
+}
+
+// Send one JSON-RPC call straight to the upstream, bypassing budgets and health tracking
+export async function callJsonRpc(url: string, method: string, params: any[], timeoutMs: number): Promise<any> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ jsonrpc: '2.0', method, params, id: 1 }),
+    timeout: timeoutMs
+  } as any);
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  const body = await response.json() as any;
+  if (body?.error || body?.result === undefined || body?.result === null) {
+    throw new JsonRpcCallError(body?.error?.message ?? `${method} returned no result`, body?.error?.code);
+  }
+  return body.result;
+}
+
+// Numbers, decimal strings and 0x-prefixed hex strings
+export function parseBlockHeight(value: unknown): number | null {
+  if (typeof value === 'number' && Number.isInteger(value) && value >= 0) return value;
+  if (typeof value === 'string') {
+    if (/^0x[0-9a-f]+$/i.test(value)) return parseInt(value, 16);
+    if (/^\d+$/.test(value)) return parseInt(value, 10);
+  }
+  return null;
+}
+
+// Resolve a dotted path such as result.sync_info.latest_block_height or data[0].height
+export function readJsonPath(data: unknown, path: string): unknown {
+  const segments = path.replace(/^\$\.?/, '').split(/\.|\[(\d+)\]/).filter(segment => segment !== undefined && segment !== '');
+  return segments.reduce<any>((node, segment) => (node === null || node === undefined ? undefined : node[segment]), data);
+}
+
+class TendermintStatusProbe implements StatusProbe {
+  readonly type = 'tendermint';
+
+  constructor(private config: TendermintStatusProbeConfig) {}
+
+  async probe(upstream: UpstreamConfig, timeoutMs: number): Promise<StatusProbeResult> {
+    const url = this.config.url ?? upstream.statusUrl;
+    if (!url) {
+      throw new Error('No Tendermint status URL configured');
+    }
+
+    const response = await fetch(url, { timeout: timeoutMs } as any);
+    if (!response.ok) {
+      throw new Error(`Status check failed: ${response.status}`);
+    }
+
+    const data = await response.json() as any;
+    const latestBlock = parseBlockHeight(data?.sync_info?.latest_block_height);
+    if (latestBlock === null) {
+      throw new Error('Status response has no sync_info.latest_block_height');
+    }
+    return {
+      earliestBlock: parseBlockHeight(data.sync_info.earliest_block_height),
+      latestBlock,
+      catchingUp: data.sync_info.catching_up === true
+    };
+  }
+}
+
+class EvmStatusProbe implements StatusProbe {
+  readonly type = 'evm';
+
+  async probe(upstream: UpstreamConfig, timeoutMs: number): Promise<StatusProbeResult> {
+    const [syncing, blockNumber] = await Promise.all([
+      callJsonRpc(upstream.rpcUrl, 'eth_syncing', [], timeoutMs),
+      callJsonRpc(upstream.rpcUrl, 'eth_blockNumber', [], timeoutMs)
+    ]);
+
+    const latestBlock = parseBlockHeight(blockNumber);
+    if (latestBlock === null) {
+      throw new Error('eth_blockNumber returned an invalid block number');
+    }
+    // eth_syncing is false when synced and a progress object while syncing
+    return { earliestBlock: null, latestBlock, catchingUp: syncing !== false };
+  }
+}
+
+class JsonPathStatusProbe implements StatusProbe {
+  readonly type = 'json_path';
+
+  constructor(private config: JsonPathStatusProbeConfig) {}
+
+  async probe(upstream: UpstreamConfig, timeoutMs: number): Promise<StatusProbeResult> {
+    const url = this.config.url ?? upstream.statusUrl ?? upstream.rpcUrl;
+    const hasBody = this.config.body !== undefined;
+    const response = await fetch(url, {
+      method: this.config.method ?? (hasBody ? 'POST' : 'GET'),
+      ...(hasBody && { headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(this.config.body) }),
+      timeout: timeoutMs
+    } as any);
+    if (!response.ok) {
+      throw new Error(`Status check failed: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const latestBlock = parseBlockHeight(readJsonPath(data, this.config.latestBlockPath));
+    if (latestBlock === null) {
+      throw new Error(`Status response has no block height at ${this.config.latestBlockPath}`);
+    }
+    return {
+      earliestBlock: this.config.earliestBlockPath
+        ? parseBlockHeight(readJsonPath(data, this.config.earliestBlockPath))
+        : null,
+      latestBlock,
+      catchingUp: this.config.catchingUpPath ? readJsonPath(data, this.config.catchingUpPath) === true : false
+    };
+  }
+}
+
+// Probe implementations by config type
+const STATUS_PROBES: { [T in StatusProbeType]: (config: Extract<StatusProbeConfig, { type: T }>) => StatusProbe } = {
+  tendermint: config => new TendermintStatusProbe(config),
+  evm: () => new EvmStatusProbe(),
+  json_path: config => new JsonPathStatusProbe(config)
+};
+
+// The configured probe, else Tendermint for upstreams with a statusUrl and eth_syncing/eth_blockNumber otherwise
+export function resolveStatusProbeConfig(upstream: UpstreamConfig): StatusProbeConfig {
+  return upstream.statusProbe ?? (upstream.statusUrl ? { type: 'tendermint' } : { type: 'evm' });
+}
+
+export function createStatusProbe(config: StatusProbeConfig): StatusProbe {
+  const factory = STATUS_PROBES[config.type] as (config: StatusProbeConfig) => StatusProbe;
+  return factory(config);
+}
+
+export function probeUpstreamStatus(upstream: UpstreamConfig, timeoutMs: number): Promise<StatusProbeResult> {
+  return createStatusProbe(resolveStatusProbeConfig(upstream)).probe(upstream, timeoutMs);
+}
\ No newline at end of file
@@ -0,0 +1,365 @@
+import WebSocket from 'ws';
+import crypto from 'crypto';
+import { ProjectConfig, UpstreamConfig } from '../types';
+import { UpstreamService } from './UpstreamService';
+import { matchesMethodPattern } from '../operations/MethodRoutingOps';
+import { redactSecrets } from '../redaction';
+
+type NotificationHandler = (notification: any) => void;
+
+// Notifications kept per upstream for subscription ids whose eth_subscribe reply is still being handled
+const MAX_EARLY_NOTIFICATIONS = 100;
+
+interface GatewaySubscription {
+  id: string; // Gateway-owned id handed to the client, stable across upstream changes
+  params: any[];
+  upstreamId: string | null;
+  upstreamSubscriptionId: string | null;
+  onNotification: NotificationHandler;
+  retryTimer?: NodeJS.Timeout;
+}
+
+// One WebSocket connection per upstream, multiplexing RPC calls and subscription notifications
+class UpstreamSocket {
+  private socket: WebSocket;
+  private ready: Promise<void>;
+  private nextId = 1;
+  private pending = new Map<number, { resolve: (result: any) => void; reject: (error: Error) => void; timer: NodeJS.Timeout }>();
+
+  constructor(
+    readonly upstream: UpstreamConfig,
+    private timeoutMs: number,
+    private onNotification: (upstreamSubscriptionId: string, result: any) => void,
+    private onClose: () => void
+  ) {
+    this.socket = new WebSocket(upstream.wsUrl!);
+    this.ready = new Promise((resolve, reject) => {
+      this.socket.once('open', () => resolve());
+      this.socket.once('error', reject);
+    });
+
+    this.socket.on('message', data => this.handleMessage(data.toString()));
+    this.socket.on('error', error => console.error(`WebSocket to ${upstream.id} failed:`, redactSecrets(error.message)));
+    this.socket.on('close', () => {
+      this.pending.forEach(({ reject, timer }) => {
+        clearTimeout(timer);
+        reject(new Error(`WebSocket to ${upstream.id} closed`));
+      });
+      this.pending.clear();
+      this.onClose();
+    });
+  }
+
+  // The timeout also covers waiting for the connection, so an upstream that never completes
+  // the handshake cannot hold a call forever
+  call(method: string, params: any[]): Promise<any> {
+    const id = this.nextId++;
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`${method} to ${this.upstream.id} timed out after ${this.timeoutMs}ms`));
+      }, this.timeoutMs);
+      this.pending.set(id, { resolve, reject, timer });
+
+      this.ready.then(
+        () => {
+          // Timed out or closed while connecting
+          if (!this.pending.has(id)) return;
+          this.socket.send(JSON.stringify({ jsonrpc: '2.0', method, params, id }));
+        },
+        error => {
+          if (!this.pending.has(id)) return;
+          clearTimeout(timer);
+          this.pending.delete(id);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  close(): void {
+    this.socket.close();
+  }
+
+  private handleMessage(raw: string): void {
+    let message: any;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      return;
+    }
+
+    if (message.method === 'eth_subscription' && message.params) {
+      this.onNotification(message.params.subscription, message.params.result);
+      return;
+    }
+
+    const pending = this.pending.get(message.id);
+    if (!pending) return;
+
+    clearTimeout(pending.timer);
+    this.pending.delete(message.id);
+    if (message.error) {
+      pending.reject(new Error(message.error.message || 'Unknown error'));
+    } else {
+      pending.resolve(message.result);
+    }
+  }
+}
+
+export class SubscriptionService {
+  private sockets = new Map<string, UpstreamSocket>();
+  private subscriptions = new Map<string, GatewaySubscription>();
+  // upstreamId -> upstream subscription id -> gateway subscription id
+  private upstreamIndex = new Map<string, Map<string, string>>();
+  // upstreamId -> eth_subscribe calls in flight, and notifications that arrived for ids not indexed yet
+  private pendingSubscribes = new Map<string, number>();
+  private earlyNotifications = new Map<string, { upstreamSubscriptionId: string; result: any }[]>();
+
+  constructor(private config: ProjectConfig, private upstreamService: UpstreamService) {
+    // Move subscriptions away from upstreams as soon as they are marked unhealthy
+    this.upstreamService.onUpstreamUnhealthy(upstreamId => {
+      this.failoverSubscriptions(upstreamId);
+    });
+  }
+
+  // Switch to a reloaded project config. Subscriptions on upstreams that were removed or
+  // whose WebSocket endpoint changed move to another upstream; the rest stay attached
+  reconfigure(config: ProjectConfig, upstreamService: UpstreamService): void {
+    const previousUpstreams = this.config.upstreams;
+    this.config = config;
+    this.upstreamService = upstreamService;
+    this.upstreamService.onUpstreamUnhealthy(upstreamId => {
+      this.failoverSubscriptions(upstreamId);
+    });
+
+    previousUpstreams.forEach(previous => {
+      const current = config.upstreams.find(u => u.id === previous.id);
+      if (current && current.wsUrl === previous.wsUrl) return;
+
+      const socket = this.sockets.get(previous.id);
+      this.failoverSubscriptions(previous.id);
+      this.sockets.delete(previous.id);
+      socket?.close();
+    });
+  }
+
+  hasWebSocketUpstreams(): boolean {
+    return this.config.upstreams.some(u => u.wsUrl);
+  }
+
+  async subscribe(params: any[], onNotification: NotificationHandler): Promise<string> {
+    const subscription: GatewaySubscription = {
+      id: `0x${crypto.randomBytes(16).toString('hex')}`,
+      params,
+      upstreamId: null,
+      upstreamSubscriptionId: null,
+      onNotification
+    };
+
+    // Registered before attaching so a failover during the first attach can find it
+    this.subscriptions.set(subscription.id, subscription);
+    try {
+      await this.attach(subscription);
+    } catch (error) {
+      this.subscriptions.delete(subscription.id);
+      throw error;
+    }
+    return subscription.id;
+  }
+
+  async unsubscribe(subscriptionId: string): Promise<boolean> {
+    const subscription = this.subscriptions.get(subscriptionId);
+    if (!subscription) return false;
+
+    this.subscriptions.delete(subscriptionId);
+    if (subscription.retryTimer) {
+      clearTimeout(subscription.retryTimer);
+    }
+    this.detach(subscription);
+    return true;
+  }
+
+  getStats() {
+    const byUpstream: Record<string, number> = {};
+    let detached = 0;
+    this.subscriptions.forEach(subscription => {
+      if (subscription.upstreamId) {
+        byUpstream[subscription.upstreamId] = (byUpstream[subscription.upstreamId] || 0) + 1;
+      } else {
+        detached++;
+      }
+    });
+
+    return {
+      subscriptions: this.subscriptions.size,
+      detached,
+      byUpstream,
+      connectedUpstreams: Array.from(this.sockets.keys())
+    };
+  }
+
+  close(): void {
+    this.subscriptions.forEach(subscription => {
+      if (subscription.retryTimer) clearTimeout(subscription.retryTimer);
+    });
+    this.subscriptions.clear();
+    this.earlyNotifications.clear();
+    this.sockets.forEach(socket => socket.close());
+    this.sockets.clear();
+  }
+
+  // Upstreams able to serve subscriptions: healthy full nodes first, then archives, by priority
+  private getCandidates(excludeUpstreamId?: string): UpstreamConfig[] {
+    const candidates = this.config.upstreams
+      .filter(u => u.wsUrl && u.id !== excludeUpstreamId)
+      .filter(u => !u.ignoredMethods || !matchesMethodPattern('eth_subscribe', u.ignoredMethods))
+      .sort((a, b) => {
+        if (a.type !== b.type) return a.type === 'archive' ? 1 : -1;
+        return a.priority - b.priority;
+      });
+
+    const healthy = candidates.filter(u => this.upstreamService.isUpstreamHealthy(u.id));
+    return healthy.length > 0 ? healthy : candidates;
+  }
+
+  private async attach(subscription: GatewaySubscription, excludeUpstreamId?: string): Promise<void> {
+    const candidates = this.getCandidates(excludeUpstreamId);
+    if (candidates.length === 0) {
+      throw new Error('No upstreams with a WebSocket endpoint available for subscriptions');
+    }
+
+    let lastError: Error | null = null;
+    for (const upstream of candidates) {
+      this.pendingSubscribes.set(upstream.id, (this.pendingSubscribes.get(upstream.id) || 0) + 1);
+      try {
+        const upstreamSubscriptionId = await this.getSocket(upstream).call('eth_subscribe', subscription.params);
+        subscription.upstreamId = upstream.id;
+        subscription.upstreamSubscriptionId = upstreamSubscriptionId;
+
+        if (!this.upstreamIndex.has(upstream.id)) {
+          this.upstreamIndex.set(upstream.id, new Map());
+        }
+        this.upstreamIndex.get(upstream.id)!.set(upstreamSubscriptionId, subscription.id);
+        this.flushEarlyNotifications(upstream.id, upstreamSubscriptionId);
+        return;
+      } catch (error) {
+        lastError = error as Error;
+        console.warn(`Subscription on ${upstream.id} failed: ${redactSecrets(lastError.message)}`);
+      } finally {
+        this.finishPendingSubscribe(upstream.id);
+      }
+    }
+
+    throw lastError || new Error('Subscription failed on all upstreams');
+  }
+
+  private detach(subscription: GatewaySubscription): void {
+    const { upstreamId, upstreamSubscriptionId } = subscription;
+    subscription.upstreamId = null;
+    subscription.upstreamSubscriptionId = null;
+    if (!upstreamId || !upstreamSubscriptionId) return;
+
+    this.upstreamIndex.get(upstreamId)?.delete(upstreamSubscriptionId);
+
+    // Best effort - the upstream may already be gone
+    const socket = this.sockets.get(upstreamId);
+    socket?.call('eth_unsubscribe', [upstreamSubscriptionId]).catch(() => undefined);
+  }
+
+  // Re-subscribe everything attached to a failed upstream on another one
+  private failoverSubscriptions(upstreamId: string): void {
+    this.subscriptions.forEach(subscription => {
+      if (subscription.upstreamId !== upstreamId) return;
+
+      console.warn(`Moving subscription ${subscription.id} away from unhealthy upstream ${upstreamId}`);
+      this.detach(subscription);
+      this.reattach(subscription, upstreamId);
+    });
+  }
+
+  private reattach(subscription: GatewaySubscription, excludeUpstreamId?: string): void {
+    this.attach(subscription, excludeUpstreamId)
+      .then(() => {
+        // Unsubscribed while the call was in flight
+        if (!this.subscriptions.has(subscription.id)) {
+          this.detach(subscription);
+        }
+      })
+      .catch(error => {
+        if (!this.subscriptions.has(subscription.id)) return;
+
+        console.warn(`Re-subscribing ${subscription.id} failed: ${redactSecrets((error as Error).message)}, retrying in ${this.config.health.failoverCooldownMs}ms`);
+        subscription.retryTimer = setTimeout(() => {
+          subscription.retryTimer = undefined;
+          this.reattach(subscription);
+        }, this.config.health.failoverCooldownMs);
+      });
+  }
+
+  private getSocket(upstream: UpstreamConfig): UpstreamSocket {
+    const existing = this.sockets.get(upstream.id);
+    if (existing) return existing;
+
+    const socket: UpstreamSocket = new UpstreamSocket(
+      upstream,
+      this.config.responseTimeout,
+      (upstreamSubscriptionId, result) => this.dispatch(upstream.id, upstreamSubscriptionId, result),
+      () => {
+        // A replaced socket closing must not drop its successor
+        if (this.sockets.get(upstream.id) !== socket) return;
+        this.sockets.delete(upstream.id);
+        this.failoverSubscriptions(upstream.id);
+      }
+    );
+    this.sockets.set(upstream.id, socket);
+    return socket;
+  }
+
+  // Upstreams may notify before the eth_subscribe reply has been handled, so notifications
+  // for unknown ids are held while a subscribe on that upstream is in flight
+  private dispatch(upstreamId: string, upstreamSubscriptionId: string, result: any): void {
+    const subscriptionId = this.upstreamIndex.get(upstreamId)?.get(upstreamSubscriptionId);
+    if (!subscriptionId) {
+      const early = this.earlyNotifications.get(upstreamId) ?? [];
+      if (this.pendingSubscribes.has(upstreamId) && early.length < MAX_EARLY_NOTIFICATIONS) {
+        early.push({ upstreamSubscriptionId, result });
+        this.earlyNotifications.set(upstreamId, early);
+      }
+      return;
+    }
+
+    const subscription = this.subscriptions.get(subscriptionId);
+    if (!subscription) return;
+
+    subscription.onNotification({
+      jsonrpc: '2.0',
+      method: 'eth_subscription',
+      params: {
+        subscription: subscription.id,
+        result
+      }
+    });
+  }
+
+  private flushEarlyNotifications(upstreamId: string, upstreamSubscriptionId: string): void {
+    const early = this.earlyNotifications.get(upstreamId);
+    if (!early) return;
+
+    const matching = early.filter(n => n.upstreamSubscriptionId === upstreamSubscriptionId);
+    this.earlyNotifications.set(upstreamId, early.filter(n => n.upstreamSubscriptionId !== upstreamSubscriptionId));
+    matching.forEach(n => this.dispatch(upstreamId, upstreamSubscriptionId, n.result));
+  }
+
+  private finishPendingSubscribe(upstreamId: string): void {
+    const remaining = (this.pendingSubscribes.get(upstreamId) || 1) - 1;
+    if (remaining > 0) {
+      this.pendingSubscribes.set(upstreamId, remaining);
+      return;
+    }
+    // Whatever is still held belongs to no subscription of ours
+    this.pendingSubscribes.delete(upstreamId);
+    this.earlyNotifications.delete(upstreamId);
+  }
+}
\ No newline at end of file
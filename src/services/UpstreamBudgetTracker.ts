@@ -0,0 +1,124 @@
+import { JsonRpcRequest, UpstreamConfig, UpstreamCreditBudget } from '../types';
+import { matchesMethodPattern } from '../operations/MethodRoutingOps';
+
+// Throttle applied on a 429 or rate-limit error that carries no Retry-After hint
+export const DEFAULT_THROTTLE_MS = 1000;
+
+export type BudgetBlockReason = 'throttled' | 'max_rps' | 'max_concurrent' | 'credits';
+
+export interface BudgetBlock {
+  reason: BudgetBlockReason;
+  retryAfterMs?: number;
+}
+
+// Tracks provider-side limits per upstream: requests per second, credits per period and 429 throttles
+export class UpstreamBudgetTracker {
+  private requestTimes = new Map<string, number[]>();
+  private creditUsage = new Map<string, { period: string; used: number }>();
+  private throttledUntil = new Map<string, number>();
+
+  constructor(private now: () => number = Date.now) {}
+
+  // Why the upstream cannot take this method right now, or null when it can
+  checkCapacity(upstream: UpstreamConfig, method: string, inFlight: number): BudgetBlock | null {
+    const now = this.now();
+
+    const throttledUntil = this.throttledUntil.get(upstream.id) || 0;
+    if (throttledUntil > now) {
+      return { reason: 'throttled', retryAfterMs: throttledUntil - now };
+    }
+
+    if (upstream.maxConcurrent !== undefined && inFlight >= upstream.maxConcurrent) {
+      return { reason: 'max_concurrent' };
+    }
+
+    if (upstream.maxRps !== undefined) {
+      const recent = this.getRecentRequests(upstream.id, now);
+      if (recent.length >= upstream.maxRps) {
+        return { reason: 'max_rps', retryAfterMs: recent[0] + 1000 - now };
+      }
+    }
+
+    if (upstream.credits) {
+      const used = this.getCreditUsage(upstream.id, upstream.credits, now).used;
+      if (used + this.getMethodCost(upstream.credits, method) > upstream.credits.limit) {
+        return { reason: 'credits' };
+      }
+    }
+
+    return null;
+  }
+
+  // Spend rate and credit budget for a request (or upstream batch) about to be sent
+  recordRequest(upstream: UpstreamConfig, requestBody: JsonRpcRequest | JsonRpcRequest[]): void {
+    const now = this.now();
+
+    if (upstream.maxRps !== undefined) {
+      this.getRecentRequests(upstream.id, now).push(now);
+    }
+
+    if (upstream.credits) {
+      const requests = Array.isArray(requestBody) ? requestBody : [requestBody];
+      const usage = this.getCreditUsage(upstream.id, upstream.credits, now);
+      requests.forEach(request => {
+        usage.used += this.getMethodCost(upstream.credits!, request.method);
+      });
+    }
+  }
+
+  // Back off from an upstream that told us to slow down, without touching its health
+  throttle(upstreamId: string, retryAfterMs: number | null): void {
+    const until = this.now() + (retryAfterMs ?? DEFAULT_THROTTLE_MS);
+    this.throttledUntil.set(upstreamId, Math.max(until, this.throttledUntil.get(upstreamId) || 0));
+    console.warn(`Upstream ${upstreamId} throttled for ${retryAfterMs ?? DEFAULT_THROTTLE_MS}ms`);
+  }
+
+  getStatus(upstream: UpstreamConfig) {
+    const now = this.now();
+    const throttledUntil = this.throttledUntil.get(upstream.id) || 0;
+    return {
+      throttled: throttledUntil > now,
+      throttledForMs: Math.max(0, throttledUntil - now),
+      requestsLastSecond: this.getRecentRequests(upstream.id, now).length,
+      creditsUsed: upstream.credits ? this.getCreditUsage(upstream.id, upstream.credits, now).used : null,
+      creditsLimit: upstream.credits?.limit ?? null
+    };
+  }
+
+  private getRecentRequests(upstreamId: string, now: number): number[] {
+    const times = (this.requestTimes.get(upstreamId) || []).filter(time => now - time < 1000);
+    this.requestTimes.set(upstreamId, times);
+    return times;
+  }
+
+  private getCreditUsage(upstreamId: string, budget: UpstreamCreditBudget, now: number) {
+    const isoDate = new Date(now).toISOString();
+    const period = budget.period === 'day' ? isoDate.slice(0, 10) : isoDate.slice(0, 7);
+
+    let usage = this.creditUsage.get(upstreamId);
+    if (!usage || usage.period !== period) {
+      usage = { period, used: 0 };
+      this.creditUsage.set(upstreamId, usage);
+    }
+    return usage;
+  }
+
+  private getMethodCost(budget: UpstreamCreditBudget, method: string): number {
+    const costs = budget.methodCosts || {};
+    if (costs[method] !== undefined) return costs[method];
+
+    const pattern = Object.keys(costs).find(p => p.endsWith('*') && matchesMethodPattern(method, [p]));
+    return pattern ? costs[pattern] : budget.defaultCost ?? 1;
+  }
+}
+
+// Retry-After is either delay-seconds or an HTTP date
+export function parseRetryAfter(header: string | null, now: number = Date.now()): number | null {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - now);
+}
\ No newline at end of file
@@ -1,22 +1,44 @@
 import fetch from 'node-fetch';
-import { UpstreamConfig, UpstreamHealth, JsonRpcRequest, ProjectConfig } from '../types';
+import { UpstreamConfig, UpstreamHealth, JsonRpcRequest, ProjectConfig, UpstreamErrorClass, CircuitState } from '../types';
+import { RpcErrorClassifier } from './RpcErrorClassifier';
+import { MetricsRegistry } from './MetricsRegistry';
+import { DEFAULT_LOAD_BALANCING_CONFIG } from '../operations/FinalSelectorOps';
+import { BudgetBlock, UpstreamBudgetTracker, parseRetryAfter } from './UpstreamBudgetTracker';
+import { MethodSupportTracker } from './MethodSupportTracker';
+import { applyMethodAliases } from './MethodPolicy';
+import { redactSecrets, redactUrl } from '../redaction';
+import { Logger } from './Logger';
 
 export interface ProxyResult {
   success: boolean;
-  data?: any;
+  data?: any; // Response body; also set when a JSON-RPC error payload counts as a failure
   error?: string;
+  errorClass?: UpstreamErrorClass;
   responseTime: number;
+  splitRequests?: number; // eth_getLogs chunks the request was split into
 }
 
 export class UpstreamService {
   private upstreamHealth: Map<string, UpstreamHealth> = new Map();
+  private errorClassifier: RpcErrorClassifier;
+  private budgetTracker = new UpstreamBudgetTracker();
+  private methodSupport: MethodSupportTracker;
+  private unhealthyListeners: ((upstreamId: string) => void)[] = [];
 
-  constructor(private config: ProjectConfig) {
+  // Health records can be passed in to start from known circuit states; upstreams
+  // without a record start healthy
+  constructor(private config: ProjectConfig, upstreamHealth?: Map<string, UpstreamHealth>) {
+    this.errorClassifier = new RpcErrorClassifier(config.errorClassification);
+    this.methodSupport = new MethodSupportTracker(config.methodSupport);
+    if (upstreamHealth) {
+      this.upstreamHealth = upstreamHealth;
+    }
     this.initializeHealth();
   }
 
   private initializeHealth(): void {
     this.config.upstreams.forEach(upstream => {
+      if (this.upstreamHealth.has(upstream.id)) return;
       this.upstreamHealth.set(upstream.id, {
         errors: [],
         totalRequests: 0,
@@ -32,13 +54,31 @@ export class UpstreamService {
   }
 
   getAvailableUpstreams(): UpstreamConfig[] {
-    return this.config.upstreams.sort((a, b) => a.priority - b.priority);
+    return [...this.config.upstreams].sort((a, b) => a.priority - b.priority);
   }
 
   getHealthMap(): Map<string, UpstreamHealth> {
     return this.upstreamHealth;
   }
 
+  getProjectConfig(): ProjectConfig {
+    return this.config;
+  }
+
+  // Carry health, budget and learned method support over from the service this one replaces after a config reload.
+  // Health objects are shared, so requests still in flight on the old service keep updating them
+  adoptState(previous: UpstreamService): void {
+    const previousHealth = previous.getHealthMap();
+    this.config.upstreams.forEach(upstream => {
+      const health = previousHealth.get(upstream.id);
+      if (health) {
+        this.upstreamHealth.set(upstream.id, health);
+      }
+    });
+    this.budgetTracker = previous.budgetTracker;
+    this.methodSupport.adoptState(previous.methodSupport);
+  }
+
   private calculateErrorRate(upstreamId: string): number {
     const health = this.upstreamHealth.get(upstreamId);
     if (!health || health.totalRequests === 0) return 0;
@@ -54,6 +94,11 @@ export class UpstreamService {
     return recentErrors.length / Math.max(health.totalRequests, 1);
   }
 
+  // Register a callback invoked when an upstream transitions from healthy to unhealthy
+  onUpstreamUnhealthy(listener: (upstreamId: string) => void): void {
+    this.unhealthyListeners.push(listener);
+  }
+
   public recordRequestResult(upstreamId: string, success: boolean, responseTime = 0): void {
     const health = this.upstreamHealth.get(upstreamId);
     if (!health) return;
@@ -73,28 +118,89 @@ export class UpstreamService {
       // Check if should mark as unhealthy
       const errorRate = this.calculateErrorRate(upstreamId);
       if (errorRate > this.config.errorRateThreshold || health.consecutiveErrors >= this.config.health.maxConsecutiveErrors) {
-        health.isHealthy = false;
-        health.failoverUntil = Date.now() + this.config.health.failoverCooldownMs;
-        console.warn(`Upstream ${upstreamId} marked as unhealthy. Error rate: ${errorRate.toFixed(3)}, consecutive errors: ${health.consecutiveErrors}`);
+        const wasHealthy = health.isHealthy;
+        this.transitionCircuit(upstreamId, 'open', {
+          detail: `error rate ${errorRate.toFixed(3)}, consecutive errors ${health.consecutiveErrors}`
+        });
+        if (wasHealthy) {
+          this.unhealthyListeners.forEach(listener => listener(upstreamId));
+        }
       }
     }
 
     // Check if should mark as healthy again
-    if (success && health.failoverUntil < Date.now()) {
+    if (success && !health.isHealthy && health.failoverUntil < Date.now()) {
       const errorRate = this.calculateErrorRate(upstreamId);
       if (errorRate < this.config.errorRateThreshold && health.consecutiveErrors === 0) {
-        const wasUnhealthy = !health.isHealthy;
-        health.isHealthy = true;
-        // Only log when state changes from unhealthy to healthy
-        if (wasUnhealthy) {
-          console.info(`Upstream ${upstreamId} marked as healthy again. Error rate: ${errorRate.toFixed(3)}`);
-        }
+        this.transitionCircuit(upstreamId, 'closed', { detail: `request succeeded, error rate ${errorRate.toFixed(3)}` });
       }
     }
   }
 
-  async proxyRequest(upstream: UpstreamConfig, requestBody: JsonRpcRequest): Promise<ProxyResult> {
+  getCircuitState(upstreamId: string): CircuitState {
+    const health = this.upstreamHealth.get(upstreamId);
+    return health?.circuitState ?? (health?.isHealthy === false ? 'open' : 'closed');
+  }
+
+  // Move an upstream's circuit breaker to a new state. Opening (re)starts the cooldown,
+  // closing resets the failure streaks; transitions are logged through the Logger and counted
+  transitionCircuit(upstreamId: string, next: CircuitState, options: { cooldownMs?: number; detail?: string } = {}): void {
+    const health = this.upstreamHealth.get(upstreamId);
+    if (!health) return;
+
+    const previous = this.getCircuitState(upstreamId);
+    health.circuitState = next;
+    health.isHealthy = next === 'closed';
+
+    if (next === 'open') {
+      const retryAt = Date.now() + (options.cooldownMs ?? this.config.health.failoverCooldownMs);
+      // Further errors on an already open circuit never shorten a backed-off cooldown
+      health.failoverUntil = previous === 'open' ? Math.max(health.failoverUntil, retryAt) : retryAt;
+    } else if (next === 'closed') {
+      health.consecutiveErrors = 0;
+      health.failedProbes = 0;
+    }
+
+    if (previous !== next) {
+      Logger.getInstance().logUpstreamHealth(upstreamId, previous, next, options.detail);
+      MetricsRegistry.getInstance().incrementCounter('erpc_upstream_circuit_transitions_total', {
+        project: this.config.id,
+        upstream: upstreamId,
+        from: previous,
+        to: next
+      });
+    }
+  }
+
+  async proxyRequest(upstream: UpstreamConfig, requestBody: JsonRpcRequest | JsonRpcRequest[], timeoutMs?: number): Promise<ProxyResult> {
+    const health = this.upstreamHealth.get(upstream.id);
+    if (health) {
+      health.inFlight = (health.inFlight || 0) + 1;
+    }
+
+    this.budgetTracker.recordRequest(upstream, requestBody);
+    const result = await this.fetchUpstream(upstream, requestBody, timeoutMs);
+
+    if (health) {
+      health.inFlight = Math.max(0, (health.inFlight || 0) - 1);
+      this.updateLatencyEwma(health, result.responseTime);
+    }
+
+    const method = Array.isArray(requestBody) ? 'batch' : requestBody.method;
+    MetricsRegistry.getInstance().recordUpstreamRequest(
+      this.config.id,
+      upstream.id,
+      method,
+      result.success ? 'success' : result.errorClass || 'network',
+      result.responseTime
+    );
+    return result;
+  }
+
+  private async fetchUpstream(upstream: UpstreamConfig, requestBody: JsonRpcRequest | JsonRpcRequest[], timeoutMs?: number): Promise<ProxyResult> {
     const startTime = Date.now();
+    let httpStatus: number | null = null;
+    let retryAfterMs: number | null = null;
 
     try {
       const response = await fetch(upstream.rpcUrl, {
@@ -102,28 +208,90 @@ export class UpstreamService {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(requestBody),
-        timeout: this.config.responseTimeout
+        body: JSON.stringify(applyMethodAliases(this.config, upstream, requestBody)),
+        timeout: timeoutMs ?? this.config.responseTimeout
       } as any);
 
       const responseTime = Date.now() - startTime;
-      const responseBody = await response.json() as any;
 
       if (!response.ok) {
+        httpStatus = response.status;
+        retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
 
+      const responseBody = await response.json() as any;
+
+      // HTTP 200 with a JSON-RPC error payload may still be the upstream's fault
+      if (responseBody && responseBody.error) {
+        const category = this.errorClassifier.classify(responseBody.error);
+        if (this.errorClassifier.isUpstreamFailure(category)) {
+          if (category === 'rate_limited') {
+            // Rate limiting is a capacity signal, not a fault - throttle instead of counting an error
+            this.budgetTracker.throttle(upstream.id, null);
+          } else if (category === 'unsupported_method') {
+            // A missing method says nothing about the upstream's health - remember it and route elsewhere
+            if (!Array.isArray(requestBody)) {
+              this.methodSupport.recordUnsupported(upstream.id, requestBody.method);
+            }
+          } else {
+            this.recordRequestResult(upstream.id, false, responseTime);
+          }
+          console.error(`Request to ${upstream.id} returned ${category} error: ${responseBody.error.message}`);
+          return {
+            success: false,
+            data: responseBody,
+            error: responseBody.error.message,
+            errorClass: category as UpstreamErrorClass,
+            responseTime
+          };
+        }
+      }
+
       this.recordRequestResult(upstream.id, true, responseTime);
       return { success: true, data: responseBody, responseTime };
 
     } catch (error) {
       const responseTime = Date.now() - startTime;
-      this.recordRequestResult(upstream.id, false, responseTime);
-      console.error(`Request to ${upstream.id} failed:`, (error as Error).message);
-      return { success: false, error: (error as Error).message, responseTime };
+      const errorClass = this.classifyError(error as Error, httpStatus);
+      if (errorClass === 'http_429') {
+        this.budgetTracker.throttle(upstream.id, retryAfterMs);
+      } else {
+        this.recordRequestResult(upstream.id, false, responseTime);
+      }
+      // Transport errors quote the upstream URL, which may carry an API key
+      const message = redactSecrets((error as Error).message);
+      console.error(`Request to ${upstream.id} failed (${errorClass}):`, message);
+      return { success: false, error: message, errorClass, responseTime };
     }
   }
 
+  // Smoothed latency used by latency-aware load balancing; the first sample seeds the average
+  private updateLatencyEwma(health: UpstreamHealth, responseTime: number): void {
+    const alpha = this.config.loadBalancing?.ewmaAlpha ?? DEFAULT_LOAD_BALANCING_CONFIG.ewmaAlpha;
+    health.ewmaResponseTime = health.ewmaResponseTime === undefined
+      ? responseTime
+      : alpha * responseTime + (1 - alpha) * health.ewmaResponseTime;
+  }
+
+  // Whether a single JSON-RPC response carries an error caused by the upstream rather than the request
+  isUpstreamFailureResponse(responseBody: any): boolean {
+    if (!responseBody || !responseBody.error) return false;
+    return this.errorClassifier.isUpstreamFailure(this.errorClassifier.classify(responseBody.error));
+  }
+
+  // Map a failed request to a coarse error class used by the retry policy
+  private classifyError(error: Error, httpStatus: number | null): UpstreamErrorClass {
+    if (httpStatus !== null) {
+      if (httpStatus === 429) return 'http_429';
+      return httpStatus >= 500 ? 'http_5xx' : 'http_4xx';
+    }
+    if (error.name === 'AbortError' || (error as any).type === 'request-timeout' || error.message.includes('timeout')) {
+      return 'timeout';
+    }
+    return 'network';
+  }
+
   isUpstreamHealthy(upstreamId: string): boolean {
     const health = this.upstreamHealth.get(upstreamId);
     return health?.isHealthy ?? false;
@@ -137,12 +305,26 @@ export class UpstreamService {
     if (!health.isHealthy && health.failoverUntil < now) {
       const errorRate = this.calculateErrorRate(upstreamId);
       if (errorRate < this.config.errorRateThreshold) {
-        health.isHealthy = true;
-        console.info(`Upstream ${upstreamId} recovered, marking as healthy`);
+        this.transitionCircuit(upstreamId, 'closed', { detail: 'recovered' });
       }
     }
   }
 
+  // Why an upstream cannot take the method right now (throttled or out of budget), or null
+  getBudgetBlock(upstream: UpstreamConfig, method: string): BudgetBlock | null {
+    const inFlight = this.upstreamHealth.get(upstream.id)?.inFlight || 0;
+    return this.budgetTracker.checkCapacity(upstream, method, inFlight);
+  }
+
+  // Methods each upstream answered as unsupported, while their TTL lasts
+  getUnsupportedMethods(): Map<string, Set<string>> {
+    return this.methodSupport.getUnsupported();
+  }
+
+  clearUnsupportedMethods(upstreamId?: string): number {
+    return this.methodSupport.clear(upstreamId);
+  }
+
   getHealthStatus() {
     const status: Record<string, any> = {};
 
@@ -150,14 +332,22 @@ export class UpstreamService {
       const health = this.upstreamHealth.get(upstream.id);
       status[upstream.id] = {
         healthy: health?.isHealthy || false,
+        circuit: this.getCircuitState(upstream.id),
+        retryAt: health && !health.isHealthy ? new Date(health.failoverUntil).toISOString() : null,
+        failedProbes: health?.failedProbes || 0,
         errorRate: this.calculateErrorRate(upstream.id),
         totalRequests: health?.totalRequests || 0,
         totalErrors: health?.totalErrors || 0,
         consecutiveErrors: health?.consecutiveErrors || 0,
         lastSuccessfulRequest: health?.lastSuccessfulRequest || null,
         responseTime: health?.responseTime || 0,
+        ewmaResponseTime: health?.ewmaResponseTime ?? null,
+        inFlight: health?.inFlight || 0,
+        budget: this.budgetTracker.getStatus(upstream),
+        unsupportedMethods: this.methodSupport.getStatus(upstream.id),
         type: upstream.type,
-        priority: upstream.priority
+        priority: upstream.priority,
+        url: redactUrl(upstream.rpcUrl)
       };
     });
 
@@ -1,4 +1,4 @@
-import { FastifyReply, FastifyRequest } from "fastify";
+import { FastifyRequest } from "fastify";
 import {
   RoutingOperation,
   RoutingContext,
@@ -6,15 +6,76 @@ import {
   RoutingStrategy,
   DebugResponse,
   AppConfig,
+  RetryConfig,
+  UpstreamConfig,
+  BlockRange,
 } from "../types";
-import { UpstreamService } from "../services/UpstreamService";
-import { BlockNumberExtractor } from "../services/BlockNumberExtractor";
+import { UpstreamService, ProxyResult } from "../services/UpstreamService";
+import {
+  BlockNumberExtractor,
+  getHistoricalMethods,
+} from "../services/BlockNumberExtractor";
+import { BlockHashIndex } from "../services/BlockHashIndex";
 import { NodeStatusService } from "../services/NodeStatusService";
 import { InstrumentationService } from "../services/InstrumentationService";
+import { ResponseCache } from "../services/ResponseCache";
+import { RequestCoalescer } from "../services/RequestCoalescer";
+import {
+  BlockAvailabilityService,
+  computeConsensusHead,
+} from "../services/BlockAvailabilityService";
+import {
+  exceedsLogsRangeLimit,
+  getBlockRangeSize,
+  rejectsLogsRange,
+  resolveLogsConfig,
+  splitLogsRequest,
+} from "../services/LogsRangeLimits";
+import { ignoresMethod } from "../operations/MethodRoutingOps";
+import {
+  getBlockUnavailability,
+  getRangeUnavailability,
+} from "../operations/BlockBasedRoutingOps";
+import { MetricsRegistry } from "../services/MetricsRegistry";
+import { createJsonRpcError, JSON_RPC_ERRORS } from "../validation";
+
+// Applied when a project does not define its own retry policy
+export const DEFAULT_RETRY_CONFIG: RetryConfig = {
+  maxAttempts: 3,
+  retryOn: [
+    "timeout",
+    "network",
+    "http_5xx",
+    "http_429",
+    "rate_limited",
+    "pruned_state",
+    "node_unsynced",
+    "unsupported_method",
+  ],
+};
+
+// What execute() answers through: a Fastify reply, or the capturing reply of a batch item
+export interface RoutingReply {
+  code(statusCode: number): RoutingReply;
+  send(payload: unknown): void;
+  setUpstreamUsed?(upstreamId: string): void; // Records the upstream for request logging
+}
+
+// Response for a request that went through the pipeline, sent by execute()
+interface RouteOutcome {
+  data: any;
+  statusCode?: number; // Only set for gateway errors
+  upstreamId?: string; // Upstream whose response or error is forwarded
+  context: RoutingContext;
+}
 
 export class DefaultRoutingStrategy implements RoutingStrategy {
   private operations: RoutingOperation[] = [];
   private instrumentation = InstrumentationService.getInstance();
+  private responseCache: ResponseCache | null = null;
+  private requestCoalescer: RequestCoalescer | null = null;
+  private blockAvailability: BlockAvailabilityService | null = null;
+  private blockHashIndex: BlockHashIndex | null = null;
 
   constructor(
     private upstreamService: UpstreamService,
@@ -27,10 +88,54 @@ export class DefaultRoutingStrategy implements RoutingStrategy {
     this.operations = operations;
   }
 
+  // Set the response cache consulted before routing
+  setResponseCache(responseCache: ResponseCache) {
+    this.responseCache = responseCache;
+  }
+
+  // Set the coalescer that lets identical concurrent requests share one routed call
+  setRequestCoalescer(requestCoalescer: RequestCoalescer) {
+    this.requestCoalescer = requestCoalescer;
+  }
+
+  // Set the per-upstream block tracking used by block-based routing
+  setBlockAvailability(blockAvailability: BlockAvailabilityService) {
+    this.blockAvailability = blockAvailability;
+  }
+
+  // Set the hash index that learns block numbers from responses and resolves by-hash requests
+  setBlockHashIndex(blockHashIndex: BlockHashIndex) {
+    this.blockHashIndex = blockHashIndex;
+  }
+
+  // Route a request through the pipeline without proxying it. An eth_getLogs range wider
+  // than the selected upstream's maxLogsBlockRange selects nothing, since only execute()
+  // splits or rejects it
+  async selectUpstream(request: JsonRpcRequest): Promise<UpstreamConfig | null> {
+    const requestId = this.instrumentation.generateRequestId();
+    this.instrumentation.startRequest(requestId, false);
+
+    const { context, selectedUpstream } = await this.runPipeline(
+      request,
+      requestId,
+      false
+    );
+    this.instrumentation.finishRequest(requestId, context);
+
+    if (
+      selectedUpstream &&
+      context.blockRange &&
+      exceedsLogsRangeLimit(selectedUpstream, context.blockRange)
+    ) {
+      return null;
+    }
+    return selectedUpstream;
+  }
+
   async execute(
     request: JsonRpcRequest,
-    reply: FastifyReply,
-    fastifyRequest?: FastifyRequest
+    reply: RoutingReply,
+    fastifyRequest?: Pick<FastifyRequest, "query">
   ): Promise<void> {
     // Check if debug mode is enabled
     const isDebugEnabled =
@@ -40,11 +145,293 @@ export class DefaultRoutingStrategy implements RoutingStrategy {
     const requestId = this.instrumentation.generateRequestId();
     this.instrumentation.startRequest(requestId, !!isDebugEnabled);
 
+    // Serve immutable results from the cache without touching any upstream
+    const useCache = !!this.responseCache && this.responseCache.isEnabled();
+    if (useCache) {
+      const cached = this.responseCache!.get(request);
+      this.instrumentation.logCacheLookup(requestId, request.method, !!cached);
+
+      if (cached) {
+        const debugInfo = this.instrumentation.finishRequest(requestId, {
+          request,
+          blockNumber: null,
+          nodeStatus: null,
+          availableUpstreams: [],
+          allUpstreams: [],
+          upstreamHealth: this.upstreamService.getHealthMap(),
+          config: this.upstreamService.getProjectConfig(),
+          appConfig: this.appConfig,
+        });
+
+        if (isDebugEnabled && debugInfo) {
+          const debugResponse: DebugResponse = { ...cached, debug: debugInfo };
+          return reply.send(debugResponse);
+        }
+
+        return reply.send(cached);
+      }
+    }
+
+    // Identical concurrent requests share one pipeline run and upstream call. Debug
+    // requests always run their own so their events are complete
+    const outcome =
+      this.requestCoalescer &&
+      !isDebugEnabled &&
+      this.requestCoalescer.shouldCoalesce(request.method)
+        ? await this.requestCoalescer.run(
+            this.upstreamService.getProjectConfig().id,
+            request,
+            () => this.routeRequest(request, requestId, false, useCache)
+          )
+        : await this.routeRequest(
+            request,
+            requestId,
+            !!isDebugEnabled,
+            useCache
+          );
+
+    const debugInfo = this.instrumentation.finishRequest(
+      requestId,
+      outcome.context
+    );
+
+    // Set upstream info for production logging
+    if (outcome.upstreamId && reply.setUpstreamUsed) {
+      reply.setUpstreamUsed(outcome.upstreamId);
+    }
+
+    let response = outcome.data;
+    if (isDebugEnabled && debugInfo) {
+      const debugResponse: DebugResponse = { ...outcome.data, debug: debugInfo };
+      response = debugResponse;
+    }
+
+    return outcome.statusCode
+      ? reply.code(outcome.statusCode).send(response)
+      : reply.send(response);
+  }
+
+  // Route a request that missed the cache and proxy it, failing over to the
+  // remaining ranked candidates (then archives) according to the retry policy
+  private async routeRequest(
+    request: JsonRpcRequest,
+    requestId: string,
+    isDebugEnabled: boolean,
+    useCache: boolean
+  ): Promise<RouteOutcome> {
+    const { context, selectedUpstream, rankedCandidates } =
+      await this.runPipeline(request, requestId, isDebugEnabled);
+    const allUpstreams = context.allUpstreams;
+
+    if (selectedUpstream) {
+      const retryConfig = context.config.retry ?? DEFAULT_RETRY_CONFIG;
+      const { blockRange } = context;
+      const logsConfig = resolveLogsConfig(context.config);
+      const failoverCandidates = this.buildFailoverCandidates(
+        selectedUpstream,
+        rankedCandidates,
+        allUpstreams,
+        context
+      );
+      // Upstreams that would refuse the eth_getLogs range are never tried
+      let candidates = failoverCandidates
+        .filter((u) => !blockRange || !rejectsLogsRange(u, blockRange, logsConfig))
+        .slice(0, Math.max(retryConfig.maxAttempts, 1));
+      const attemptedUpstreams: string[] = [];
+      let lastFailure: { upstreamId: string; data: any } | null = null;
+      let archiveFallbackUsed = false;
+
+      if (blockRange && candidates.length === 0) {
+        lastFailure = {
+          upstreamId: selectedUpstream.id,
+          data: this.logsRangeError(request, blockRange, failoverCandidates),
+        };
+      }
+
+      for (let i = 0; i < candidates.length; i++) {
+        const upstream = candidates[i];
+        attemptedUpstreams.push(upstream.id);
+        context.selectedUpstream = upstream;
+
+        const response =
+          blockRange && exceedsLogsRangeLimit(upstream, blockRange)
+            ? await this.proxySplitLogs(
+                upstream,
+                request,
+                blockRange,
+                retryConfig.attemptTimeoutMs
+              )
+            : await this.upstreamService.proxyRequest(
+                upstream,
+                request,
+                retryConfig.attemptTimeoutMs
+              );
+
+        // A full node that pruned the requested block: go straight to an archive that holds it,
+        // as one extra attempt outside the retry policy
+        const archiveFallback =
+          !response.success &&
+          response.errorClass === "pruned_state" &&
+          !archiveFallbackUsed
+            ? this.findArchiveFallback(upstream, context, candidates.slice(0, i + 1))
+            : null;
+        if (archiveFallback) {
+          archiveFallbackUsed = true;
+          candidates = [
+            ...candidates.slice(0, i + 1),
+            archiveFallback,
+            ...candidates.slice(i + 1).filter((u) => u !== archiveFallback),
+          ];
+          this.instrumentation.logArchiveFallback(
+            requestId,
+            upstream.id,
+            archiveFallback.id,
+            this.getRequestedBlock(context)!
+          );
+        }
+
+        const willRetry =
+          !response.success &&
+          i < candidates.length - 1 &&
+          (!!archiveFallback ||
+            (!!response.errorClass &&
+              retryConfig.retryOn.includes(response.errorClass)));
+
+        this.instrumentation.logRequestProxy(
+          requestId,
+          upstream.id,
+          response.success,
+          response.error,
+          {
+            attempt: i + 1,
+            maxAttempts: candidates.length,
+            errorClass: response.errorClass,
+            responseTime: response.responseTime,
+            willRetry,
+            splitRequests: response.splitRequests,
+          }
+        );
+
+        if (response.success) {
+          this.blockHashIndex?.learn(response.data?.result);
+
+          if (useCache) {
+            const stored = await this.responseCache!.store(
+              request,
+              response.data
+            );
+            this.instrumentation.logCacheStore(
+              requestId,
+              request.method,
+              stored
+            );
+          }
+
+          if (attemptedUpstreams.length > 1) {
+            this.instrumentation.logFailover(requestId, attemptedUpstreams, true);
+          }
+
+          return { data: response.data, upstreamId: upstream.id, context };
+        }
+
+        // Keep the upstream's JSON-RPC error payload in case no attempt succeeds
+        if (response.data) {
+          lastFailure = { upstreamId: upstream.id, data: response.data };
+        }
+
+        // Request failed, decide whether to fail over
+        if (isDebugEnabled) {
+          console.warn(
+            `❌ Request to ${upstream.id} failed (${response.errorClass}): ${response.error}${
+              willRetry ? " - failing over" : ""
+            }`
+          );
+        }
+
+        if (!willRetry) {
+          break;
+        }
+      }
+
+      if (attemptedUpstreams.length > 1) {
+        this.instrumentation.logFailover(requestId, attemptedUpstreams, false);
+      }
+
+      // Forward the upstream's own JSON-RPC error rather than a generic 502
+      if (lastFailure) {
+        return {
+          data: lastFailure.data,
+          upstreamId: lastFailure.upstreamId,
+          context,
+        };
+      }
+    }
+
+    // If we reach here, no upstreams available or all failed
+    // Every upstream ignores the method or has answered it as unsupported
+    if (
+      !selectedUpstream &&
+      allUpstreams.length > 0 &&
+      allUpstreams.every((u) =>
+        ignoresMethod(u, request.method, context.unsupportedMethods)
+      )
+    ) {
+      const methodError = {
+        jsonrpc: "2.0" as const,
+        error: {
+          code: JSON_RPC_ERRORS.METHOD_NOT_FOUND,
+          message: `Method ${request.method} is not supported by any upstream`,
+        },
+        id: request.id,
+      };
+      return { data: methodError, context };
+    }
+
+    const errorResponse = {
+      jsonrpc: "2.0",
+      error: {
+        code: -32603,
+        message: "No upstreams available or all upstreams failed",
+      },
+      id: request.id,
+    };
+
+    return { data: errorResponse, statusCode: 502, context };
+  }
+
+  // Run the routing pipeline and return the selected upstream with the ranked
+  // candidates left by the operation that selected it
+  private async runPipeline(
+    request: JsonRpcRequest,
+    requestId: string,
+    isDebugEnabled: boolean
+  ): Promise<{
+    context: RoutingContext;
+    selectedUpstream: UpstreamConfig | null;
+    rankedCandidates: UpstreamConfig[];
+  }> {
+    const config = this.upstreamService.getProjectConfig();
+    if (
+      this.blockHashIndex &&
+      getHistoricalMethods(config, this.appConfig).includes(request.method)
+    ) {
+      await this.blockHashIndex.resolve(request);
+    }
     const blockNumber = this.blockExtractor.extract(
       request.method,
       request.params
     );
     const nodeStatus = await this.nodeStatusService.getStatus();
+    const syncStates = this.blockAvailability?.getSyncStates();
+    // Range tags resolve against the consensus head, or the local node without block tracking
+    const head =
+      (syncStates && computeConsensusHead(syncStates)) ??
+      nodeStatus.latestBlockHeight;
+    const blockRange = this.blockExtractor.extractRange(
+      request.method,
+      request.params,
+      head
+    );
     const allUpstreams = this.upstreamService.getAvailableUpstreams();
     // Start with non-archive upstreams only (archives are expensive, use as last resort)
     let availableUpstreams = allUpstreams.filter((u) => u.type !== "archive");
@@ -53,15 +440,21 @@ export class DefaultRoutingStrategy implements RoutingStrategy {
     const context: RoutingContext = {
       request,
       blockNumber,
+      blockRange,
       nodeStatus,
       availableUpstreams,
       allUpstreams, // Include all upstreams for ArchiveFilter emergency fallback
       upstreamHealth,
-      config: this.upstreamService["config"],
+      config,
       appConfig: this.appConfig,
+      syncStates,
+      prunedBlocks: this.blockAvailability?.getPrunedBlocks(),
+      unsupportedMethods: this.upstreamService.getUnsupportedMethods(),
     };
 
     let selectedUpstream: any = null;
+    // Ranked candidates left by the operation that made the selection, used for failover
+    let rankedCandidates: UpstreamConfig[] = [];
 
     // Execute operations in pipeline as filters (map-reduce pattern)
     for (const operation of this.operations) {
@@ -90,6 +483,9 @@ export class DefaultRoutingStrategy implements RoutingStrategy {
 
         // If operation selected an upstream, store it but continue pipeline
         if (result.selectedUpstream) {
+          if (!selectedUpstream) {
+            rankedCandidates = result.filteredUpstreams;
+          }
           selectedUpstream = result.selectedUpstream;
           context.selectedUpstream = selectedUpstream;
 
@@ -128,6 +524,7 @@ export class DefaultRoutingStrategy implements RoutingStrategy {
     // If no upstream was selected, try first available as last resort
     if (!selectedUpstream && availableUpstreams.length > 0) {
       selectedUpstream = availableUpstreams[0];
+      rankedCandidates = availableUpstreams;
       context.selectedUpstream = selectedUpstream;
 
       if (isDebugEnabled) {
@@ -135,71 +532,162 @@ export class DefaultRoutingStrategy implements RoutingStrategy {
       }
     }
 
-    // If we have a selected upstream, execute the request
-    if (selectedUpstream) {
-      const response = await this.upstreamService.proxyRequest(
-        selectedUpstream,
-        request
-      );
-      this.instrumentation.logRequestProxy(
-        requestId,
-        selectedUpstream.id,
-        response.success,
-        response.error
-      );
+    return { context, selectedUpstream, rankedCandidates };
+  }
 
-      if (response.success) {
-        const debugInfo = this.instrumentation.finishRequest(
-          requestId,
-          context
-        );
+  // Order upstreams for failover: the selected one, the rest of the ranked
+  // candidates, then archives that can serve the request and are within budget as a last resort
+  private buildFailoverCandidates(
+    selectedUpstream: UpstreamConfig,
+    rankedCandidates: UpstreamConfig[],
+    allUpstreams: UpstreamConfig[],
+    context: RoutingContext
+  ): UpstreamConfig[] {
+    const candidates: UpstreamConfig[] = [selectedUpstream];
 
-        // Set upstream info for production logging
-        if (
-          (reply as any).setUpstreamUsed &&
-          typeof (reply as any).setUpstreamUsed === "function"
-        ) {
-          (reply as any).setUpstreamUsed(selectedUpstream.id);
-        }
+    for (const upstream of rankedCandidates) {
+      if (!candidates.includes(upstream)) {
+        candidates.push(upstream);
+      }
+    }
 
-        if (isDebugEnabled && debugInfo) {
-          const debugResponse: DebugResponse = {
-            ...response.data,
-            debug: debugInfo,
-          };
-          return reply.send(debugResponse);
-        }
+    return [
+      ...candidates,
+      ...this.getArchiveCandidates(allUpstreams, context, candidates),
+    ];
+  }
 
-        return reply.send(response.data);
-      } else {
-        // Request failed, return error
-        if (isDebugEnabled) {
-          console.warn(
-            `❌ Request to ${selectedUpstream.id} failed: ${response.error}`
-          );
-        }
-      }
+  // Archives outside the excluded list that can serve the request and are within budget, by priority
+  private getArchiveCandidates(
+    allUpstreams: UpstreamConfig[],
+    context: RoutingContext,
+    excluded: UpstreamConfig[]
+  ): UpstreamConfig[] {
+    const { request, blockNumber, blockRange } = context;
+    return allUpstreams
+      .filter((u) => u.type === "archive" && !excluded.includes(u))
+      .filter(
+        (u) => !ignoresMethod(u, request.method, context.unsupportedMethods)
+      )
+      .filter(
+        (u) =>
+          typeof blockNumber !== "number" ||
+          !u.evmStartBlock ||
+          blockNumber >= u.evmStartBlock
+      )
+      .filter((u) =>
+        blockRange
+          ? getRangeUnavailability(u, blockRange, context) === null
+          : typeof blockNumber !== "number" ||
+            getBlockUnavailability(u, blockNumber, context) === null
+      )
+      .filter((u) => !this.upstreamService.getBudgetBlock(u, request.method))
+      .sort((a, b) => a.priority - b.priority);
+  }
+
+  // Oldest block a request is pinned to, null for requests that follow the head
+  private getRequestedBlock(context: RoutingContext): number | null {
+    if (context.blockRange) return context.blockRange.fromBlock;
+    return typeof context.blockNumber === "number" ? context.blockNumber : null;
+  }
+
+  // Head of the upstream from block tracking, else the consensus or local node head
+  private getKnownHead(
+    upstream: UpstreamConfig,
+    context: RoutingContext
+  ): number | null {
+    const { syncStates, nodeStatus } = context;
+    return (
+      syncStates?.get(upstream.id)?.latestBlock ??
+      (syncStates && computeConsensusHead(syncStates)) ??
+      nodeStatus?.latestBlockHeight ??
+      null
+    );
+  }
+
+  // After a pruned-state error from a full node on a request pinned to a block, learn that the
+  // upstream no longer holds the block and pick an archive that does
+  private findArchiveFallback(
+    upstream: UpstreamConfig,
+    context: RoutingContext,
+    attempted: UpstreamConfig[]
+  ): UpstreamConfig | null {
+    const block = this.getRequestedBlock(context);
+    if (upstream.type === "archive" || block === null) return null;
+
+    // A block past the head is missing because it does not exist yet, not because it was
+    // pruned. Without a known head the block is not learned, but the archive is still tried
+    const head = this.getKnownHead(upstream, context);
+    if (head !== null && block > head) return null;
+
+    if (this.blockAvailability && head !== null) {
+      this.blockAvailability.recordPrunedBlock(upstream.id, block);
+      context.prunedBlocks = this.blockAvailability.getPrunedBlocks();
     }
 
-    // If we reach here, no upstreams available or all failed
-    const debugInfo = this.instrumentation.finishRequest(requestId, context);
-    const errorResponse = {
-      jsonrpc: "2.0",
-      error: {
-        code: -32603,
-        message: "No upstreams available or all upstreams failed",
-      },
-      id: request.id,
-    };
+    const { blockRange } = context;
+    const logsConfig = resolveLogsConfig(context.config);
+    const archive =
+      this.getArchiveCandidates(context.allUpstreams, context, attempted).find(
+        (u) => !blockRange || !rejectsLogsRange(u, blockRange, logsConfig)
+      ) ?? null;
 
-    if (isDebugEnabled && debugInfo) {
-      const debugErrorResponse: DebugResponse = {
-        ...errorResponse,
-        debug: debugInfo,
-      };
-      return reply.code(502).send(debugErrorResponse);
+    MetricsRegistry.getInstance().incrementCounter("erpc_archive_fallbacks_total", {
+      project: context.config.id,
+      upstream: upstream.id,
+      archive: archive?.id ?? "none",
+    });
+    return archive;
+  }
+
+  // Send an eth_getLogs range wider than the upstream's limit as consecutive chunks and join
+  // their logs; the first failing chunk fails the whole attempt
+  private async proxySplitLogs(
+    upstream: UpstreamConfig,
+    request: JsonRpcRequest,
+    range: BlockRange,
+    timeoutMs?: number
+  ): Promise<ProxyResult> {
+    const chunks = splitLogsRequest(request, range, upstream.maxLogsBlockRange!);
+    const logs: any[] = [];
+    let responseTime = 0;
+
+    for (const chunk of chunks) {
+      const response = await this.upstreamService.proxyRequest(
+        upstream,
+        chunk,
+        timeoutMs
+      );
+      responseTime += response.responseTime;
+      if (!response.success) {
+        return { ...response, responseTime, splitRequests: chunks.length };
+      }
+      if (Array.isArray(response.data?.result)) {
+        logs.push(...response.data.result);
+      }
     }
 
-    return reply.code(502).send(errorResponse);
+    return {
+      success: true,
+      data: { jsonrpc: "2.0", result: logs, id: request.id },
+      responseTime,
+      splitRequests: chunks.length,
+    };
+  }
+
+  private logsRangeError(
+    request: JsonRpcRequest,
+    range: BlockRange,
+    upstreams: UpstreamConfig[]
+  ) {
+    const maxBlockRange = Math.max(
+      ...upstreams.map((u) => u.maxLogsBlockRange ?? 0)
+    );
+    return createJsonRpcError(
+      JSON_RPC_ERRORS.LIMIT_EXCEEDED,
+      `eth_getLogs range of ${getBlockRangeSize(range)} blocks exceeds the maximum of ${maxBlockRange} blocks`,
+      request.id,
+      { maxBlockRange }
+    );
   }
 }
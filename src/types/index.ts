@@ -1,11 +1,51 @@
 export interface UpstreamConfig {
   id: string;
   rpcUrl: string;
+  wsUrl?: string; // WebSocket endpoint used for eth_subscribe
   statusUrl?: string;
+  statusProbe?: StatusProbeConfig; // How sync status is read, defaults to tendermint with a statusUrl and evm otherwise
   type: 'full' | 'archive';
   priority: number;
+  weight?: number; // Relative share of traffic within a priority tier for weighted_round_robin, default 1
   ignoredMethods?: string[];
+  methodAliases?: Record<string, string>; // Method names this upstream expects instead, overrides the project's
   evmStartBlock?: number;
+  retentionBlocks?: number; // Full nodes: blocks of history kept behind the head before pruning
+  maxLogsBlockRange?: number; // Widest eth_getLogs block range the provider accepts
+  maxRps?: number; // Requests per second the provider allows
+  maxConcurrent?: number; // Requests allowed in flight at once
+  credits?: UpstreamCreditBudget;
+}
+
+export type StatusProbeType = 'tendermint' | 'evm' | 'json_path';
+
+export interface TendermintStatusProbeConfig {
+  type: 'tendermint';
+  url?: string; // Tendermint /status endpoint, defaults to the upstream's statusUrl
+}
+
+// eth_syncing for the catching-up flag plus eth_blockNumber for the head, sent to rpcUrl
+export interface EvmStatusProbeConfig {
+  type: 'evm';
+}
+
+export interface JsonPathStatusProbeConfig {
+  type: 'json_path';
+  url?: string; // Defaults to statusUrl, then rpcUrl
+  method?: 'GET' | 'POST'; // Defaults to POST when a body is set, GET otherwise
+  body?: unknown; // JSON request body
+  latestBlockPath: string; // Dotted path into the response, e.g. result.sync_info.latest_block_height
+  earliestBlockPath?: string;
+  catchingUpPath?: string;
+}
+
+export type StatusProbeConfig = TendermintStatusProbeConfig | EvmStatusProbeConfig | JsonPathStatusProbeConfig;
+
+export interface UpstreamCreditBudget {
+  limit: number; // Credits available per period
+  period?: 'day' | 'month'; // UTC period the limit resets on, default month
+  methodCosts?: Record<string, number>; // Exact names or wildcard patterns to credit cost
+  defaultCost?: number; // Cost of methods without an entry, default 1
 }
 
 export interface ServerConfig {
@@ -20,6 +60,18 @@ export interface HealthConfig {
   nodeStatusTimeoutMs: number;
 }
 
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface HealthCheckConfig {
+  enabled: boolean; // Probe unhealthy upstreams in the background instead of waiting for live traffic
+  intervalMs: number; // How often open circuits are checked for an expired cooldown
+  method: string; // Probe request, should be cheap for the provider
+  params: unknown[];
+  timeoutMs?: number; // Defaults to health.nodeStatusTimeoutMs
+  backoffMultiplier: number; // Cooldown growth after each failed probe
+  maxBackoffMs: number; // Upper bound for the grown cooldown
+}
+
 export interface TestingConfig {
   testAddress: string;
   historicalBlockHex: string;
@@ -47,6 +99,103 @@ export interface TimeoutConfig {
   defaultNodeStatusTimeoutMs: number;
 }
 
+export type RpcErrorCategory =
+  | 'client_error'
+  | 'pruned_state'
+  | 'rate_limited'
+  | 'node_unsynced'
+  | 'unsupported_method'
+  | 'internal';
+
+export interface RpcErrorRule {
+  category: RpcErrorCategory;
+  codes?: number[]; // JSON-RPC error codes that map to this category
+  messagePatterns?: string[]; // Case-insensitive substrings of the error message
+  exceptPatterns?: string[]; // Messages the rule never matches, even by code
+}
+
+// Transport failures plus JSON-RPC error categories that count against the upstream
+export type UpstreamErrorClass =
+  | 'timeout'
+  | 'network'
+  | 'http_4xx'
+  | 'http_429'
+  | 'http_5xx'
+  | Exclude<RpcErrorCategory, 'client_error'>;
+
+export interface CacheConfig {
+  enabled: boolean;
+  maxEntries: number;
+  maxSizeBytes: number; // Approximate, measured on serialized responses
+  finalityDepth: number; // Blocks this far behind the head are treated as immutable
+  methodTtlMs?: Record<string, number>; // TTL for non-final or non-block results, 0 = never expires
+}
+
+export interface LogsConfig {
+  onRangeExceeded: 'reject' | 'split'; // What to do when an eth_getLogs range is wider than an upstream's maxLogsBlockRange
+  maxSplitRequests: number; // Ranges needing more chunks than this are rejected
+}
+
+export interface CoalescingConfig {
+  enabled: boolean;
+  excludedMethods: string[]; // Exact names or wildcard patterns that are never shared between callers
+}
+
+export interface BatchConfig {
+  concurrency: number; // Maximum batch items routed and proxied at the same time
+  groupByUpstream?: boolean; // Forward items that route to the same upstream as one upstream batch call
+}
+
+export type LoadBalancingPolicy = 'priority' | 'weighted_round_robin' | 'least_in_flight' | 'ewma_p2c';
+
+export interface LoadBalancingConfig {
+  policy: LoadBalancingPolicy; // How FinalSelectorOps picks among upstreams of the best priority tier
+  ewmaAlpha: number; // Weight of the newest sample in the latency EWMA, between 0 and 1
+}
+
+export interface BlockTrackingConfig {
+  enabled: boolean; // Poll every upstream for the blocks it can serve
+  intervalMs?: number; // How often the latest block is refreshed, defaults to statusCheckInterval
+  probeEarliest: boolean; // Binary-search the oldest block full nodes without a statusUrl still serve, default false
+  probeIntervalMs: number; // How often that probe is repeated
+  maxLagBlocks: number; // Upstreams further behind the consensus head are skipped for head requests
+}
+
+export interface HashIndexConfig {
+  enabled: boolean; // Resolve by-hash requests to block numbers learned from responses
+  maxEntries: number; // Least recently used hashes are dropped beyond this
+  lookup: boolean; // Ask an upstream for the block of an unknown hash before routing
+  lookupTimeoutMs?: number; // Defaults to health.nodeStatusTimeoutMs
+}
+
+// One pipeline stage: a registered routing operation and its options
+export interface PipelineStageConfig {
+  operation: string;
+  options?: Record<string, unknown>;
+}
+
+export interface MethodSupportConfig {
+  enabled: boolean; // Skip upstreams for methods they answered as unsupported
+  ttlMs: number; // How long a learned unsupported method is remembered
+}
+
+// Block range an upstream reported it can serve
+export interface UpstreamSyncState {
+  earliestBlock: number | null; // Null when unknown
+  latestBlock: number | null;
+  source: StatusProbeType;
+  catchingUp?: boolean;
+  lastUpdated: number;
+  earliestProbedAt?: number;
+  error?: string; // Last polling failure, the previous range is kept
+}
+
+export interface RetryConfig {
+  maxAttempts: number; // Total attempts including the first one
+  attemptTimeoutMs?: number; // Per-attempt timeout, defaults to project responseTimeout
+  retryOn: UpstreamErrorClass[]; // Error classes that trigger failover to the next candidate
+}
+
 
 export interface ProjectConfig {
   id: string;
@@ -56,6 +205,58 @@ export interface ProjectConfig {
   statusCheckInterval: number;
   responseTimeout: number;
   health: HealthConfig;
+  historicalMethods?: string[]; // Methods routed by block number, replaces the top-level list
+  allowedMethods?: string[]; // Only these methods may be called, others get -32601
+  blockedMethods?: string[]; // Methods refused with -32006, checked before allowedMethods
+  methodAliases?: Record<string, string>; // Method renamed when proxying, e.g. sei_getLogs -> eth_getLogs
+  archiveCutoffBlock?: number; // Blocks below this prefer archive nodes, unless full nodes set retentionBlocks
+  retry?: RetryConfig;
+  batch?: BatchConfig;
+  cache?: Partial<CacheConfig>;
+  coalescing?: Partial<CoalescingConfig>;
+  logs?: Partial<LogsConfig>;
+  errorClassification?: RpcErrorRule[]; // Checked before the built-in classification table
+  loadBalancing?: Partial<LoadBalancingConfig>;
+  healthCheck?: Partial<HealthCheckConfig>;
+  blockTracking?: Partial<BlockTrackingConfig>;
+  hashIndex?: Partial<HashIndexConfig>;
+  methodSupport?: Partial<MethodSupportConfig>;
+  pipeline?: (string | PipelineStageConfig)[]; // Routing operations in order, defaults to the built-in pipeline
+}
+
+export interface RateLimitRule {
+  group: string; // Name of the method group, used in errors and metrics
+  methods: string[]; // Exact names or wildcard patterns, "*" matches every method
+  requestsPerSecond: number; // Token refill rate
+  burst?: number; // Bucket capacity, defaults to requestsPerSecond
+  dailyQuota?: number; // Requests allowed per UTC day
+}
+
+export interface RateLimitConfig {
+  enabled: boolean;
+  rules: RateLimitRule[]; // First matching rule applies, methods without a rule are not limited
+}
+
+export interface ApiKeyConfig {
+  id: string; // Name used in metrics and logs instead of the secret
+  key: string;
+  projects?: string[]; // Allowed project ids, all projects when omitted
+  allowedMethods?: string[]; // Exact names or wildcard patterns, all methods when omitted
+  rateLimits?: RateLimitRule[]; // Replaces the global rate limit rules for this key
+  admin?: boolean; // May call the /admin endpoints
+  enabled?: boolean;
+}
+
+export interface AuthConfig {
+  enabled: boolean;
+  header?: string; // Header carrying the key, default x-api-key
+  keys?: ApiKeyConfig[];
+  keyFile?: string; // JSON array of ApiKeyConfig, relative to the config file
+}
+
+export interface ReloadConfig {
+  watch: boolean; // Reload when the config file changes on disk
+  debounceMs?: number; // Wait for writes to settle before reloading, default 500
 }
 
 export interface AppConfig {
@@ -66,6 +267,10 @@ export interface AppConfig {
   defaultProject: string;
   testing: TestingConfig;
   logging: LoggingConfig;
+  auth?: AuthConfig;
+  rateLimit?: RateLimitConfig;
+  reload?: ReloadConfig; // SIGHUP and POST /admin/reload always work
+  plugins?: string[]; // Modules registering custom routing operations, relative to the config file
 }
 
 export interface UpstreamHealth {
@@ -75,17 +280,27 @@ export interface UpstreamHealth {
   consecutiveErrors: number;
   lastError: number | null;
   lastSuccessfulRequest: number;
-  isHealthy: boolean;
+  isHealthy: boolean; // True exactly when the circuit is closed
+  circuitState?: CircuitState; // Undefined until the first transition, read as closed
+  failedProbes?: number; // Consecutive failed half-open probes, drives the backoff
   failoverUntil: number;
   responseTime: number;
+  ewmaResponseTime?: number; // Smoothed latency of proxied requests
+  inFlight?: number; // Proxied requests currently awaiting a response
   methodStats?: Map<string, number>;
 }
 
+export type NodeSyncState = 'synced' | 'catching_up' | 'unknown';
+
 export interface LocalNodeStatus {
-  earliestBlockHeight: number;
-  latestBlockHeight: number;
+  state: NodeSyncState; // 'unknown' when no probe is configured or the last probe failed
+  earliestBlockHeight: number | null; // Null when the state is unknown or the probe does not report it
+  latestBlockHeight: number | null;
   catchingUp: boolean;
   lastUpdated: number;
+  upstreamId?: string; // Upstream the status was read from
+  probe?: StatusProbeType;
+  error?: string; // Why the state is unknown
 }
 
 export interface JsonRpcRequest {
@@ -106,15 +321,26 @@ export interface JsonRpcResponse {
   id: string | number;
 }
 
+// Inclusive span of blocks a request reads, with block tags resolved against the current head
+export interface BlockRange {
+  fromBlock: number;
+  toBlock: number;
+  toHead: boolean; // toBlock was omitted or a head tag such as latest
+}
+
 export interface RoutingContext {
   request: JsonRpcRequest;
   blockNumber: number | 'latest' | null;
+  blockRange?: BlockRange | null; // Block span for range queries such as eth_getLogs
   nodeStatus: LocalNodeStatus | null;
   availableUpstreams: UpstreamConfig[];
   allUpstreams: UpstreamConfig[]; // All upstreams including archives for emergency fallback
   upstreamHealth: Map<string, UpstreamHealth>;
   config: ProjectConfig;
   appConfig: AppConfig; // Reference to full app config for global settings
+  syncStates?: Map<string, UpstreamSyncState>; // Tracked block range per upstream id
+  prunedBlocks?: Map<string, number>; // Highest block each upstream answered with a pruned-state error
+  unsupportedMethods?: Map<string, Set<string>>; // Methods each upstream answered as unsupported
   selectedUpstream?: UpstreamConfig;
   error?: Error;
 }
@@ -124,6 +350,7 @@ export interface RoutingResult {
   selectedUpstream?: UpstreamConfig;
   reason: string;
   shouldContinue: boolean;
+  details?: Record<string, any>; // Extra decision data surfaced in debug output
 }
 
 export interface RoutingOperation {
@@ -161,6 +388,7 @@ export interface DebugResponse extends JsonRpcResponse {
     };
     context: {
       blockNumber: number | 'latest' | null;
+      blockRange?: BlockRange | null;
       availableUpstreams: string[];
       healthyUpstreams: string[];
       selectedUpstream?: string;
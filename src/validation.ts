@@ -154,5 +154,8 @@ export const JSON_RPC_ERRORS = {
   INVALID_REQUEST: -32600,
   METHOD_NOT_FOUND: -32601,
   INVALID_PARAMS: -32602,
-  INTERNAL_ERROR: -32603
+  INTERNAL_ERROR: -32603,
+  UNAUTHORIZED: -32001,
+  LIMIT_EXCEEDED: -32005,
+  METHOD_NOT_ALLOWED: -32006
 } as const;
\ No newline at end of file
@@ -0,0 +1,127 @@
+#!/usr/bin/env ts-node
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ApiKeyService } from '../src/services/ApiKeyService';
+import { MetricsRegistry } from '../src/services/MetricsRegistry';
+import { AuthConfig } from '../src/types';
+
+console.log('🧪 Starting API Key Tests...\n');
+
+const authConfig: AuthConfig = {
+  enabled: true,
+  keys: [
+    { id: 'indexer', key: 'key-indexer', projects: ['indexing'] },
+    { id: 'dapp', key: 'key-dapp', projects: ['gateway'], allowedMethods: ['eth_call', 'eth_get*'] },
+    { id: 'admin', key: 'key-admin', projects: ['*'] },
+    { id: 'revoked', key: 'key-revoked', enabled: false }
+  ]
+};
+
+async function runApiKeyTests(): Promise<boolean> {
+  let passed = 0;
+  let failed = 0;
+
+  const check = (name: string, condition: boolean, detail?: string) => {
+    if (condition) {
+      console.log(`✅ ${name}`);
+      passed++;
+    } else {
+      console.log(`❌ ${name}${detail ? ` - ${detail}` : ''}`);
+      failed++;
+    }
+  };
+
+  MetricsRegistry.getInstance().reset();
+  const service = new ApiKeyService(authConfig, process.cwd());
+
+  // Disabled authentication lets everything through
+  const disabled = new ApiKeyService(undefined, process.cwd());
+  const open = disabled.authorize(undefined, 'gateway');
+  check('Disabled auth allows requests without a key', open.allowed && disabled.authorizeMethod(null, 'gateway', 'debug_traceTransaction'));
+
+  // Key extraction: header wins over the path segment
+  check('Key read from default header', service.extractKey({ 'x-api-key': 'key-dapp' }, 'key-other') === 'key-dapp');
+  check('Key read from path segment', service.extractKey({}, 'key-dapp') === 'key-dapp');
+  const customHeader = new ApiKeyService({ ...authConfig, header: 'X-Gateway-Key' }, process.cwd());
+  check('Custom header name is case-insensitive', customHeader.extractKey({ 'x-gateway-key': 'key-dapp' }) === 'key-dapp');
+
+  const missing = service.authorize(undefined, 'gateway');
+  check('Missing key is rejected with 401', !missing.allowed && missing.statusCode === 401);
+
+  const unknown = service.authorize('nope', 'gateway');
+  check('Unknown key is rejected with 401', !unknown.allowed && unknown.statusCode === 401);
+
+  const revoked = service.authorize('key-revoked', 'gateway');
+  check('Disabled key is rejected', !revoked.allowed);
+
+  const wrongProject = service.authorize('key-indexer', 'gateway');
+  check('Key outside its projects is rejected with 403', !wrongProject.allowed && wrongProject.statusCode === 403);
+
+  const wildcardProject = service.authorize('key-admin', 'indexing');
+  check('Wildcard project list allows any project', wildcardProject.allowed);
+
+  const dapp = service.authorize('key-dapp', 'gateway');
+  if (dapp.allowed) {
+    check('Exact method pattern allowed', service.authorizeMethod(dapp.apiKey, 'gateway', 'eth_call'));
+    check('Wildcard method pattern allowed', service.authorizeMethod(dapp.apiKey, 'gateway', 'eth_getBalance'));
+    check('Method outside the allow list rejected', !service.authorizeMethod(dapp.apiKey, 'gateway', 'debug_traceTransaction'));
+  } else {
+    check('Valid key accepted for its project', false, dapp.message);
+  }
+
+  // Keys can also come from a separate file next to the config
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'erpc-keys-'));
+  fs.writeFileSync(path.join(tempDir, 'keys.json'), JSON.stringify([{ id: 'from-file', key: 'key-file' }]));
+  const fileService = new ApiKeyService({ enabled: true, keyFile: 'keys.json' }, tempDir);
+  check('Keys loaded from key file', fileService.authorize('key-file', 'gateway').allowed);
+
+  fs.writeFileSync(path.join(tempDir, 'bad-keys.json'), JSON.stringify([{ id: 'no-key', admin: 'yes' }]));
+  let keyFileError = '';
+  try {
+    new ApiKeyService({ enabled: true, keyFile: 'bad-keys.json' }, tempDir);
+  } catch (error) {
+    keyFileError = (error as Error).message;
+  }
+  check(
+    'Key files are validated against the key schema',
+    keyFileError.startsWith('Invalid API key file') && keyFileError.includes('["no-key"].key: ') && keyFileError.includes('["no-key"].admin: '),
+    keyFileError
+  );
+  fs.rmSync(tempDir, { recursive: true, force: true });
+
+  // Per-key counts are exported as Prometheus counters
+  const metrics = MetricsRegistry.getInstance().render([]);
+  check(
+    'Per-key request counts are exported',
+    metrics.includes('erpc_api_key_requests_total{project="gateway",key="dapp",outcome="allowed"} 2') &&
+      metrics.includes('erpc_api_key_requests_total{project="gateway",key="dapp",outcome="forbidden_method"} 1') &&
+      metrics.includes('erpc_api_key_requests_total{project="gateway",key="unknown",outcome="unauthorized"}'),
+    metrics
+  );
+  MetricsRegistry.getInstance().reset();
+
+  console.log(`\n📊 API Key Test Results:`);
+  console.log(`✅ Passed: ${passed}`);
+  console.log(`❌ Failed: ${failed}`);
+
+  if (failed === 0) {
+    console.log(`\n🎉 All API Key tests passed!`);
+  } else {
+    console.log(`\n💥 ${failed} test(s) failed.`);
+  }
+  return failed === 0;
+}
+
+// Run tests only if this file is executed directly
+if (require.main === module) {
+  runApiKeyTests()
+    .then(passed => process.exit(passed ? 0 : 1))
+    .catch(error => {
+      console.error('API key test execution failed:', error);
+      process.exit(1);
+    });
+}
+
+export { runApiKeyTests };
\ No newline at end of file
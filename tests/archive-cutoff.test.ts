@@ -0,0 +1,110 @@
+#!/usr/bin/env ts-node
+
+import { BlockBasedRoutingOps, findUnboundedFullNodes } from '../src/operations/BlockBasedRoutingOps';
+import { BlockNumberExtractor, getHistoricalMethods } from '../src/services/BlockNumberExtractor';
+import { LocalNodeStatus, ProjectConfig, UpstreamConfig } from '../src/types';
+import { createAppConfig, createProject, fullNode, route, rpc } from './helpers';
+
+console.log('🧪 Starting Archive Cutoff Tests...\n');
+
+const appConfig = createAppConfig({ historicalMethods: ['eth_getBlockByNumber'] });
+
+const archiveNode: UpstreamConfig = { id: 'archive', rpcUrl: 'http://archive.invalid', type: 'archive', priority: 10 };
+
+const nodeStatus = (latestBlockHeight: number | null): LocalNodeStatus => ({
+  state: latestBlockHeight === null ? 'unknown' : 'synced',
+  earliestBlockHeight: latestBlockHeight === null ? null : 0,
+  latestBlockHeight,
+  catchingUp: false,
+  lastUpdated: Date.now()
+});
+
+// Upstream ids the block-based filter keeps for a historical call at the given block
+const routeHistorical = (project: ProjectConfig, blockNumber: number, status: LocalNodeStatus | null) =>
+  route(new BlockBasedRoutingOps(), project, {
+    request: rpc('eth_getBlockByNumber', [`0x${blockNumber.toString(16)}`, false]),
+    blockNumber,
+    nodeStatus: status,
+    appConfig
+  });
+
+async function runArchiveCutoffTests(): Promise<boolean> {
+  let passed = 0;
+  let failed = 0;
+
+  const check = (name: string, condition: boolean, detail?: string) => {
+    if (condition) {
+      console.log(`✅ ${name}`);
+      passed++;
+    } else {
+      console.log(`❌ ${name}${detail ? ` - ${detail}` : ''}`);
+      failed++;
+    }
+  };
+
+  // historicalMethods resolution
+  const ownMethods = createProject([fullNode('full')], { historicalMethods: ['eth_getLogs'] });
+  check('Project historicalMethods replace the top-level list', getHistoricalMethods(ownMethods, appConfig).join() === 'eth_getLogs');
+  check('Top-level historicalMethods are the fallback', getHistoricalMethods(createProject([]), appConfig).join() === 'eth_getBlockByNumber');
+  check(
+    'Block extraction follows the project list',
+    new BlockNumberExtractor(ownMethods, appConfig).extract('eth_getBlockByNumber', ['0x10', false]) === null &&
+      new BlockNumberExtractor(createProject([]), appConfig).extract('eth_getBlockByNumber', ['0x10', false]) === 16
+  );
+
+  // Cutoff sources
+  const unconfigured = createProject([fullNode('full'), archiveNode]);
+  let routed = await routeHistorical(unconfigured, 100, nodeStatus(1000000));
+  check('Without a cutoff, full nodes serve old blocks', routed === 'full', routed);
+
+  const explicit = createProject([fullNode('full'), archiveNode], { archiveCutoffBlock: 500000 });
+  routed = await routeHistorical(explicit, 499999, null);
+  check('Blocks below archiveCutoffBlock go to archive nodes', routed === 'archive', routed);
+  routed = await routeHistorical(explicit, 500000, null);
+  check('Blocks at or above archiveCutoffBlock stay on full nodes', routed === 'full', routed);
+
+  const unbounded = (project: ProjectConfig) => findUnboundedFullNodes(project).map(u => u.id).join();
+  check('Full nodes without a cutoff are reported when there are archives', unbounded(unconfigured) === 'full');
+  check('archiveCutoffBlock bounds every full node', unbounded(explicit) === '');
+  check(
+    'Only full nodes without retentionBlocks are reported',
+    unbounded(createProject([fullNode('pruned', { retentionBlocks: 100 }), fullNode('open'), archiveNode])) === 'open'
+  );
+  check('Projects without archives report nothing', unbounded(createProject([fullNode('full')])) === '');
+
+  const retained = createProject([fullNode('full', { retentionBlocks: 1000 }), archiveNode], { archiveCutoffBlock: 10 });
+  routed = await routeHistorical(retained, 8999, nodeStatus(10000));
+  check('retentionBlocks counts back from the latest block', routed === 'archive', routed);
+  routed = await routeHistorical(retained, 9000, nodeStatus(10000));
+  check('Blocks inside the retention window stay on full nodes', routed === 'full', routed);
+  routed = await routeHistorical(retained, 8999, nodeStatus(null));
+  check('An unknown node status falls back to archiveCutoffBlock', routed === 'full', routed);
+
+  // Per full node retention
+  const mixed = createProject([fullNode('pruned', { retentionBlocks: 100 }), fullNode('deep', { retentionBlocks: 5000 }), archiveNode]);
+  routed = await routeHistorical(mixed, 9000, nodeStatus(10000));
+  check('Only full nodes that still hold the block are kept', routed === 'deep', routed);
+
+  console.log(`\n📊 Archive Cutoff Test Results:`);
+  console.log(`✅ Passed: ${passed}`);
+  console.log(`❌ Failed: ${failed}`);
+
+  if (failed === 0) {
+    console.log(`\n🎉 All Archive Cutoff tests passed!`);
+  } else {
+    console.log(`\n💥 ${failed} test(s) failed.`);
+  }
+  return failed === 0;
+}
+
+// Run tests only if this file is executed directly
+if (require.main === module) {
+  runArchiveCutoffTests()
+    .then(passed => process.exit(passed ? 0 : 1))
+    .catch(error => {
+      console.error('Archive cutoff test execution failed:', error);
+      process.exit(1);
+    });
+}
+
+export { runArchiveCutoffTests };
\ No newline at end of file
@@ -0,0 +1,184 @@
+#!/usr/bin/env ts-node
+
+import { ProxyResult } from '../src/services/UpstreamService';
+import { BlockAvailabilityService } from '../src/services/BlockAvailabilityService';
+import { MetricsRegistry } from '../src/services/MetricsRegistry';
+import { BlockBasedRoutingOps } from '../src/operations/BlockBasedRoutingOps';
+import { PriorityRoutingOps } from '../src/operations/PriorityRoutingOps';
+import { FallbackArchivalRoutingOps } from '../src/operations/FallbackArchivalRoutingOps';
+import { FinalSelectorOps } from '../src/operations/FinalSelectorOps';
+import { ProjectConfig, RetryConfig, UpstreamConfig } from '../src/types';
+import {
+  ScriptedUpstreamService,
+  answer,
+  createAppConfig,
+  createProject as createTestProject,
+  createReply,
+  createStrategy,
+  fullNode,
+  rpc
+} from './helpers';
+
+console.log('🧪 Starting Archive Fallback Tests...\n');
+
+const appConfig = createAppConfig({ historicalMethods: ['eth_getBalance'] });
+
+const upstreams: UpstreamConfig[] = [
+  fullNode('full-a'),
+  fullNode('full-b', { priority: 2 }),
+  { id: 'archive', rpcUrl: 'http://archive.invalid', type: 'archive', priority: 10 }
+];
+
+const createProject = (projectUpstreams: UpstreamConfig[], retry?: RetryConfig): ProjectConfig =>
+  createTestProject(projectUpstreams, {
+    id: 'fallback-test',
+    responseTimeout: 1000,
+    health: { maxConsecutiveErrors: 100 },
+    blockTracking: { enabled: false },
+    retry
+  });
+
+const pruned: ProxyResult = {
+  success: false,
+  error: 'missing trie node',
+  errorClass: 'pruned_state',
+  responseTime: 1,
+  data: { jsonrpc: '2.0', error: { code: -32000, message: 'missing trie node abc (path )' }, id: 1 }
+};
+
+const HEAD = 5000;
+
+// Full nodes listed in prunedBelow answer blocks under that height with a pruned-state error,
+// and every upstream answers blocks past the head with one
+function createRouter(project: ProjectConfig, prunedBelow: Record<string, number>) {
+  const upstreamService = new ScriptedUpstreamService(project, (upstream, request) => {
+    const block = parseInt(request.params![1], 16);
+    return block < (prunedBelow[upstream.id] ?? 0) || block > HEAD ? pruned : answer(upstream.id, request.id);
+  });
+  const blockAvailability = new BlockAvailabilityService(project);
+  (blockAvailability as any).states = new Map(project.upstreams.map(u => [
+    u.id,
+    { earliestBlock: null, latestBlock: HEAD, source: 'evm', lastUpdated: Date.now() }
+  ]));
+  const strategy = createStrategy(
+    project,
+    upstreamService,
+    [new BlockBasedRoutingOps(), new PriorityRoutingOps(), new FallbackArchivalRoutingOps(), new FinalSelectorOps()],
+    appConfig
+  );
+  strategy.setBlockAvailability(blockAvailability);
+
+  const send = async (method: string, block: number) => {
+    upstreamService.calls = [];
+    const reply = createReply();
+    await strategy.execute(
+      rpc(method, ['0x0000000000000000000000000000000000000000', `0x${block.toString(16)}`]),
+      reply,
+      { query: { debug: '1' } }
+    );
+    return { calls: upstreamService.calls.join(' → '), body: reply.body };
+  };
+  return { send, blockAvailability };
+}
+
+async function runArchiveFallbackTests(): Promise<boolean> {
+  let passed = 0;
+  let failed = 0;
+
+  const check = (name: string, condition: boolean, detail?: string) => {
+    if (condition) {
+      console.log(`✅ ${name}`);
+      passed++;
+    } else {
+      console.log(`❌ ${name}${detail ? ` - ${detail}` : ''}`);
+      failed++;
+    }
+  };
+
+  MetricsRegistry.getInstance().reset();
+  const { send, blockAvailability } = createRouter(createProject(upstreams), { 'full-a': 1000, 'full-b': 1000 });
+
+  let result = await send('eth_getBalance', 100);
+  check(
+    'A pruned-state error on a full node re-routes straight to an archive',
+    result.calls === 'full-a → archive' && result.body?.result === 'archive',
+    JSON.stringify(result.calls)
+  );
+  const fallbackEvent = result.body?.debug?.strategy.events.find((e: any) => e.operation === 'archive_fallback');
+  check(
+    'The re-route is visible in debug events',
+    fallbackEvent?.data.from === 'full-a' && fallbackEvent.data.to === 'archive' && fallbackEvent.data.blockNumber === 100,
+    JSON.stringify(fallbackEvent)
+  );
+  check(
+    'The pruned block is learned for the upstream',
+    blockAvailability.getPrunedBlocks().get('full-a') === 100 && blockAvailability.getStatus().prunedBlocks['full-a'] === 100,
+    JSON.stringify(blockAvailability.getStatus().prunedBlocks)
+  );
+
+  result = await send('eth_getBalance', 50);
+  check(
+    'Older blocks skip the upstream that pruned them',
+    result.calls === 'full-b → archive' && result.body?.result === 'archive',
+    result.calls
+  );
+  result = await send('eth_getBalance', 2000);
+  check('Newer blocks still go to the full node', result.calls === 'full-a' && result.body?.result === 'full-a', result.calls);
+
+  const metrics = MetricsRegistry.getInstance().render([], 'fallback-test');
+  check(
+    'Fallbacks are counted separately in metrics',
+    metrics.includes('erpc_archive_fallbacks_total{project="fallback-test",upstream="full-a",archive="archive"} 1') &&
+      metrics.includes('erpc_archive_fallbacks_total{project="fallback-test",upstream="full-b",archive="archive"} 1'),
+    metrics.split('\n').filter(line => line.startsWith('erpc_archive')).join('; ')
+  );
+
+  result = await send('eth_getBalance', HEAD + 1000);
+  check(
+    'Blocks past the head are not learned as pruned and do not trigger the fallback',
+    !result.body?.debug?.strategy.events.some((e: any) => e.operation === 'archive_fallback') &&
+      blockAvailability.getPrunedBlocks().get('full-a') === 100 && blockAvailability.getPrunedBlocks().get('full-b') === 50,
+    JSON.stringify(blockAvailability.getStatus().prunedBlocks)
+  );
+
+  // The fallback is not bound by the retry policy
+  const strict = createRouter(createProject(upstreams, { maxAttempts: 1, retryOn: [] }), { 'full-a': 1000 });
+  result = await strict.send('eth_getBalance', 100);
+  check('The fallback happens even when retries are off', result.calls === 'full-a → archive', result.calls);
+
+  // Without an archive that can help, the normal retry policy applies
+  const noArchive = createRouter(createProject(upstreams.slice(0, 2)), { 'full-a': 1000 });
+  result = await noArchive.send('eth_getBalance', 100);
+  check('Without archives the request fails over as before', result.calls === 'full-a → full-b' && result.body?.result === 'full-b', result.calls);
+
+  const archiveOnly = createRouter(createProject([upstreams[2]]), { archive: 1000 });
+  result = await archiveOnly.send('eth_getBalance', 100);
+  check(
+    'Pruned-state errors from archives are forwarded',
+    result.calls === 'archive' && !!result.body?.error?.message.startsWith('missing trie node'),
+    JSON.stringify(result)
+  );
+
+  console.log(`\n📊 Archive Fallback Test Results:`);
+  console.log(`✅ Passed: ${passed}`);
+  console.log(`❌ Failed: ${failed}`);
+
+  if (failed === 0) {
+    console.log(`\n🎉 All Archive Fallback tests passed!`);
+  } else {
+    console.log(`\n💥 ${failed} test(s) failed.`);
+  }
+  return failed === 0;
+}
+
+// Run tests only if this file is executed directly
+if (require.main === module) {
+  runArchiveFallbackTests()
+    .then(passed => process.exit(passed ? 0 : 1))
+    .catch(error => {
+      console.error('Archive fallback test execution failed:', error);
+      process.exit(1);
+    });
+}
+
+export { runArchiveFallbackTests };
\ No newline at end of file
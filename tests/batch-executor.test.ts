@@ -0,0 +1,221 @@
+#!/usr/bin/env ts-node
+
+import {
+  BatchServices,
+  executeGroupedBatch,
+  executeProjectRequest,
+  mapWithConcurrency
+} from '../src/services/BatchExecutor';
+import { ProxyResult } from '../src/services/UpstreamService';
+import { ResponseCache } from '../src/services/ResponseCache';
+import { BlockNumberExtractor } from '../src/services/BlockNumberExtractor';
+import { NodeStatusService } from '../src/services/NodeStatusService';
+import { MethodRoutingOps } from '../src/operations/MethodRoutingOps';
+import { PriorityRoutingOps } from '../src/operations/PriorityRoutingOps';
+import { FinalSelectorOps } from '../src/operations/FinalSelectorOps';
+import { JsonRpcRequest, UpstreamConfig } from '../src/types';
+import {
+  ProjectOverrides,
+  ScriptedAnswer,
+  ScriptedUpstreamService,
+  answer,
+  createAppConfig,
+  createProject,
+  createStrategy,
+  fullNode,
+  rpc
+} from './helpers';
+
+console.log('🧪 Starting Batch Executor Tests...\n');
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Classified like UpstreamService does; inside an upstream batch only the item payload is kept
+const rateLimited = (request: JsonRpcRequest): ProxyResult => ({
+  success: false,
+  error: 'rate limit exceeded',
+  errorClass: 'rate_limited',
+  responseTime: 1,
+  data: { jsonrpc: '2.0', error: { code: -32005, message: 'rate limit exceeded' }, id: request.id }
+});
+
+// Upstream "a" ignores trace_* methods, so those items are routed to "b".
+// Upstream extras apply to both upstreams
+const createBatchProject = (extra: Partial<UpstreamConfig> = {}, overrides: ProjectOverrides = {}) =>
+  createProject(
+    [fullNode('a', { ignoredMethods: ['trace_*'], ...extra }), fullNode('b', { priority: 2, ...extra })],
+    { blockTracking: { enabled: false }, ...overrides }
+  );
+
+function createServices(script: ScriptedAnswer, project = createBatchProject()) {
+  const appConfig = createAppConfig();
+  const upstreamService = new ScriptedUpstreamService(project, script);
+  const services: BatchServices = {
+    upstreamService,
+    strategy: createStrategy(project, upstreamService, [new MethodRoutingOps(), new PriorityRoutingOps(), new FinalSelectorOps()]),
+    responseCache: new ResponseCache(
+      project.id,
+      { enabled: false },
+      new BlockNumberExtractor(project, appConfig),
+      new NodeStatusService(project, appConfig)
+    )
+  };
+  return { services, upstreamService };
+}
+
+async function runBatchExecutorTests(): Promise<boolean> {
+  let passed = 0;
+  let failed = 0;
+
+  const check = (name: string, condition: boolean, detail?: string) => {
+    if (condition) {
+      console.log(`✅ ${name}`);
+      passed++;
+    } else {
+      console.log(`❌ ${name}${detail ? ` - ${detail}` : ''}`);
+      failed++;
+    }
+  };
+
+  // Concurrency
+  let inFlight = 0;
+  let maxInFlight = 0;
+  const delays = [30, 5, 20, 1, 10, 2];
+  const mapped = await mapWithConcurrency(delays, 2, async (delay, index) => {
+    inFlight++;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    await sleep(delay);
+    inFlight--;
+    return index;
+  });
+  check('Results keep the input order', mapped.join() === '0,1,2,3,4,5', mapped.join());
+  check('No more workers than the limit run at once', maxInFlight === 2, `max ${maxInFlight}`);
+  check('A limit below one still runs the items', (await mapWithConcurrency([1, 2], 0, async n => n * 2)).join() === '2,4');
+  check('An empty list maps to an empty list', (await mapWithConcurrency([], 4, async n => n)).length === 0);
+
+  // Per-item execution: slower items must not reorder the responses
+  const perItem = createServices(async (upstream, request) => {
+    await sleep(request.method === 'eth_chainId' ? 20 : 1);
+    return answer(`${upstream.id}:${request.method}`, request.id);
+  });
+  const items = [rpc('eth_chainId', [], 'x'), rpc('eth_blockNumber', [], 'y'), rpc('trace_block', [], 'z')];
+  const perItemResults = await mapWithConcurrency(items, 3, request => executeProjectRequest(perItem.services, request));
+  check(
+    'Concurrent batch items are answered in request order with their own ids',
+    perItemResults.map(r => `${r.response.id}=${r.response.result}`).join() === 'x=a:eth_chainId,y=a:eth_blockNumber,z=b:trace_block',
+    JSON.stringify(perItemResults.map(r => r.response))
+  );
+  check('Each item reports the upstream that served it', perItemResults.map(r => r.upstreamUsed).join() === 'a,a,b');
+
+  // Grouping by upstream
+  const grouped = createServices((upstream, request) => answer(`${upstream.id}:${request.method}`, request.id));
+  const batch = [
+    rpc('eth_chainId', [], 'x'),
+    rpc('trace_block', [], 'y'),
+    rpc('eth_blockNumber', [], 'x'),
+    rpc('trace_call', [], 7)
+  ];
+  const groupedResults = await executeGroupedBatch(grouped.services, batch, undefined, 4);
+  check(
+    'Items that share an upstream are sent as one upstream batch call',
+    [...grouped.upstreamService.calls].sort().join() === 'a,b',
+    grouped.upstreamService.calls.join()
+  );
+  check(
+    'Grouped responses follow the request order',
+    groupedResults.map(r => r.response.result).join() === 'a:eth_chainId,b:trace_block,a:eth_blockNumber,b:trace_call',
+    JSON.stringify(groupedResults.map(r => r.response))
+  );
+  check(
+    'Duplicate client ids are restored per item',
+    groupedResults.map(r => JSON.stringify(r.response.id)).join() === '"x","y","x",7'
+  );
+
+  // Fallback of failed group items
+  let balanceCalls = 0;
+  const flaky = createServices((upstream, request) =>
+    request.method === 'eth_getBalance' && balanceCalls++ === 0
+      ? rateLimited(request)
+      : answer(`${upstream.id}:${request.method}`, request.id)
+  );
+  const flakyResults = await executeGroupedBatch(
+    flaky.services,
+    [rpc('eth_chainId', [], 1), rpc('eth_getBalance', ['0x0', 'latest'], 2)],
+    undefined,
+    4
+  );
+  check(
+    'An item failing inside the group batch is retried on its own',
+    flaky.upstreamService.calls.join() === 'a,a' && flakyResults[1].response.result === 'a:eth_getBalance',
+    `${flaky.upstreamService.calls.join()} ${JSON.stringify(flakyResults[1].response)}`
+  );
+  check(
+    'Items answered by the group batch are not sent again',
+    balanceCalls === 2 && flakyResults[0].response.result === 'a:eth_chainId' && flakyResults[0].success
+  );
+
+  const down = createServices((upstream, request) =>
+    upstream.id === 'a' ? rateLimited(request) : answer(`${upstream.id}:${request.method}`, request.id)
+  );
+  const downResults = await executeGroupedBatch(down.services, [rpc('eth_chainId', [], 1)], undefined, 4);
+  check(
+    'A fallback item fails over like a single request',
+    downResults[0].response.result === 'b:eth_chainId' && downResults[0].upstreamUsed === 'b',
+    JSON.stringify(downResults[0])
+  );
+
+  // eth_getLogs ranges over the upstream's limit take the per-request path
+  const logsScript: ScriptedAnswer = (upstream, request) =>
+    request.method === 'eth_getLogs'
+      ? answer([{ upstream: upstream.id, fromBlock: request.params![0].fromBlock }], request.id)
+      : answer(`${upstream.id}:${request.method}`, request.id);
+  const logsBatch = [rpc('eth_chainId', [], 1), rpc('eth_getLogs', [{ fromBlock: '0x1', toBlock: '0xc8' }], 2)];
+
+  const split = createServices(logsScript, createBatchProject({ maxLogsBlockRange: 100 }));
+  const splitResults = await executeGroupedBatch(split.services, logsBatch, undefined, 4);
+  check(
+    'An over-range eth_getLogs item is split instead of joining the upstream batch',
+    split.upstreamService.calls.join() === 'a,a,a' &&
+      splitResults[1].response.result?.map((log: any) => log.fromBlock).join() === '0x1,0x65',
+    `${split.upstreamService.calls.join()} ${JSON.stringify(splitResults[1].response)}`
+  );
+  check('Other items of the batch are still grouped', splitResults[0].response.result === 'a:eth_chainId');
+
+  const rejected = createServices(
+    logsScript,
+    createBatchProject({ maxLogsBlockRange: 100 }, { logs: { onRangeExceeded: 'reject', maxSplitRequests: 10 } })
+  );
+  const rejectedResults = await executeGroupedBatch(rejected.services, logsBatch, undefined, 4);
+  check(
+    'An over-range eth_getLogs item is rejected when splitting is off',
+    rejected.upstreamService.calls.join() === 'a' && !!rejectedResults[1].response.error,
+    `${rejected.upstreamService.calls.join()} ${JSON.stringify(rejectedResults[1].response)}`
+  );
+
+  const withinLimit = createServices(logsScript, createBatchProject({ maxLogsBlockRange: 1000 }));
+  await executeGroupedBatch(withinLimit.services, logsBatch, undefined, 4);
+  check('eth_getLogs within the limit is grouped', withinLimit.upstreamService.calls.join() === 'a');
+
+  console.log(`\n📊 Batch Executor Test Results:`);
+  console.log(`✅ Passed: ${passed}`);
+  console.log(`❌ Failed: ${failed}`);
+
+  if (failed === 0) {
+    console.log(`\n🎉 All Batch Executor tests passed!`);
+  } else {
+    console.log(`\n💥 ${failed} test(s) failed.`);
+  }
+  return failed === 0;
+}
+
+// Run tests only if this file is executed directly
+if (require.main === module) {
+  runBatchExecutorTests()
+    .then(passed => process.exit(passed ? 0 : 1))
+    .catch(error => {
+      console.error('Batch executor test execution failed:', error);
+      process.exit(1);
+    });
+}
+
+export { runBatchExecutorTests };
\ No newline at end of file
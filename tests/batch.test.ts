@@ -4,7 +4,7 @@ import fetch from 'node-fetch';
 import fs from 'fs';
 import path from 'path';
 
-async function runBatchRequestTests(): Promise<void> {
+async function runBatchRequestTests(): Promise<boolean> {
   // Load config (from dist/tests/ to root)
   const configPath = path.join(__dirname, '../../config.json');
   const config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
@@ -320,18 +320,19 @@ async function runBatchRequestTests(): Promise<void> {
 
   if (passedTests === totalTests) {
     console.log(`   ✅ All tests passed!`);
-    process.exit(0);
   } else {
     console.log(`   ❌ ${totalTests - passedTests} tests failed`);
-    process.exit(1);
   }
+  return passedTests === totalTests;
 }
 
 if (require.main === module) {
-  runBatchRequestTests().catch((error) => {
-    console.error('Batch test runner error:', error);
-    process.exit(1);
-  });
+  runBatchRequestTests()
+    .then(passed => process.exit(passed ? 0 : 1))
+    .catch((error) => {
+      console.error('Batch test runner error:', error);
+      process.exit(1);
+    });
 }
 
 export { runBatchRequestTests };
\ No newline at end of file
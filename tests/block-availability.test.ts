@@ -0,0 +1,161 @@
+#!/usr/bin/env ts-node
+
+import { BlockAvailabilityService } from '../src/services/BlockAvailabilityService';
+import { BlockBasedRoutingOps } from '../src/operations/BlockBasedRoutingOps';
+import { ProjectConfig, UpstreamSyncState } from '../src/types';
+import { MockHttpAnswer, createAppConfig, createProject, route, rpc, startMockNode } from './helpers';
+
+console.log('🧪 Starting Block Availability Tests...\n');
+
+const appConfig = createAppConfig({ historicalMethods: ['eth_getBalance'] });
+
+interface MockChainNode {
+  earliest: number; // Oldest block with state, eth_getBalance fails below it
+  latest: number;
+}
+
+// JSON-RPC node on /<name> plus a Tendermint status endpoint on /<name>/status
+function startMockNodes(nodes: Record<string, MockChainNode>) {
+  const statusRoutes: Record<string, () => MockHttpAnswer> = {};
+  Object.entries(nodes).forEach(([name, node]) => {
+    statusRoutes[`/${name}/status`] = () => ({
+      body: { sync_info: { earliest_block_height: String(node.earliest), latest_block_height: String(node.latest), catching_up: false } }
+    });
+  });
+
+  return startMockNode((request, path) => {
+    const node = nodes[path.slice(1)];
+    if (request.method === 'eth_blockNumber') return { result: `0x${node.latest.toString(16)}` };
+    if (request.method === 'eth_syncing') return { result: false };
+    if (parseInt(request.params![1], 16) < node.earliest) return { error: { code: -32000, message: 'missing trie node' } };
+    return { result: '0x0' };
+  }, statusRoutes);
+}
+
+// Upstream ids the block-based filter keeps for a historical call at the given block
+const routeHistorical = (project: ProjectConfig, blockNumber: number, syncStates: Map<string, UpstreamSyncState>) =>
+  route(new BlockBasedRoutingOps(), project, {
+    request: rpc('eth_getBalance', ['0x0', `0x${blockNumber.toString(16)}`]),
+    blockNumber,
+    availableUpstreams: project.upstreams.filter(u => u.type !== 'archive'),
+    appConfig,
+    syncStates
+  });
+
+async function runBlockAvailabilityTests(): Promise<boolean> {
+  let passed = 0;
+  let failed = 0;
+
+  const check = (name: string, condition: boolean, detail?: string) => {
+    if (condition) {
+      console.log(`✅ ${name}`);
+      passed++;
+    } else {
+      console.log(`❌ ${name}${detail ? ` - ${detail}` : ''}`);
+      failed++;
+    }
+  };
+
+  const node = await startMockNodes({
+    pruned: { earliest: 9000, latest: 10000 },
+    lagging: { earliest: 6000, latest: 9500 },
+    tendermint: { earliest: 5000, latest: 10000 },
+    archive: { earliest: 0, latest: 10000 }
+  });
+
+  const url = (path: string) => node.url(`/${path}`);
+  const calls = () => node.requests.map(r => `${r.path.slice(1)}:${r.method}`);
+  try {
+    const project = createProject([
+      { id: 'pruned', rpcUrl: url('pruned'), type: 'full', priority: 1 },
+      { id: 'lagging', rpcUrl: url('lagging'), type: 'full', priority: 1 },
+      { id: 'tendermint', rpcUrl: url('tendermint'), statusUrl: url('tendermint/status'), type: 'full', priority: 1 },
+      { id: 'archive', rpcUrl: url('archive'), type: 'archive', priority: 10, evmStartBlock: 100 }
+    ], { blockTracking: { probeEarliest: true } });
+
+    const service = new BlockAvailabilityService(project);
+    await service.refresh();
+    const states = service.getSyncStates();
+
+    // Polling
+    check(
+      'The earliest block of full nodes is found by probing',
+      states.get('pruned')?.earliestBlock === 9000 && states.get('pruned')?.latestBlock === 10000,
+      JSON.stringify(states.get('pruned'))
+    );
+    check(
+      'Upstreams with a statusUrl report their range via Tendermint',
+      states.get('tendermint')?.source === 'tendermint' && states.get('tendermint')?.earliestBlock === 5000
+    );
+    check(
+      'Archive nodes start at evmStartBlock without probing',
+      states.get('archive')?.earliestBlock === 100 && !calls().includes('archive:eth_getBalance')
+    );
+    check('The chain head is the highest latest block', service.getChainHead() === 10000);
+
+    const probes = calls().filter(call => call === 'pruned:eth_getBalance').length;
+    await service.refresh();
+    check(
+      'The earliest-block probe is not repeated before probeIntervalMs',
+      calls().filter(call => call === 'pruned:eth_getBalance').length === probes && calls().filter(call => call === 'pruned:eth_blockNumber').length === 2
+    );
+
+    const unprobed = new BlockAvailabilityService({ ...project, blockTracking: undefined });
+    await unprobed.refresh();
+    check(
+      'Full nodes are not probed for their earliest block by default',
+      unprobed.getSyncStates().get('pruned')?.earliestBlock === null &&
+        calls().filter(call => call === 'pruned:eth_getBalance').length === probes
+    );
+
+    // Routing
+    let routed = await routeHistorical(project, 9800, states);
+    check('Nodes behind the chain head are excluded', routed === 'pruned,tendermint', routed);
+    routed = await routeHistorical(project, 7000, states);
+    check('Nodes that pruned the block are excluded', routed === 'lagging,tendermint', routed);
+    routed = await routeHistorical(project, 3000, states);
+    check('Blocks no full node holds go to archive nodes', routed === 'archive', routed);
+    routed = await routeHistorical(project, 10001, states);
+    check('Blocks past every known head are not treated as behind', routed === 'pruned,lagging,tendermint', routed);
+
+    // Failures keep the last known range
+    const unreachable = createProject([{ id: 'down', rpcUrl: 'http://127.0.0.1:1', type: 'full', priority: 1 }]);
+    const failing = new BlockAvailabilityService(unreachable);
+    await failing.refresh();
+    check(
+      'Unreachable upstreams record the error with an unknown range',
+      !!failing.getSyncState('down')?.error && failing.getSyncState('down')?.latestBlock === null
+    );
+    routed = await routeHistorical(unreachable, 5, failing.getSyncStates());
+    check('Unknown ranges do not exclude an upstream', routed === 'down', routed);
+
+    const disabled = new BlockAvailabilityService(createProject(project.upstreams, { blockTracking: { enabled: false } }));
+    await disabled.refresh();
+    check('Disabled tracking does not poll', disabled.getSyncStates().size === 0);
+  } finally {
+    await node.close();
+  }
+
+  console.log(`\n📊 Block Availability Test Results:`);
+  console.log(`✅ Passed: ${passed}`);
+  console.log(`❌ Failed: ${failed}`);
+
+  if (failed === 0) {
+    console.log(`\n🎉 All Block Availability tests passed!`);
+  } else {
+    console.log(`\n💥 ${failed} test(s) failed.`);
+  }
+  return failed === 0;
+}
+
+// Run tests only if this file is executed directly
+if (require.main === module) {
+  runBlockAvailabilityTests()
+    .then(passed => process.exit(passed ? 0 : 1))
+    .catch(error => {
+      console.error('Block availability test execution failed:', error);
+      process.exit(1);
+    });
+}
+
+export { runBlockAvailabilityTests };
\ No newline at end of file
@@ -0,0 +1,179 @@
+#!/usr/bin/env ts-node
+
+import { DefaultRoutingStrategy } from '../src/strategy/RoutingStrategy';
+import { UpstreamService } from '../src/services/UpstreamService';
+import { BlockNumberExtractor } from '../src/services/BlockNumberExtractor';
+import { NodeStatusService } from '../src/services/NodeStatusService';
+import { BlockHashIndex, getHashReference } from '../src/services/BlockHashIndex';
+import { BlockBasedRoutingOps } from '../src/operations/BlockBasedRoutingOps';
+import { PriorityRoutingOps } from '../src/operations/PriorityRoutingOps';
+import { FinalSelectorOps } from '../src/operations/FinalSelectorOps';
+import { UpstreamConfig } from '../src/types';
+import {
+  ProjectOverrides,
+  ScriptedUpstreamService,
+  answer,
+  createAppConfig,
+  createProject as createTestProject,
+  createReply,
+  rpc,
+  startMockNode
+} from './helpers';
+
+console.log('🧪 Starting Block Hash Index Tests...\n');
+
+const appConfig = createAppConfig({
+  historicalMethods: ['eth_getTransactionReceipt', 'eth_getBlockByHash', 'eth_getLogs']
+});
+
+const BLOCK_HASH = '0xB10C';
+const TX_HASH = '0x7A';
+
+const createProject = (upstreams: UpstreamConfig[], overrides: ProjectOverrides = {}) =>
+  createTestProject(upstreams, { archiveCutoffBlock: 5000, ...overrides });
+
+async function runBlockHashIndexTests(): Promise<boolean> {
+  let passed = 0;
+  let failed = 0;
+
+  const check = (name: string, condition: boolean, detail?: string) => {
+    if (condition) {
+      console.log(`✅ ${name}`);
+      passed++;
+    } else {
+      console.log(`❌ ${name}${detail ? ` - ${detail}` : ''}`);
+      failed++;
+    }
+  };
+
+  // Hash references
+  check(
+    'Requests are matched to the block or transaction hash they address',
+    JSON.stringify(getHashReference('eth_getBlockByHash', [BLOCK_HASH, false])) === '{"kind":"block","hash":"0xb10c"}' &&
+      getHashReference('debug_traceTransaction', [TX_HASH])?.kind === 'transaction' &&
+      getHashReference('eth_getLogs', [{ blockHash: BLOCK_HASH }])?.hash === '0xb10c' &&
+      getHashReference('eth_getLogs', [{ fromBlock: '0x1' }]) === null &&
+      getHashReference('eth_getBlockByNumber', ['0x1', false]) === null
+  );
+
+  // Learning
+  const project = createProject([]);
+  const index = new BlockHashIndex(project, new UpstreamService(project));
+  index.learn({ number: '0x10', hash: '0xAA', transactions: ['0xT1', { hash: '0xT2', blockNumber: '0x10' }] });
+  index.learn({ transactionHash: '0xT3', blockHash: '0xBB', blockNumber: '0x11' });
+  index.learn([{ transactionHash: '0xT4', blockHash: '0xCC', blockNumber: '0x12', logIndex: '0x0' }]);
+  index.learn({ hash: '0xPENDING', blockHash: null, blockNumber: null });
+  check(
+    'Blocks, transactions, receipts and logs teach the index',
+    index.get('0xaa') === 16 && index.get('0xT1') === 16 && index.get('0xT2') === 16 &&
+      index.get('0xBB') === 17 && index.get('0xT3') === 17 && index.get('0xCC') === 18 && index.get('0xT4') === 18,
+    JSON.stringify(index.getStats())
+  );
+  check('Pending transactions are not indexed', index.get('0xPENDING') === null);
+
+  const small = new BlockHashIndex(createProject([], { hashIndex: { maxEntries: 2 } }), new UpstreamService(project));
+  small.set('0x1', 1);
+  small.set('0x2', 2);
+  small.get('0x1');
+  small.set('0x3', 3);
+  check('The least recently used hash is evicted', small.get('0x1') === 1 && small.get('0x2') === null && small.get('0x3') === 3);
+
+  const disabled = new BlockHashIndex(createProject([], { hashIndex: { enabled: false } }), new UpstreamService(project));
+  disabled.learn({ number: '0x10', hash: '0xAA' });
+  check('A disabled index learns nothing', disabled.get('0xAA') === null && disabled.getStats().entries === 0);
+
+  // Extraction
+  const extractor = new BlockNumberExtractor(project, appConfig);
+  check('Without an index by-hash requests have no block', extractor.extract('eth_getBlockByHash', ['0xaa', false]) === null);
+  extractor.setBlockHashIndex(index);
+  check(
+    'By-hash requests and blockHash log filters resolve through the index',
+    extractor.extract('eth_getBlockByHash', ['0xaa', false]) === 16 &&
+      extractor.extract('eth_getTransactionReceipt', ['0xt3']) === 17 &&
+      extractor.extract('eth_getLogs', [{ blockHash: '0xCC' }]) === 18
+  );
+  check('Methods outside historicalMethods are not resolved', extractor.extract('eth_getTransactionByHash', ['0xT1']) === null);
+
+  // Routing
+  const full: UpstreamConfig = { id: 'full', rpcUrl: 'http://full.invalid', type: 'full', priority: 1 };
+  const archive: UpstreamConfig = { id: 'archive', rpcUrl: 'http://archive.invalid', type: 'archive', priority: 2 };
+  const routedProject = createProject([full, archive]);
+  // Every call is answered with a receipt in block 100
+  const upstreamService = new ScriptedUpstreamService(routedProject, () =>
+    answer({ transactionHash: TX_HASH, blockHash: BLOCK_HASH, blockNumber: '0x64' })
+  );
+  const routedIndex = new BlockHashIndex(routedProject, upstreamService);
+  const routedExtractor = new BlockNumberExtractor(routedProject, appConfig);
+  routedExtractor.setBlockHashIndex(routedIndex);
+  const strategy = new DefaultRoutingStrategy(upstreamService, routedExtractor, new NodeStatusService(routedProject, appConfig), appConfig);
+  strategy.setBlockHashIndex(routedIndex);
+  strategy.registerPipe([new BlockBasedRoutingOps(), new PriorityRoutingOps(), new FinalSelectorOps()]);
+  const reply = createReply();
+
+  await strategy.execute(rpc('eth_getTransactionReceipt', [TX_HASH]), reply);
+  check('An unknown hash is routed as a non-block request', upstreamService.calls.join() === 'full', upstreamService.calls.join());
+  await strategy.execute(rpc('eth_getTransactionReceipt', [TX_HASH]), reply);
+  check(
+    'Once learned from the response, the hash routes by its block',
+    upstreamService.calls.join() === 'full,archive',
+    upstreamService.calls.join()
+  );
+
+  // Lookups
+  // Answers eth_getTransactionByHash for TX_HASH only
+  const node = await startMockNode(request => ({
+    result: request.params![0] === TX_HASH.toLowerCase() ? { hash: TX_HASH, blockHash: BLOCK_HASH, blockNumber: '0x64' } : null
+  }));
+  const url = node.url();
+  const calls = () => node.requests.map(r => r.method);
+  try {
+    const lookupProject = createProject([{ ...full, rpcUrl: url }], { hashIndex: { lookup: true } });
+    const lookupIndex = new BlockHashIndex(lookupProject, new UpstreamService(lookupProject));
+    await Promise.all([
+      lookupIndex.resolve(rpc('eth_getTransactionReceipt', [TX_HASH])),
+      lookupIndex.resolve(rpc('eth_getTransactionReceipt', [TX_HASH]))
+    ]);
+    check(
+      'Lookups resolve unknown hashes with one shared call',
+      lookupIndex.get(TX_HASH) === 100 && lookupIndex.get(BLOCK_HASH) === 100 && calls().join() === 'eth_getTransactionByHash',
+      calls().join()
+    );
+
+    await lookupIndex.resolve(rpc('eth_getTransactionReceipt', [TX_HASH]));
+    await lookupIndex.resolve(rpc('eth_getBlockByHash', ['0xdead', false]));
+    check(
+      'Known hashes are not looked up again and unknown results stay unresolved',
+      calls().join() === 'eth_getTransactionByHash,eth_getBlockByHash' && lookupIndex.get('0xdead') === null,
+      calls().join()
+    );
+
+    const passive = new BlockHashIndex(createProject([{ ...full, rpcUrl: url }]), new UpstreamService(lookupProject));
+    await passive.resolve(rpc('eth_getTransactionReceipt', [TX_HASH]));
+    check('Lookups are off by default', calls().length === 2 && passive.get(TX_HASH) === null);
+  } finally {
+    await node.close();
+  }
+
+  console.log(`\n📊 Block Hash Index Test Results:`);
+  console.log(`✅ Passed: ${passed}`);
+  console.log(`❌ Failed: ${failed}`);
+
+  if (failed === 0) {
+    console.log(`\n🎉 All Block Hash Index tests passed!`);
+  } else {
+    console.log(`\n💥 ${failed} test(s) failed.`);
+  }
+  return failed === 0;
+}
+
+// Run tests only if this file is executed directly
+if (require.main === module) {
+  runBlockHashIndexTests()
+    .then(passed => process.exit(passed ? 0 : 1))
+    .catch(error => {
+      console.error('Block hash index test execution failed:', error);
+      process.exit(1);
+    });
+}
+
+export { runBlockHashIndexTests };
\ No newline at end of file
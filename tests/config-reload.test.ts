@@ -0,0 +1,234 @@
+#!/usr/bin/env ts-node
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { diffConfigs } from '../src/services/ConfigDiff';
+import { UpstreamService } from '../src/services/UpstreamService';
+import { CONFIG_PATH_ENV } from '../src/configLoader';
+import { loadConfig, reloadConfig } from '../src/server';
+import { AppConfig, ProjectConfig, UpstreamConfig } from '../src/types';
+import { createAppConfig } from './helpers';
+
+console.log('🧪 Starting Config Reload Tests...\n');
+
+function createProject(id: string, upstreams: UpstreamConfig[]): ProjectConfig {
+  return {
+    id,
+    upstreams,
+    errorRateThreshold: 0.5,
+    statusCheckInterval: 60000,
+    responseTimeout: 2000,
+    health: {
+      errorRateWindowMs: 60000,
+      maxConsecutiveErrors: 1,
+      failoverCooldownMs: 60000,
+      nodeStatusTimeoutMs: 1000
+    }
+  };
+}
+
+const upstream = (id: string, priority = 1): UpstreamConfig => ({
+  id,
+  rpcUrl: `http://${id}.invalid`,
+  type: 'full',
+  priority
+});
+
+function createConfig(projects: ProjectConfig[]): AppConfig {
+  return {
+    server: { host: '127.0.0.1', port: 1099 },
+    timeouts: { maxErrorTimeoutMs: 1000, defaultResponseTimeoutMs: 2000, defaultNodeStatusTimeoutMs: 1000 },
+    historicalMethods: ['eth_getBalance'],
+    projects,
+    defaultProject: projects[0].id,
+    testing: {} as AppConfig['testing'],
+    logging: {} as AppConfig['logging']
+  };
+}
+
+// A plugin whose operation refuses to be built without a list of upstream ids
+const STRICT_PLUGIN_SOURCE = `
+exports.register = registry => {
+  registry.register('OnlyUpstreams', ({ options }) => {
+    if (!Array.isArray(options.ids)) throw new Error('OnlyUpstreams needs a list of ids');
+    return {
+      name: 'OnlyUpstreams',
+      execute: async context => {
+        const filteredUpstreams = context.availableUpstreams.filter(u => options.ids.includes(u.id));
+        return { filteredUpstreams, reason: 'Kept ' + options.ids.join(), shouldContinue: filteredUpstreams.length > 0 };
+      }
+    };
+  });
+};
+`;
+
+// Config file for the gateway's own loadConfig/reloadConfig, with upstreams listed out of priority order
+function createConfigFile(ids: unknown): AppConfig {
+  return createAppConfig({
+    defaultProject: 'main',
+    plugins: ['./only-upstreams.js'],
+    projects: [{
+      ...createProject('main', [upstream('b', 2), upstream('a', 1)]),
+      healthCheck: { enabled: false },
+      pipeline: [{ operation: 'OnlyUpstreams', options: { ids } }, 'FinalSelector']
+    }],
+    // The logger is process-wide, so keep the settings other suites rely on
+    logging: {
+      level: 'info',
+      enableColors: true,
+      logRequests: true,
+      logUpstreamHealth: true,
+      logRoutingDecisions: true,
+      debug: false,
+      production: false
+    }
+  });
+}
+
+async function runConfigReloadTests(): Promise<boolean> {
+  let passed = 0;
+  let failed = 0;
+
+  const check = (name: string, condition: boolean, detail?: string) => {
+    if (condition) {
+      console.log(`✅ ${name}`);
+      passed++;
+    } else {
+      console.log(`❌ ${name}${detail ? ` - ${detail}` : ''}`);
+      failed++;
+    }
+  };
+
+  const previous = createConfig([
+    createProject('main', [upstream('a'), upstream('b')]),
+    createProject('stable', [upstream('c')]),
+    createProject('retired', [upstream('d')])
+  ]);
+  const next = createConfig([
+    createProject('main', [upstream('a', 2), upstream('e')]),
+    createProject('stable', [upstream('c')]),
+    createProject('fresh', [upstream('f')])
+  ]);
+
+  // Project and upstream diff
+  const diff = diffConfigs(previous, next);
+  check(
+    'Projects are classified as added, removed, changed and unchanged',
+    diff.addedProjects.join() === 'fresh' && diff.removedProjects.join() === 'retired' &&
+      diff.changedProjects.join() === 'main' && diff.unchangedProjects.join() === 'stable',
+    JSON.stringify(diff)
+  );
+  check(
+    'Upstream changes are reported per changed project',
+    JSON.stringify(diff.upstreams.main) === JSON.stringify({ added: ['e'], removed: ['b'], changed: ['a'] }),
+    JSON.stringify(diff.upstreams)
+  );
+
+  const sharedChange = diffConfigs(previous, { ...previous, historicalMethods: ['eth_call'] });
+  check(
+    'Shared settings mark every project as changed',
+    sharedChange.changedProjects.length === 3 && sharedChange.unchangedProjects.length === 0
+  );
+
+  const serverChange = diffConfigs(previous, { ...previous, server: { host: '0.0.0.0', port: 2000 } });
+  check('Server changes are flagged as requiring a restart', serverChange.restartRequired.join() === 'server');
+
+  const pluginChange = diffConfigs(previous, { ...previous, plugins: ['./plugins/routing.js'] });
+  check(
+    'Plugin changes require a restart and leave projects unchanged',
+    pluginChange.restartRequired.join() === 'plugins' && pluginChange.changedProjects.length === 0,
+    JSON.stringify(pluginChange)
+  );
+
+  // Health state carries over for upstream ids that still exist
+  const before = new UpstreamService(previous.projects[0]);
+  before.recordRequestResult('a', false);
+  before.recordRequestResult('b', false);
+  before['budgetTracker'].throttle('a', 5000);
+
+  const after = new UpstreamService(next.projects[0]);
+  after.adoptState(before);
+  check('Unchanged upstream ids keep their health', !after.isUpstreamHealthy('a'));
+  check('New upstream ids start healthy', after.isUpstreamHealthy('e'));
+  check('Removed upstream ids are dropped', !after.getHealthMap().has('b'));
+  check('Budget state carries over', after.getBudgetBlock(next.projects[0].upstreams[0], 'eth_call')?.reason === 'throttled');
+
+  const unordered = createProject('main', [upstream('b', 2), upstream('a', 1)]);
+  const ranked = new UpstreamService(unordered).getAvailableUpstreams();
+  check(
+    'Ranking upstreams leaves the configured order alone',
+    ranked.map(u => u.id).join() === 'a,b' && unordered.upstreams.map(u => u.id).join() === 'b,a'
+  );
+
+  // Reloading the gateway's config file
+  const configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'erpc-reload-'));
+  const configFile = path.join(configDir, 'config.json');
+  const writeConfig = (ids: unknown) => fs.writeFileSync(configFile, JSON.stringify(createConfigFile(ids)));
+  const previousConfigPath = process.env[CONFIG_PATH_ENV];
+  try {
+    fs.writeFileSync(path.join(configDir, 'only-upstreams.js'), STRICT_PLUGIN_SOURCE);
+    writeConfig(['a']);
+    process.env[CONFIG_PATH_ENV] = configFile;
+    loadConfig();
+
+    let result = reloadConfig('admin');
+    check(
+      'Reloading an unchanged file changes no project',
+      result.success && result.diff?.changedProjects.length === 0,
+      JSON.stringify(result)
+    );
+
+    writeConfig('a');
+    result = reloadConfig('admin');
+    check(
+      'A reload whose services fail to build is rejected',
+      !result.success && !!result.errors?.[0].includes('OnlyUpstreams needs a list of ids'),
+      JSON.stringify(result)
+    );
+
+    writeConfig(['a']);
+    result = reloadConfig('admin');
+    check(
+      'A rejected reload keeps the running config',
+      result.success && result.diff?.changedProjects.length === 0,
+      JSON.stringify(result)
+    );
+
+    writeConfig(['b']);
+    result = reloadConfig('admin');
+    check('A valid change is applied after a rejected reload', result.success && result.diff?.changedProjects.join() === 'main');
+  } catch (error) {
+    check('Reloading does not throw', false, (error as Error).message);
+  } finally {
+    if (previousConfigPath === undefined) {
+      delete process.env[CONFIG_PATH_ENV];
+    } else {
+      process.env[CONFIG_PATH_ENV] = previousConfigPath;
+    }
+    fs.rmSync(configDir, { recursive: true, force: true });
+  }
+
+  console.log(`\n📊 Config Reload Test Results:`);
+  console.log(`✅ Passed: ${passed}`);
+  console.log(`❌ Failed: ${failed}`);
+
+  if (failed === 0) {
+    console.log(`\n🎉 All Config Reload tests passed!`);
+  } else {
+    console.log(`\n💥 ${failed} test(s) failed.`);
+  }
+  return failed === 0;
+}
+
+// Run tests only if this file is executed directly
+if (require.main === module) {
+  runConfigReloadTests()
+    .then(passed => process.exit(passed ? 0 : 1))
+    .catch(error => {
+      console.error('Config reload test execution failed:', error);
+      process.exit(1);
+    });
+}
+
+export { runConfigReloadTests };
\ No newline at end of file
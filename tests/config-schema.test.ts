@@ -0,0 +1,179 @@
+#!/usr/bin/env ts-node
+
+import fs from 'fs';
+import path from 'path';
+import { parseAppConfig } from '../src/configSchema';
+
+console.log('🧪 Starting Config Schema Tests...\n');
+
+// Works from both tests/ (ts-node) and dist/tests/
+const samplePath = [path.join(__dirname, '../config.sample.json'), path.join(__dirname, '../../config.sample.json')]
+  .find(candidate => fs.existsSync(candidate))!;
+const loadSample = () => JSON.parse(fs.readFileSync(samplePath, 'utf8'));
+
+const minimalConfig = () => ({
+  projects: [
+    {
+      id: 'main',
+      upstreams: [{ id: 'node', rpcUrl: 'http://localhost:8545', type: 'full', priority: 1 }]
+    }
+  ],
+  defaultProject: 'main',
+  timeouts: { defaultResponseTimeoutMs: 12000 }
+});
+
+async function runConfigSchemaTests(): Promise<boolean> {
+  let passed = 0;
+  let failed = 0;
+
+  const check = (name: string, condition: boolean, detail?: string) => {
+    if (condition) {
+      console.log(`✅ ${name}`);
+      passed++;
+    } else {
+      console.log(`❌ ${name}${detail ? ` - ${detail}` : ''}`);
+      failed++;
+    }
+  };
+
+  const errorsOf = (raw: unknown) => {
+    const result = parseAppConfig(raw);
+    return result.success ? [] : result.errors;
+  };
+
+  const sample = parseAppConfig(loadSample());
+  check('The sample config is valid', sample.success, sample.success ? undefined : sample.errors.join('; '));
+
+  // Defaults
+  const minimal = parseAppConfig(minimalConfig());
+  if (minimal.success) {
+    const project = minimal.config.projects[0];
+    check(
+      'Omitted blocks get defaults',
+      minimal.config.server.port === 1099 && minimal.config.logging.level === 'info' &&
+        minimal.config.historicalMethods.length === 0 && project.health.maxConsecutiveErrors === 5 &&
+        minimal.config.testing.timeout === 30000,
+      JSON.stringify(minimal.config)
+    );
+    check(
+      'Project timeouts fall back to the shared timeouts',
+      project.responseTimeout === 12000 && project.health.nodeStatusTimeoutMs === 5000
+    );
+  } else {
+    check('A minimal config is valid', false, minimal.errors.join('; '));
+  }
+
+  // Field errors carry readable paths, naming items by id
+  const typo = minimalConfig() as any;
+  typo.projects[0].upstreams[0].type = 'ful';
+  typo.projects[0].upstreams[0].rpcUrl = 'localhost:8545';
+  const typoErrors = errorsOf(typo);
+  check(
+    'Invalid enum values and URLs are reported with id-based paths',
+    typoErrors.some(e => e.startsWith('projects["main"].upstreams["node"].type: Invalid option')) &&
+      typoErrors.some(e => e.startsWith('projects["main"].upstreams["node"].rpcUrl: Must be an http(s) URL')),
+    typoErrors.join('; ')
+  );
+
+  const unknownKey = minimalConfig() as any;
+  unknownKey.projects[0].helth = {};
+  check(
+    'Misspelled keys are rejected',
+    errorsOf(unknownKey).some(e => e.includes('projects["main"]: Unrecognized key: "helth"')),
+    errorsOf(unknownKey).join('; ')
+  );
+
+  const missing = minimalConfig() as any;
+  delete missing.projects[0].upstreams[0].priority;
+  check(
+    'Missing required fields are reported as required',
+    errorsOf(missing).includes('projects["main"].upstreams["node"].priority: Required'),
+    errorsOf(missing).join('; ')
+  );
+
+  const negativePriority = minimalConfig() as any;
+  negativePriority.projects[0].upstreams[0].priority = -1;
+  check('Priorities must be non-negative', errorsOf(negativePriority).some(e => e.includes('.priority:')));
+
+  // Cross-field checks
+  const duplicates = minimalConfig() as any;
+  duplicates.projects[0].upstreams.push({ ...duplicates.projects[0].upstreams[0] });
+  duplicates.projects.push({ ...duplicates.projects[0] });
+  const duplicateErrors = errorsOf(duplicates);
+  check(
+    'Duplicate project and upstream ids are reported',
+    duplicateErrors.some(e => e.includes('Duplicate project id "main"')) &&
+      duplicateErrors.some(e => e.includes('Duplicate upstream id "node"')),
+    duplicateErrors.join('; ')
+  );
+
+  const unknownDefault = { ...minimalConfig(), defaultProject: 'missing' };
+  check(
+    'defaultProject must exist',
+    errorsOf(unknownDefault).includes('defaultProject: Project "missing" does not exist'),
+    errorsOf(unknownDefault).join('; ')
+  );
+
+  const reserved = minimalConfig() as any;
+  reserved.projects[0].id = 'admin';
+  reserved.defaultProject = 'admin';
+  check('Reserved project ids are rejected', errorsOf(reserved).some(e => e.includes('reserved')));
+
+  const keyProjects = { ...minimalConfig(), auth: { enabled: true, keys: [{ id: 'k', key: 'secret', projects: ['other'] }] } };
+  check(
+    'API keys must reference existing projects',
+    errorsOf(keyProjects).some(e => e.startsWith('auth.keys["k"].projects: Project "other"')),
+    errorsOf(keyProjects).join('; ')
+  );
+
+  const archiveRetention = minimalConfig() as any;
+  archiveRetention.projects[0].upstreams[0] = { ...archiveRetention.projects[0].upstreams[0], type: 'archive', retentionBlocks: 100 };
+  check(
+    'retentionBlocks is rejected on archive nodes',
+    errorsOf(archiveRetention).includes('projects["main"].upstreams["node"].retentionBlocks: retentionBlocks only applies to full nodes'),
+    errorsOf(archiveRetention).join('; ')
+  );
+
+  const sharedPriority = minimalConfig() as any;
+  sharedPriority.projects[0].upstreams.push({ id: 'second', rpcUrl: 'http://localhost:8546', type: 'full', priority: 1 });
+  check(
+    'Shared priorities need a load-balancing policy',
+    errorsOf(sharedPriority).includes('projects["main"].upstreams["second"].priority: Priority 1 is already used by "node", set loadBalancing.policy to share traffic within a priority') &&
+      errorsOf({ ...sharedPriority, projects: [{ ...sharedPriority.projects[0], loadBalancing: { policy: 'least_in_flight' } }] }).length === 0,
+    errorsOf(sharedPriority).join('; ')
+  );
+
+  const mixedTier = minimalConfig() as any;
+  mixedTier.projects[0].loadBalancing = { policy: 'weighted_round_robin' };
+  mixedTier.projects[0].upstreams.push({ id: 'archive', rpcUrl: 'http://localhost:8546', type: 'archive', priority: 1 });
+  check(
+    'Full and archive upstreams cannot share a priority',
+    errorsOf(mixedTier).includes('projects["main"].upstreams["archive"].priority: Priority 1 is shared with full upstream "node", full and archive upstreams need distinct priorities'),
+    errorsOf(mixedTier).join('; ')
+  );
+
+  check('Non-object configs are rejected', errorsOf('{}').length > 0);
+
+  console.log(`\n📊 Config Schema Test Results:`);
+  console.log(`✅ Passed: ${passed}`);
+  console.log(`❌ Failed: ${failed}`);
+
+  if (failed === 0) {
+    console.log(`\n🎉 All Config Schema tests passed!`);
+  } else {
+    console.log(`\n💥 ${failed} test(s) failed.`);
+  }
+  return failed === 0;
+}
+
+// Run tests only if this file is executed directly
+if (require.main === module) {
+  runConfigSchemaTests()
+    .then(passed => process.exit(passed ? 0 : 1))
+    .catch(error => {
+      console.error('Config schema test execution failed:', error);
+      process.exit(1);
+    });
+}
+
+export { runConfigSchemaTests };
\ No newline at end of file
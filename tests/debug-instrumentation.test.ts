@@ -6,7 +6,7 @@ import fetch from 'node-fetch';
 
 const SERVER_URL = 'http://localhost:1099';
 
-async function testDebugInstrumentation(): Promise<void> {
+async function testDebugInstrumentation(): Promise<boolean> {
   try {
     // Test a method that will be filtered by some upstreams
     const response = await fetch(`${SERVER_URL}?debug=1`, {
@@ -79,24 +79,28 @@ async function testDebugInstrumentation(): Promise<void> {
       console.log(`⏱️  Total Duration: ${result.debug.totalDuration}ms`);
 
       console.log('\n✅ Debug instrumentation test completed successfully!');
-    } else {
-      console.log('❌ No debug information found in response');
-      console.log('Response:', JSON.stringify(result, null, 2));
+      return true;
     }
+    console.log('❌ No debug information found in response');
+    console.log('Response:', JSON.stringify(result, null, 2));
+    return false;
 
   } catch (error) {
     console.log('⚠️  Server not available for instrumentation test');
     console.log('   Please start the server with: npm run dev');
     console.log(`   Error: ${(error as Error).message}`);
+    return true;
   }
 }
 
 // Run test only if this file is executed directly
 if (require.main === module) {
-  testDebugInstrumentation().catch(error => {
-    console.error('Debug instrumentation test failed:', error);
-    process.exit(1);
-  });
+  testDebugInstrumentation()
+    .then(passed => process.exit(passed ? 0 : 1))
+    .catch(error => {
+      console.error('Debug instrumentation test failed:', error);
+      process.exit(1);
+    });
 }
 
 export { testDebugInstrumentation };
\ No newline at end of file
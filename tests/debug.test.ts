@@ -13,7 +13,7 @@ interface DebugTestCase {
   description: string;
 }
 
-async function runDebugTests(): Promise<void> {
+async function runDebugTests(): Promise<boolean> {
   // Load config (from dist/tests/ to root)
   const configPath = path.join(__dirname, '../../config.json');
   const config: AppConfig = JSON.parse(fs.readFileSync(configPath, 'utf8'));
@@ -241,18 +241,19 @@ async function runDebugTests(): Promise<void> {
   console.log(`   Passed: ${passedTests}/${totalTests}`);
   if (passedTests === totalTests) {
     console.log(`   ✅ All tests passed!`);
-    process.exit(0);
   } else {
     console.log(`   ❌ ${totalTests - passedTests} tests failed`);
-    process.exit(1);
   }
+  return passedTests === totalTests;
 }
 
 if (require.main === module) {
-  runDebugTests().catch((error) => {
-    console.error('Debug test runner error:', error);
-    process.exit(1);
-  });
+  runDebugTests()
+    .then(passed => process.exit(passed ? 0 : 1))
+    .catch((error) => {
+      console.error('Debug test runner error:', error);
+      process.exit(1);
+    });
 }
 
 export { runDebugTests };
\ No newline at end of file
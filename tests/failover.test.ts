@@ -0,0 +1,175 @@
+#!/usr/bin/env ts-node
+
+import { ProxyResult } from '../src/services/UpstreamService';
+import { PriorityRoutingOps } from '../src/operations/PriorityRoutingOps';
+import { FinalSelectorOps } from '../src/operations/FinalSelectorOps';
+import { MetricsHandlingOps } from '../src/operations/MetricsHandlingOps';
+import { JsonRpcRequest, ProjectConfig, RetryConfig, UpstreamConfig } from '../src/types';
+import { createProject as createTestProject, createReply, createStrategy, rpc, ScriptedUpstreamService } from './helpers';
+
+console.log('🧪 Starting Failover Tests...\n');
+
+const testUpstreams: UpstreamConfig[] = [
+  { id: 'primary', rpcUrl: 'https://primary.example.com', type: 'full', priority: 1 },
+  { id: 'secondary', rpcUrl: 'https://secondary.example.com', type: 'full', priority: 2 },
+  { id: 'archive', rpcUrl: 'https://archive.example.com', type: 'archive', priority: 10 }
+];
+
+const createProject = (retry?: RetryConfig): ProjectConfig =>
+  createTestProject(testUpstreams.map(u => ({ ...u })), {
+    id: 'failover-test',
+    responseTimeout: 1000,
+    health: { maxConsecutiveErrors: 100 },
+    retry
+  });
+
+// Successful outcomes answer with the id of the upstream that served them
+const scripted = (outcomes: Record<string, ProxyResult>) => (upstream: UpstreamConfig, request: JsonRpcRequest): ProxyResult => {
+  const outcome = outcomes[upstream.id];
+  if (outcome.success) {
+    return { ...outcome, data: { jsonrpc: '2.0', result: upstream.id, id: request.id } };
+  }
+  return outcome;
+};
+
+const failure = (errorClass: ProxyResult['errorClass']): ProxyResult => ({
+  success: false,
+  error: `simulated ${errorClass}`,
+  errorClass,
+  responseTime: 1
+});
+const success: ProxyResult = { success: true, responseTime: 1 };
+
+const failoverTestCases: {
+  name: string;
+  retry?: RetryConfig;
+  outcomes: Record<string, ProxyResult>;
+  expectedCalls: string[];
+  expectedResult: string | null;
+  expectedError?: string;
+}[] = [
+  {
+    name: 'Primary succeeds - no failover',
+    retry: undefined,
+    outcomes: { primary: success, secondary: success, archive: success },
+    expectedCalls: ['primary'],
+    expectedResult: 'primary'
+  },
+  {
+    name: 'Primary times out - fails over to secondary',
+    retry: undefined,
+    outcomes: { primary: failure('timeout'), secondary: success, archive: success },
+    expectedCalls: ['primary', 'secondary'],
+    expectedResult: 'secondary'
+  },
+  {
+    name: 'All full nodes fail - archive used last',
+    retry: undefined,
+    outcomes: { primary: failure('http_5xx'), secondary: failure('network'), archive: success },
+    expectedCalls: ['primary', 'secondary', 'archive'],
+    expectedResult: 'archive'
+  },
+  {
+    name: 'Pruned-state JSON-RPC error - fails over to secondary',
+    retry: undefined,
+    outcomes: {
+      primary: {
+        ...failure('pruned_state'),
+        data: { jsonrpc: '2.0', error: { code: -32000, message: 'missing trie node' }, id: 1 }
+      },
+      secondary: success,
+      archive: success
+    },
+    expectedCalls: ['primary', 'secondary'],
+    expectedResult: 'secondary'
+  },
+  {
+    name: 'Exhausted failover forwards the upstream JSON-RPC error',
+    retry: { maxAttempts: 1, retryOn: ['pruned_state'] },
+    outcomes: {
+      primary: {
+        ...failure('pruned_state'),
+        data: { jsonrpc: '2.0', error: { code: -32000, message: 'missing trie node' }, id: 1 }
+      },
+      secondary: success,
+      archive: success
+    },
+    expectedCalls: ['primary'],
+    expectedResult: null,
+    expectedError: 'missing trie node'
+  },
+  {
+    name: 'Non-retryable error class - no failover',
+    retry: { maxAttempts: 3, retryOn: ['timeout'] },
+    outcomes: { primary: failure('http_4xx'), secondary: success, archive: success },
+    expectedCalls: ['primary'],
+    expectedResult: null
+  },
+  {
+    name: 'maxAttempts limits the failover chain',
+    retry: { maxAttempts: 2, retryOn: ['network'] },
+    outcomes: { primary: failure('network'), secondary: failure('network'), archive: success },
+    expectedCalls: ['primary', 'secondary'],
+    expectedResult: null
+  }
+];
+
+async function runFailoverTests(): Promise<boolean> {
+  let passed = 0;
+  let failed = 0;
+
+  for (const testCase of failoverTestCases) {
+    console.log(`🧪 Testing: ${testCase.name}`);
+
+    try {
+      const project = createProject(testCase.retry);
+      const upstreamService = new ScriptedUpstreamService(project, scripted(testCase.outcomes));
+      const strategy = createStrategy(project, upstreamService, [new PriorityRoutingOps(), new FinalSelectorOps(), new MetricsHandlingOps()]);
+
+      const reply = createReply();
+      await strategy.execute(rpc('eth_chainId'), reply);
+
+      const callsMatch = JSON.stringify(upstreamService.calls) === JSON.stringify(testCase.expectedCalls);
+      const resultMatches = testCase.expectedResult
+        ? reply.body?.result === testCase.expectedResult
+        : testCase.expectedError
+          ? reply.statusCode === 200 && reply.body?.error?.message === testCase.expectedError
+          : reply.statusCode === 502 && !!reply.body?.error;
+
+      if (callsMatch && resultMatches) {
+        console.log(`   ✅ Attempted: ${upstreamService.calls.join(' → ')}\n`);
+        passed++;
+      } else {
+        console.log(`   ❌ Expected attempts ${testCase.expectedCalls.join(' → ')}, got ${upstreamService.calls.join(' → ')}`);
+        console.log(`      Response (${reply.statusCode}): ${JSON.stringify(reply.body)}\n`);
+        failed++;
+      }
+    } catch (error) {
+      console.log(`   💥 Test execution failed: ${(error as Error).message}\n`);
+      failed++;
+    }
+  }
+
+  console.log(`📊 Failover Test Results:`);
+  console.log(`✅ Passed: ${passed}`);
+  console.log(`❌ Failed: ${failed}`);
+
+  if (failed === 0) {
+    console.log(`\n🎉 All Failover tests passed!`);
+  } else {
+    console.log(`\n💥 ${failed} test(s) failed.`);
+  }
+  return failed === 0;
+}
+
+// Run tests only if this file is executed directly
+if (require.main === module) {
+  runFailoverTests()
+    .then(passed => process.exit(passed ? 0 : 1))
+    .catch(error => {
+      console.error('Failover test execution failed:', error);
+      process.exit(1);
+    });
+}
+
+export { runFailoverTests };
\ No newline at end of file
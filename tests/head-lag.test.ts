@@ -0,0 +1,106 @@
+#!/usr/bin/env ts-node
+
+import { HeadLagRoutingOps } from '../src/operations/HeadLagRoutingOps';
+import { BlockAvailabilityService, computeConsensusHead } from '../src/services/BlockAvailabilityService';
+import { ProjectConfig, RoutingContext, UpstreamSyncState } from '../src/types';
+import { createProject, fullNode, route } from './helpers';
+
+console.log('🧪 Starting Head Lag Tests...\n');
+
+function syncStates(heads: Record<string, number | null>, errored: string[] = []): Map<string, UpstreamSyncState> {
+  return new Map(Object.entries(heads).map(([id, latestBlock]) => [
+    id,
+    { earliestBlock: 0, latestBlock, source: 'evm', lastUpdated: Date.now(), ...(errored.includes(id) && { error: 'timeout' }) }
+  ]));
+}
+
+// Upstream ids the head lag filter keeps
+const filterLagging = (project: ProjectConfig, blockNumber: RoutingContext['blockNumber'], states: Map<string, UpstreamSyncState>) =>
+  route(new HeadLagRoutingOps(), project, { blockNumber, syncStates: states });
+
+async function runHeadLagTests(): Promise<boolean> {
+  let passed = 0;
+  let failed = 0;
+
+  const check = (name: string, condition: boolean, detail?: string) => {
+    if (condition) {
+      console.log(`✅ ${name}`);
+      passed++;
+    } else {
+      console.log(`❌ ${name}${detail ? ` - ${detail}` : ''}`);
+      failed++;
+    }
+  };
+
+  // Consensus head
+  check('A single upstream is the consensus', computeConsensusHead(syncStates({ a: 100 })) === 100);
+  check('With two upstreams the lower head is the consensus', computeConsensusHead(syncStates({ a: 100, b: 300 })) === 100);
+  check('A head needs a strict majority', computeConsensusHead(syncStates({ a: 100, b: 200, c: 300, d: 300 })) === 200);
+  check(
+    'One runaway head does not move the consensus',
+    computeConsensusHead(syncStates({ a: 1000, b: 1001, c: 999999 })) === 1001
+  );
+  check(
+    'Errored and unknown heads are ignored',
+    computeConsensusHead(syncStates({ a: 1000, b: 5000, c: null }, ['b'])) === 1000
+  );
+
+  // Filtering
+  const project = createProject([fullNode('a'), fullNode('b'), fullNode('slow')]);
+  const states = syncStates({ a: 1000, b: 998, slow: 800 });
+  let routed = await filterLagging(project, null, states);
+  check('Upstreams beyond maxLagBlocks are dropped for head requests', routed === 'a,b', routed);
+  routed = await filterLagging(project, 'latest', states);
+  check('latest-tagged requests are filtered', routed === 'a,b', routed);
+  routed = await filterLagging(project, 500, states);
+  check('Requests pinned to a block are not filtered', routed === 'a,b,slow', routed);
+
+  const tolerant = createProject(project.upstreams, { blockTracking: { maxLagBlocks: 500 } });
+  routed = await filterLagging(tolerant, null, states);
+  check('maxLagBlocks is configurable per project', routed === 'a,b,slow', routed);
+
+  routed = await filterLagging(project, null, syncStates({ a: 1000, b: null, c: 1000, slow: 800 }));
+  check('Upstreams with an unknown head are kept', routed === 'a,b', routed);
+
+  const pair = createProject([fullNode('a'), fullNode('slow')]);
+  routed = await filterLagging(pair, null, syncStates({ a: 1000, slow: 800 }));
+  check('Neither of two upstreams is dropped for lagging the other', routed === 'a,slow', routed);
+
+  const lone = createProject([fullNode('slow')]);
+  routed = await filterLagging(lone, null, syncStates({ a: 1000, b: 1000, slow: 800 }));
+  check('Lagging upstreams are kept when no other candidate is left', routed === 'slow', routed);
+
+  // Health output
+  const service = new BlockAvailabilityService(createProject([fullNode('a')], { blockTracking: { enabled: false } }));
+  (service as any).states = syncStates({ a: 1000, b: 998, slow: 800 });
+  const status = service.getStatus();
+  check(
+    'Lag is reported per upstream',
+    status.consensusHead === 998 && status.upstreams.slow.lag === 198 && status.upstreams.slow.lagging &&
+      status.upstreams.a.lag === 0 && !status.upstreams.b.lagging,
+    JSON.stringify(status)
+  );
+
+  console.log(`\n📊 Head Lag Test Results:`);
+  console.log(`✅ Passed: ${passed}`);
+  console.log(`❌ Failed: ${failed}`);
+
+  if (failed === 0) {
+    console.log(`\n🎉 All Head Lag tests passed!`);
+  } else {
+    console.log(`\n💥 ${failed} test(s) failed.`);
+  }
+  return failed === 0;
+}
+
+// Run tests only if this file is executed directly
+if (require.main === module) {
+  runHeadLagTests()
+    .then(passed => process.exit(passed ? 0 : 1))
+    .catch(error => {
+      console.error('Head lag test execution failed:', error);
+      process.exit(1);
+    });
+}
+
+export { runHeadLagTests };
\ No newline at end of file
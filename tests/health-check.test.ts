@@ -0,0 +1,173 @@
+#!/usr/bin/env ts-node
+
+import { HealthCheckService } from '../src/services/HealthCheckService';
+import { UpstreamService } from '../src/services/UpstreamService';
+import { ErrorRatesOps } from '../src/operations/ErrorRatesOps';
+import { Logger } from '../src/services/Logger';
+import { MetricsRegistry } from '../src/services/MetricsRegistry';
+import { ProjectConfig, RoutingContext, UpstreamConfig } from '../src/types';
+import { createAppConfig, createProject, rpc, startMockNode } from './helpers';
+
+console.log('🧪 Starting Health Check Tests...\n');
+
+// Trip the circuit with failed requests, then let its cooldown run out
+function tripCircuit(upstreamService: UpstreamService, upstreamId: string): void {
+  for (let i = 0; i < 3; i++) {
+    upstreamService.recordRequestResult(upstreamId, false);
+  }
+  upstreamService.getHealthMap().get(upstreamId)!.failoverUntil = Date.now() - 1;
+}
+
+async function runHealthCheckTests(): Promise<boolean> {
+  let passed = 0;
+  let failed = 0;
+
+  const check = (name: string, condition: boolean, detail?: string) => {
+    if (condition) {
+      console.log(`✅ ${name}`);
+      passed++;
+    } else {
+      console.log(`❌ ${name}${detail ? ` - ${detail}` : ''}`);
+      failed++;
+    }
+  };
+
+  // Record circuit transitions instead of printing them
+  const transitions: string[] = [];
+  const logger = Logger.getInstance();
+  const originalInfo = logger.info.bind(logger);
+  const originalWarn = logger.warn.bind(logger);
+  logger.info = (message: string) => { transitions.push(message); };
+  logger.warn = (message: string) => { transitions.push(message); };
+
+  // JSON-RPC node whose availability the test flips
+  let up = false;
+  const mockNode = await startMockNode(() => (up ? { result: '0x10' } : { httpStatus: 503 }));
+  const probes = mockNode.requests;
+  try {
+    const node: UpstreamConfig = { id: 'node', rpcUrl: mockNode.url(), type: 'full', priority: 1 };
+    const project = createProject([node], { healthCheck: { method: 'net_version', backoffMultiplier: 2, maxBackoffMs: 3000 } });
+    const upstreamService = new UpstreamService(project);
+    const healthCheck = new HealthCheckService(project, upstreamService);
+    const health = upstreamService.getHealthMap().get('node')!;
+
+    tripCircuit(upstreamService, 'node');
+    check('Tripping the error threshold opens the circuit', upstreamService.getCircuitState('node') === 'open');
+
+    // Failed probes back off
+    let before = Date.now();
+    await healthCheck.checkOpenCircuits();
+    check(
+      'A failed probe reopens the circuit with a backed-off cooldown',
+      upstreamService.getCircuitState('node') === 'open' && health.failedProbes === 1 &&
+        health.failoverUntil >= before + 2000 && probes[probes.length - 1].method === 'net_version',
+      JSON.stringify({ ...health, errors: undefined })
+    );
+
+    await healthCheck.checkOpenCircuits();
+    check('Open circuits are not probed before their cooldown expires', health.failedProbes === 1 && probes.length === 1);
+
+    health.failoverUntil = Date.now() - 1;
+    await healthCheck.checkOpenCircuits();
+    health.failoverUntil = Date.now() - 1;
+    before = Date.now();
+    await healthCheck.checkOpenCircuits();
+    check(
+      'Backoff is capped at maxBackoffMs',
+      health.failedProbes === 3 && health.failoverUntil >= before + 3000 && health.failoverUntil <= Date.now() + 3000,
+      String(health.failoverUntil - before)
+    );
+
+    upstreamService.recordRequestResult('node', false);
+    check('Live errors do not shorten a backed-off cooldown', health.failoverUntil >= before + 3000);
+
+    // Recovery
+    up = true;
+    health.failoverUntil = Date.now() - 1;
+    await healthCheck.checkOpenCircuits();
+    check(
+      'A successful probe closes the circuit and resets the streaks',
+      upstreamService.getCircuitState('node') === 'closed' && health.isHealthy && health.failedProbes === 0 &&
+        health.consecutiveErrors === 0
+    );
+
+    const status = upstreamService.getHealthStatus().node;
+    check('Health status reports the circuit state', status.circuit === 'closed' && status.retryAt === null, JSON.stringify(status));
+
+    check(
+      'Transitions are logged through the Logger',
+      transitions.includes('Upstream node circuit open → half_open (probing with net_version)') &&
+        transitions.some(t => t.startsWith('Upstream node circuit half_open → open (probe failed: HTTP 503')) &&
+        transitions[transitions.length - 1] === 'Upstream node circuit half_open → closed (probe succeeded)',
+      JSON.stringify(transitions)
+    );
+
+    // Passive recovery
+    const context = (config: ProjectConfig, service: UpstreamService): RoutingContext => ({
+      request: rpc('eth_blockNumber'),
+      blockNumber: null,
+      nodeStatus: null,
+      availableUpstreams: config.upstreams,
+      allUpstreams: config.upstreams,
+      upstreamHealth: service.getHealthMap(),
+      config,
+      appConfig: createAppConfig()
+    });
+
+    const active = new UpstreamService(project);
+    tripCircuit(active, 'node');
+    active.getHealthMap().get('node')!.errors = [];
+    let result = await new ErrorRatesOps(active).execute(context(project, active));
+    check(
+      'Live traffic does not close circuits while health checks run',
+      active.getCircuitState('node') === 'open' && result.reason.startsWith('Last resort')
+    );
+
+    const passiveProject = createProject([node], { healthCheck: { enabled: false } });
+    const passive = new UpstreamService(passiveProject);
+    tripCircuit(passive, 'node');
+    passive.getHealthMap().get('node')!.errors = [];
+    result = await new ErrorRatesOps(passive).execute(context(passiveProject, passive));
+    check(
+      'Without health checks expired circuits recover passively',
+      passive.getCircuitState('node') === 'closed' && result.filteredUpstreams.length === 1
+    );
+    check(
+      'Passive recovery is logged and counted like other transitions',
+      transitions[transitions.length - 1].startsWith('Upstream node circuit open → closed (cooldown expired') &&
+        MetricsRegistry.getInstance().render([]).includes('erpc_upstream_circuit_transitions_total{project="chain",upstream="node",from="open",to="closed"}'),
+      transitions[transitions.length - 1]
+    );
+
+    const disabled = new HealthCheckService(passiveProject, passive);
+    disabled.start();
+    check('A disabled health checker never schedules probes', (disabled as any).timer === null);
+  } finally {
+    await mockNode.close();
+    logger.info = originalInfo;
+    logger.warn = originalWarn;
+  }
+
+  console.log(`\n📊 Health Check Test Results:`);
+  console.log(`✅ Passed: ${passed}`);
+  console.log(`❌ Failed: ${failed}`);
+
+  if (failed === 0) {
+    console.log(`\n🎉 All Health Check tests passed!`);
+  } else {
+    console.log(`\n💥 ${failed} test(s) failed.`);
+  }
+  return failed === 0;
+}
+
+// Run tests only if this file is executed directly
+if (require.main === module) {
+  runHealthCheckTests()
+    .then(passed => process.exit(passed ? 0 : 1))
+    .catch(error => {
+      console.error('Health check test execution failed:', error);
+      process.exit(1);
+    });
+}
+
+export { runHealthCheckTests };
\ No newline at end of file
@@ -0,0 +1,222 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { DefaultRoutingStrategy, RoutingReply } from '../src/strategy/RoutingStrategy';
+import { UpstreamService, ProxyResult } from '../src/services/UpstreamService';
+import { BlockNumberExtractor } from '../src/services/BlockNumberExtractor';
+import { NodeStatusService } from '../src/services/NodeStatusService';
+import {
+  AppConfig,
+  HealthConfig,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  ProjectConfig,
+  RoutingContext,
+  RoutingOperation,
+  UpstreamConfig
+} from '../src/types';
+
+// Fixtures shared by the unit test suites
+
+const TEST_HEALTH: HealthConfig = {
+  errorRateWindowMs: 60000,
+  maxConsecutiveErrors: 3,
+  failoverCooldownMs: 1000,
+  nodeStatusTimeoutMs: 1000
+};
+
+export type ProjectOverrides = Omit<Partial<ProjectConfig>, 'health'> & { health?: Partial<HealthConfig> };
+
+// A project called "chain"; health settings are merged over the test defaults
+export function createProject(upstreams: UpstreamConfig[], overrides: ProjectOverrides = {}): ProjectConfig {
+  const { health, ...rest } = overrides;
+  return {
+    id: 'chain',
+    upstreams,
+    errorRateThreshold: 0.5,
+    statusCheckInterval: 60000,
+    responseTimeout: 2000,
+    ...rest,
+    health: { ...TEST_HEALTH, ...health }
+  };
+}
+
+export function createAppConfig(overrides: Partial<AppConfig> = {}): AppConfig {
+  return {
+    server: { host: '127.0.0.1', port: 1099 },
+    timeouts: { maxErrorTimeoutMs: 1000, defaultResponseTimeoutMs: 2000, defaultNodeStatusTimeoutMs: 1000 },
+    historicalMethods: [],
+    projects: [],
+    defaultProject: 'chain',
+    testing: {
+      testAddress: '0x0000000000000000000000000000000000000000',
+      historicalBlockHex: '0x1',
+      historicalBlockNumber: 1,
+      veryOldBlockHex: '0x1',
+      veryOldBlockNumber: 1,
+      timeout: 1000,
+      maxDurationMs: 1000,
+      minDurationMs: 0
+    },
+    logging: {
+      level: 'info',
+      enableColors: false,
+      logRequests: false,
+      logUpstreamHealth: false,
+      logRoutingDecisions: false,
+      debug: false,
+      production: false
+    },
+    ...overrides
+  };
+}
+
+export const fullNode = (id: string, extra: Partial<UpstreamConfig> = {}): UpstreamConfig =>
+  ({ id, rpcUrl: `http://${id}.invalid`, type: 'full', priority: 1, ...extra });
+
+export const rpc = (method: string, params: any[] = [], id: JsonRpcRequest['id'] = 1): JsonRpcRequest =>
+  ({ jsonrpc: '2.0', method, params, id });
+
+export const answer = (result: unknown, id: JsonRpcRequest['id'] = 1): ProxyResult =>
+  ({ success: true, responseTime: 1, data: { jsonrpc: '2.0', result, id } });
+
+export type ScriptedAnswer = (upstream: UpstreamConfig, request: JsonRpcRequest) => ProxyResult | Promise<ProxyResult>;
+
+// Answers from a script instead of the network and records the upstream of each call.
+// Batches are answered item by item in one call
+export class ScriptedUpstreamService extends UpstreamService {
+  public calls: string[] = [];
+
+  constructor(config: ProjectConfig, private script: ScriptedAnswer) {
+    super(config);
+  }
+
+  async proxyRequest(upstream: UpstreamConfig, requestBody: JsonRpcRequest | JsonRpcRequest[]): Promise<ProxyResult> {
+    this.calls.push(upstream.id);
+    if (!Array.isArray(requestBody)) {
+      return this.script(upstream, requestBody);
+    }
+    const results = await Promise.all(requestBody.map(request => this.script(upstream, request)));
+    return { success: true, responseTime: 1, data: results.map(result => result.data) };
+  }
+}
+
+// Strategy over the given operations, with request parsing and node status from the project
+export function createStrategy(
+  project: ProjectConfig,
+  upstreamService: UpstreamService,
+  operations: RoutingOperation[],
+  appConfig: AppConfig = createAppConfig()
+): DefaultRoutingStrategy {
+  const strategy = new DefaultRoutingStrategy(
+    upstreamService,
+    new BlockNumberExtractor(project, appConfig),
+    new NodeStatusService(project, appConfig),
+    appConfig
+  );
+  strategy.registerPipe(operations);
+  return strategy;
+}
+
+// Response body as sent by the strategy, including the debug block of ?debug=1 requests
+export type ReplyBody = JsonRpcResponse & { debug?: Record<string, any> };
+
+export interface ReplyStub extends RoutingReply {
+  statusCode: number;
+  body: ReplyBody | null;
+}
+
+export function createReply(): ReplyStub {
+  return {
+    statusCode: 200,
+    body: null,
+    code(statusCode: number) {
+      this.statusCode = statusCode;
+      return this;
+    },
+    send(body: unknown) {
+      this.body = body as ReplyBody;
+      return this;
+    }
+  };
+}
+
+// Upstream ids an operation keeps for a context built from the project
+export async function route(operation: RoutingOperation, project: ProjectConfig, context: Partial<RoutingContext> = {}): Promise<string> {
+  const result = await operation.execute({
+    request: rpc('eth_blockNumber'),
+    blockNumber: null,
+    nodeStatus: null,
+    availableUpstreams: project.upstreams,
+    allUpstreams: project.upstreams,
+    upstreamHealth: new Map(),
+    config: project,
+    appConfig: createAppConfig(),
+    ...context
+  });
+  return result.filteredUpstreams.map(u => u.id).join(',');
+}
+
+// What a mock node answers a JSON-RPC call with; httpStatus answers without a body
+export type MockRpcAnswer =
+  | { result: unknown }
+  | { error: { code: number; message: string } }
+  | { httpStatus: number };
+
+// Answers for plain HTTP paths such as a Tendermint /status endpoint
+export type MockHttpAnswer = { httpStatus?: number; body?: unknown };
+
+export interface MockNode {
+  server: http.Server;
+  url: (path?: string) => string;
+  requests: { path: string; method: string }[]; // Every JSON-RPC call, batch items one by one
+  close: () => Promise<void>;
+}
+
+// Local JSON-RPC node on a random port. Paths listed in httpRoutes answer before any body is read
+export function startMockNode(
+  handler: (request: JsonRpcRequest, path: string) => MockRpcAnswer,
+  httpRoutes: Record<string, () => MockHttpAnswer> = {}
+): Promise<MockNode> {
+  const requests: MockNode['requests'] = [];
+  const server = http.createServer((req, res) => {
+    const path = req.url || '/';
+    const route = httpRoutes[path];
+    if (route) {
+      const { httpStatus = 200, body } = route();
+      res.writeHead(httpStatus);
+      res.end(body === undefined ? undefined : JSON.stringify(body));
+      return;
+    }
+
+    let raw = '';
+    req.on('data', chunk => (raw += chunk));
+    req.on('end', () => {
+      const body: JsonRpcRequest | JsonRpcRequest[] = JSON.parse(raw);
+      const answers = (Array.isArray(body) ? body : [body]).map(request => {
+        requests.push({ path, method: request.method });
+        return { request, answer: handler(request, path) };
+      });
+
+      const failed = answers.find(({ answer }) => 'httpStatus' in answer);
+      if (failed && 'httpStatus' in failed.answer) {
+        res.writeHead(failed.answer.httpStatus);
+        res.end();
+        return;
+      }
+      const payloads = answers.map(({ request, answer }) => ({ jsonrpc: '2.0', id: request.id, ...answer }));
+      res.end(JSON.stringify(Array.isArray(body) ? payloads : payloads[0]));
+    });
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        server,
+        url: (path = '') => `http://127.0.0.1:${port}${path}`,
+        requests,
+        close: () => new Promise(done => server.close(() => done()))
+      });
+    });
+  });
+}
\ No newline at end of file
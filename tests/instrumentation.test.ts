@@ -5,7 +5,7 @@ import path from 'path';
 import { InstrumentationService } from '../src/services/InstrumentationService';
 import { RoutingContext, UpstreamConfig, UpstreamHealth, AppConfig } from '../src/types';
 
-async function runInstrumentationTests(): Promise<void> {
+async function runInstrumentationTests(): Promise<boolean> {
   console.log('🧪 Running InstrumentationService Unit Tests...\n');
 
   // Load config for test data
@@ -105,6 +105,7 @@ async function runInstrumentationTests(): Promise<void> {
     },
     blockNumber: 'latest',
     nodeStatus: {
+      state: 'synced',
       earliestBlockHeight: config.testing.historicalBlockNumber,
       latestBlockHeight: config.testing.historicalBlockNumber + 1000,
       catchingUp: false,
@@ -216,18 +217,19 @@ async function runInstrumentationTests(): Promise<void> {
   console.log(`   Passed: ${passedTests}/${totalTests}`);
   if (passedTests === totalTests) {
     console.log(`   ✅ All tests passed!`);
-    process.exit(0);
   } else {
     console.log(`   ❌ ${totalTests - passedTests} tests failed`);
-    process.exit(1);
   }
+  return passedTests === totalTests;
 }
 
 if (require.main === module) {
-  runInstrumentationTests().catch((error) => {
-    console.error('Instrumentation test runner error:', error);
-    process.exit(1);
-  });
+  runInstrumentationTests()
+    .then(passed => process.exit(passed ? 0 : 1))
+    .catch((error) => {
+      console.error('Instrumentation test runner error:', error);
+      process.exit(1);
+    });
 }
 
 export { runInstrumentationTests };
\ No newline at end of file
@@ -14,7 +14,7 @@ interface TestCase {
   description: string;
 }
 
-async function runIntegrationTests(): Promise<void> {
+async function runIntegrationTests(): Promise<boolean> {
   // Load config
   const configPath = path.join(__dirname, '../../config.json');
   const config: AppConfig = JSON.parse(fs.readFileSync(configPath, 'utf8'));
@@ -179,18 +179,19 @@ async function runIntegrationTests(): Promise<void> {
   console.log(`   Passed: ${passedTests}/${totalTests}`);
   if (passedTests === totalTests) {
     console.log(`   ✅ All tests passed!`);
-    process.exit(0);
   } else {
     console.log(`   ❌ ${totalTests - passedTests} tests failed`);
-    process.exit(1);
   }
+  return passedTests === totalTests;
 }
 
 if (require.main === module) {
-  runIntegrationTests().catch((error) => {
-    console.error('Test runner error:', error);
-    process.exit(1);
-  });
+  runIntegrationTests()
+    .then(passed => process.exit(passed ? 0 : 1))
+    .catch((error) => {
+      console.error('Test runner error:', error);
+      process.exit(1);
+    });
 }
 
 export { runIntegrationTests };
\ No newline at end of file
@@ -0,0 +1,134 @@
+#!/usr/bin/env ts-node
+
+import { FinalSelectorOps } from '../src/operations/FinalSelectorOps';
+import { LoadBalancingPolicy, ProjectConfig, RoutingContext, UpstreamConfig, UpstreamHealth } from '../src/types';
+
+console.log('🧪 Starting Load Balancing Tests...\n');
+
+const testUpstreams: UpstreamConfig[] = [
+  { id: 'node-a', rpcUrl: 'https://a.example.com', type: 'full', priority: 1, weight: 3 },
+  { id: 'node-b', rpcUrl: 'https://b.example.com', type: 'full', priority: 1, weight: 1 },
+  { id: 'node-c', rpcUrl: 'https://c.example.com', type: 'full', priority: 2, weight: 10 }
+];
+
+function createHealth(inFlight: number, ewmaResponseTime?: number): UpstreamHealth {
+  return {
+    errors: [],
+    totalRequests: 0,
+    totalErrors: 0,
+    consecutiveErrors: 0,
+    lastError: null,
+    lastSuccessfulRequest: Date.now(),
+    isHealthy: true,
+    failoverUntil: 0,
+    responseTime: 0,
+    inFlight,
+    ewmaResponseTime
+  };
+}
+
+function createContext(policy: LoadBalancingPolicy, health: Record<string, UpstreamHealth>): RoutingContext {
+  return {
+    request: { jsonrpc: '2.0', method: 'eth_chainId', params: [], id: 1 },
+    blockNumber: null,
+    nodeStatus: null,
+    availableUpstreams: testUpstreams,
+    allUpstreams: testUpstreams,
+    upstreamHealth: new Map(Object.entries(health)),
+    config: { id: 'lb-test', upstreams: testUpstreams, loadBalancing: { policy } } as unknown as ProjectConfig,
+    appConfig: {} as any
+  };
+}
+
+const idleHealth = {
+  'node-a': createHealth(0),
+  'node-b': createHealth(0),
+  'node-c': createHealth(0)
+};
+
+async function runLoadBalancingTests(): Promise<boolean> {
+  let passed = 0;
+  let failed = 0;
+
+  const check = (name: string, condition: boolean, detail?: string) => {
+    if (condition) {
+      console.log(`✅ ${name}`);
+      passed++;
+    } else {
+      console.log(`❌ ${name}${detail ? ` - ${detail}` : ''}`);
+      failed++;
+    }
+  };
+
+  // Default policy keeps the original behavior
+  const prioritySelector = new FinalSelectorOps();
+  const priorityResult = await prioritySelector.execute(createContext('priority', idleHealth));
+  check('priority policy picks the first candidate', priorityResult.selectedUpstream?.id === 'node-a');
+
+  // Weighted round-robin distributes 3:1 within the best tier and never picks the lower tier
+  const wrrSelector = new FinalSelectorOps();
+  const picks: string[] = [];
+  for (let i = 0; i < 8; i++) {
+    const result = await wrrSelector.execute(createContext('weighted_round_robin', idleHealth));
+    picks.push(result.selectedUpstream!.id);
+  }
+  const countA = picks.filter(id => id === 'node-a').length;
+  const countB = picks.filter(id => id === 'node-b').length;
+  check('weighted_round_robin follows weights', countA === 6 && countB === 2, picks.join(','));
+  check('weighted_round_robin interleaves picks', picks.slice(0, 4).includes('node-b'), picks.join(','));
+
+  // Least in-flight prefers the idle upstream of the best tier, ignoring the idle lower tier
+  const leastResult = await new FinalSelectorOps().execute(createContext('least_in_flight', {
+    'node-a': createHealth(5),
+    'node-b': createHealth(1),
+    'node-c': createHealth(0)
+  }));
+  check('least_in_flight picks fewest outstanding requests', leastResult.selectedUpstream?.id === 'node-b');
+  check(
+    'Selected upstream is ranked first for failover',
+    leastResult.filteredUpstreams.map(u => u.id).join(',') === 'node-b,node-a,node-c'
+  );
+
+  // With two upstreams in the tier, power of two choices always compares both
+  const p2cResult = await new FinalSelectorOps(() => 0).execute(createContext('ewma_p2c', {
+    'node-a': createHealth(0, 400),
+    'node-b': createHealth(0, 50),
+    'node-c': createHealth(0, 1)
+  }));
+  check('ewma_p2c picks the lower latency upstream', p2cResult.selectedUpstream?.id === 'node-b');
+  check(
+    'Policy and scores are exposed for debug output',
+    p2cResult.details?.policy === 'ewma_p2c' && p2cResult.details?.scores['node-a'] === 400 && p2cResult.reason.includes('ewma_p2c'),
+    JSON.stringify(p2cResult.details)
+  );
+
+  const loadedResult = await new FinalSelectorOps(() => 0).execute(createContext('ewma_p2c', {
+    'node-a': createHealth(0, 100),
+    'node-b': createHealth(4, 50),
+    'node-c': createHealth(0, 1)
+  }));
+  check('ewma_p2c accounts for outstanding load', loadedResult.selectedUpstream?.id === 'node-a');
+
+  console.log(`\n📊 Load Balancing Test Results:`);
+  console.log(`✅ Passed: ${passed}`);
+  console.log(`❌ Failed: ${failed}`);
+
+  if (failed === 0) {
+    console.log(`\n🎉 All Load Balancing tests passed!`);
+  } else {
+    console.log(`\n💥 ${failed} test(s) failed.`);
+  }
+  return failed === 0;
+}
+
+// Run tests only if this file is executed directly
+if (require.main === module) {
+  runLoadBalancingTests()
+    .then(passed => process.exit(passed ? 0 : 1))
+    .catch(error => {
+      console.error('Load balancing test execution failed:', error);
+      process.exit(1);
+    });
+}
+
+export { runLoadBalancingTests };
\ No newline at end of file
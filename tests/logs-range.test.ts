@@ -0,0 +1,203 @@
+#!/usr/bin/env ts-node
+
+import { BlockNumberExtractor } from '../src/services/BlockNumberExtractor';
+import { BlockAvailabilityService } from '../src/services/BlockAvailabilityService';
+import { rejectsLogsRange, splitLogsRequest, resolveLogsConfig } from '../src/services/LogsRangeLimits';
+import { BlockBasedRoutingOps } from '../src/operations/BlockBasedRoutingOps';
+import { PriorityRoutingOps } from '../src/operations/PriorityRoutingOps';
+import { FinalSelectorOps } from '../src/operations/FinalSelectorOps';
+import { JsonRpcRequest, ProjectConfig, RoutingContext, UpstreamConfig, UpstreamSyncState } from '../src/types';
+import {
+  ProjectOverrides,
+  ScriptedUpstreamService,
+  answer,
+  createAppConfig,
+  createProject as createTestProject,
+  createReply,
+  createStrategy,
+  fullNode,
+  rpc
+} from './helpers';
+
+console.log('🧪 Starting eth_getLogs Range Tests...\n');
+
+const appConfig = createAppConfig({ historicalMethods: ['eth_getLogs'] });
+
+const createProject = (upstreams: UpstreamConfig[], overrides: ProjectOverrides = {}) =>
+  createTestProject(upstreams, { blockTracking: { enabled: false }, ...overrides });
+
+function syncStates(ranges: Record<string, [number, number]>): Map<string, UpstreamSyncState> {
+  return new Map(Object.entries(ranges).map(([id, [earliestBlock, latestBlock]]) => [
+    id,
+    { earliestBlock, latestBlock, source: 'evm', lastUpdated: Date.now() }
+  ]));
+}
+
+const getLogs = (filter: Record<string, unknown>): JsonRpcRequest => rpc('eth_getLogs', [filter], 7);
+
+// Route a request through block-based routing, priority and final selection with fixed sync states.
+// Each eth_getLogs chunk is answered with one log per requested block bound
+async function execute(project: ProjectConfig, states: Map<string, UpstreamSyncState>, request: JsonRpcRequest) {
+  const calls: string[] = [];
+  const upstreamService = new ScriptedUpstreamService(project, (upstream, chunk) => {
+    const { fromBlock, toBlock } = chunk.params![0];
+    calls.push(`${upstream.id}:${fromBlock}-${toBlock}`);
+    return answer([{ upstream: upstream.id, fromBlock }], chunk.id);
+  });
+  const blockAvailability = new BlockAvailabilityService(project);
+  (blockAvailability as any).states = states;
+  const strategy = createStrategy(
+    project,
+    upstreamService,
+    [new BlockBasedRoutingOps(), new PriorityRoutingOps(), new FinalSelectorOps()],
+    appConfig
+  );
+  strategy.setBlockAvailability(blockAvailability);
+
+  const reply = createReply();
+  await strategy.execute(request, reply);
+  return { calls, reply };
+}
+
+async function runLogsRangeTests(): Promise<boolean> {
+  let passed = 0;
+  let failed = 0;
+
+  const check = (name: string, condition: boolean, detail?: string) => {
+    if (condition) {
+      console.log(`✅ ${name}`);
+      passed++;
+    } else {
+      console.log(`❌ ${name}${detail ? ` - ${detail}` : ''}`);
+      failed++;
+    }
+  };
+
+  // Extraction
+  const extractor = new BlockNumberExtractor(createProject([]), appConfig);
+  const range = (filter: Record<string, unknown>, head: number | null = 1000) =>
+    JSON.stringify(extractor.extractRange('eth_getLogs', [filter], head));
+
+  check(
+    'Both bounds are extracted',
+    range({ fromBlock: '0x10', toBlock: '0x20' }) === JSON.stringify({ fromBlock: 16, toBlock: 32, toHead: false })
+  );
+  check(
+    'Head tags and omitted bounds resolve against the head',
+    range({ fromBlock: '0x10' }) === JSON.stringify({ fromBlock: 16, toBlock: 1000, toHead: true }) &&
+      range({ fromBlock: 'earliest', toBlock: 'finalized' }) === JSON.stringify({ fromBlock: 0, toBlock: 1000, toHead: true }) &&
+      range({}) === JSON.stringify({ fromBlock: 1000, toBlock: 1000, toHead: true })
+  );
+  check(
+    'Unresolvable, inverted and blockHash filters have no range',
+    range({ fromBlock: '0x10' }, null) === 'null' &&
+      range({ fromBlock: '0x20', toBlock: '0x10' }) === 'null' &&
+      range({ blockHash: '0xabc' }) === 'null' &&
+      extractor.extractRange('eth_getBalance', ['0x0', '0x10'], 1000) === null
+  );
+  check(
+    'Block tags that look like hex are not parsed as numbers',
+    extractor.extract('eth_getLogs', [{ fromBlock: 'earliest' }]) === 0 &&
+      extractor.extract('eth_getLogs', [{ fromBlock: 'finalized' }]) === null
+  );
+
+  // Splitting
+  const chunks = splitLogsRequest(getLogs({ fromBlock: '0x0', address: '0xabc' }), { fromBlock: 0, toBlock: 24, toHead: true }, 10);
+  check(
+    'Over-wide ranges split into chunks and the last one keeps the head tag',
+    chunks.map(c => `${c.params![0].fromBlock}-${c.params![0].toBlock}`).join() === '0x0-0x9,0xa-0x13,0x14-latest' &&
+      chunks.every(c => c.params![0].address === '0xabc'),
+    JSON.stringify(chunks.map(c => c.params))
+  );
+  const limited = fullNode('limited', { maxLogsBlockRange: 10 });
+  check(
+    'Ranges needing more than maxSplitRequests chunks are rejected',
+    !rejectsLogsRange(limited, { fromBlock: 0, toBlock: 99, toHead: false }, resolveLogsConfig(createProject([]))) &&
+      rejectsLogsRange(limited, { fromBlock: 0, toBlock: 100, toHead: false }, resolveLogsConfig(createProject([]))) &&
+      rejectsLogsRange(limited, { fromBlock: 0, toBlock: 10, toHead: false }, resolveLogsConfig(createProject([], { logs: { onRangeExceeded: 'reject' } })))
+  );
+
+  // Coverage routing
+  const pruned = fullNode('pruned');
+  const deep = fullNode('deep', { priority: 2 });
+  const project = createProject([pruned, deep]);
+  const states = syncStates({ pruned: [900, 1000], deep: [0, 1000] });
+  let result = await execute(project, states, getLogs({ fromBlock: '0x64', toBlock: 'latest' }));
+  check(
+    'A range reaching back past a full node\'s history goes to one that covers it',
+    result.calls.join() === 'deep:0x64-latest',
+    result.calls.join()
+  );
+  result = await execute(project, syncStates({ pruned: [900, 1000], deep: [0, 1010] }), getLogs({ fromBlock: '0x3e8', toBlock: '0x3f0' }));
+  check('Both ends of an explicit range must be held', result.calls.join() === 'deep:0x3e8-0x3f0', result.calls.join());
+
+  // Range limits
+  const wide = fullNode('wide', { priority: 2 });
+  result = await execute(
+    createProject([fullNode('narrow', { maxLogsBlockRange: 10 }), wide]),
+    syncStates({ narrow: [0, 1000], wide: [0, 1000] }),
+    getLogs({ fromBlock: '0x0', toBlock: '0x63' })
+  );
+  check('Upstreams whose limit covers the range are preferred', result.calls.join() === 'wide:0x0-0x63', result.calls.join());
+
+  const narrowOnly = createProject([fullNode('narrow', { maxLogsBlockRange: 10 })]);
+  result = await execute(narrowOnly, syncStates({ narrow: [0, 1000] }), getLogs({ fromBlock: '0x3d4', toBlock: 'latest' }));
+  check(
+    'Split chunks are sent in order and their logs joined',
+    result.calls.join() === 'narrow:0x3d4-0x3dd,narrow:0x3de-0x3e7,narrow:0x3e8-latest' &&
+      result.reply.body?.id === 7 && result.reply.body?.result.map((log: any) => log.fromBlock).join() === '0x3d4,0x3de,0x3e8',
+    JSON.stringify(result)
+  );
+
+  result = await execute(
+    createProject(narrowOnly.upstreams, { logs: { onRangeExceeded: 'reject' } }),
+    syncStates({ narrow: [0, 1000] }),
+    getLogs({ fromBlock: '0x3d4', toBlock: 'latest' })
+  );
+  check(
+    'With reject, over-wide ranges fail with -32005 and no upstream call',
+    result.calls.length === 0 && result.reply.body?.error?.code === -32005 && result.reply.body?.error.data.maxBlockRange === 10,
+    JSON.stringify(result)
+  );
+
+  const context: RoutingContext = {
+    request: getLogs({ fromBlock: '0x0' }),
+    blockNumber: 0,
+    blockRange: { fromBlock: 0, toBlock: 1000, toHead: true },
+    nodeStatus: null,
+    availableUpstreams: [fullNode('a', { maxLogsBlockRange: 10 }), fullNode('b')],
+    allUpstreams: [],
+    upstreamHealth: new Map(),
+    config: createProject([]),
+    appConfig
+  };
+  const routed = await new BlockBasedRoutingOps().execute(context);
+  check(
+    'Range-limited upstreams are listed in the decision details',
+    routed.filteredUpstreams.map(u => u.id).join() === 'b' && routed.details?.rangeLimited.join() === 'a',
+    JSON.stringify(routed.details)
+  );
+
+  console.log(`\n📊 eth_getLogs Range Test Results:`);
+  console.log(`✅ Passed: ${passed}`);
+  console.log(`❌ Failed: ${failed}`);
+
+  if (failed === 0) {
+    console.log(`\n🎉 All eth_getLogs Range tests passed!`);
+  } else {
+    console.log(`\n💥 ${failed} test(s) failed.`);
+  }
+  return failed === 0;
+}
+
+// Run tests only if this file is executed directly
+if (require.main === module) {
+  runLogsRangeTests()
+    .then(passed => process.exit(passed ? 0 : 1))
+    .catch(error => {
+      console.error('eth_getLogs range test execution failed:', error);
+      process.exit(1);
+    });
+}
+
+export { runLogsRangeTests };
\ No newline at end of file
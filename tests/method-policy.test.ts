@@ -0,0 +1,108 @@
+#!/usr/bin/env ts-node
+
+import { UpstreamService } from '../src/services/UpstreamService';
+import { applyMethodAliases, checkMethodPolicy, resolveMethodAlias } from '../src/services/MethodPolicy';
+import { ProjectConfig, UpstreamConfig } from '../src/types';
+import { ProjectOverrides, createProject as createTestProject, rpc, startMockNode } from './helpers';
+
+console.log('🧪 Starting Method Policy Tests...\n');
+
+const createProject = (upstreams: UpstreamConfig[], overrides: ProjectOverrides = {}): ProjectConfig =>
+  createTestProject(upstreams, { id: 'public', health: { maxConsecutiveErrors: 100 }, ...overrides });
+
+async function runMethodPolicyTests(): Promise<boolean> {
+  let passed = 0;
+  let failed = 0;
+
+  const check = (name: string, condition: boolean, detail?: string) => {
+    if (condition) {
+      console.log(`✅ ${name}`);
+      passed++;
+    } else {
+      console.log(`❌ ${name}${detail ? ` - ${detail}` : ''}`);
+      failed++;
+    }
+  };
+
+  // Allow and deny lists
+  const open = createProject([]);
+  check('Without lists every method is allowed', checkMethodPolicy(open, 'debug_traceTransaction').allowed);
+
+  const guarded = createProject([], { blockedMethods: ['personal_*', 'admin_*', 'debug_*'] });
+  const blocked = checkMethodPolicy(guarded, 'personal_sign');
+  check(
+    'Blocked methods are refused with -32006',
+    !blocked.allowed && blocked.code === -32006 && blocked.message === 'Method personal_sign is blocked on project public',
+    JSON.stringify(blocked)
+  );
+  check('Methods outside the deny list pass', checkMethodPolicy(guarded, 'eth_call').allowed);
+
+  const allowList = createProject([], { allowedMethods: ['eth_*', 'net_version'], blockedMethods: ['eth_sign'] });
+  const missing = checkMethodPolicy(allowList, 'trace_block');
+  check(
+    'Methods outside the allow list are refused with -32601',
+    !missing.allowed && missing.code === -32601 && checkMethodPolicy(allowList, 'net_version').allowed,
+    JSON.stringify(missing)
+  );
+  const both = checkMethodPolicy(allowList, 'eth_sign');
+  check('Blocked methods win over allowed patterns', !both.allowed && both.code === -32006, JSON.stringify(both));
+
+  // Aliases
+  const seiOnly: UpstreamConfig = { id: 'sei-only', rpcUrl: 'http://sei.invalid', type: 'full', priority: 1, methodAliases: { eth_getLogs: 'sei_getLogs' } };
+  const plain: UpstreamConfig = { id: 'plain', rpcUrl: 'http://plain.invalid', type: 'full', priority: 2 };
+  const aliased = createProject([seiOnly, plain], { methodAliases: { sei_getLogs: 'eth_getLogs' } });
+  check(
+    'Upstream aliases override project aliases',
+    resolveMethodAlias(aliased, plain, 'sei_getLogs') === 'eth_getLogs' &&
+      resolveMethodAlias(aliased, seiOnly, 'eth_getLogs') === 'sei_getLogs' &&
+      resolveMethodAlias(aliased, seiOnly, 'sei_getLogs') === 'eth_getLogs' &&
+      resolveMethodAlias(aliased, plain, 'eth_blockNumber') === 'eth_blockNumber'
+  );
+  const request = rpc('eth_blockNumber');
+  check('Requests without an alias are sent unchanged', applyMethodAliases(aliased, plain, request) === request);
+
+  // Proxying
+  // Echoes back the method names it receives
+  const node = await startMockNode(request => ({ result: request.method }));
+  const received = () => node.requests.map(r => r.method).join();
+  try {
+    const upstream: UpstreamConfig = { id: 'node', rpcUrl: node.url(), type: 'full', priority: 1 };
+    const upstreamService = new UpstreamService(createProject([upstream], { methodAliases: { sei_getLogs: 'eth_getLogs' } }));
+
+    const single = await upstreamService.proxyRequest(upstream, rpc('sei_getLogs', [], 7));
+    check(
+      'Aliases are applied when proxying',
+      received() === 'eth_getLogs' && single.success && single.data.id === 7,
+      received()
+    );
+
+    node.requests.length = 0;
+    await upstreamService.proxyRequest(upstream, [rpc('sei_getLogs', [], 1), rpc('eth_chainId', [], 2)]);
+    check('Every item of an upstream batch is renamed', received() === 'eth_getLogs,eth_chainId', received());
+  } finally {
+    await node.close();
+  }
+
+  console.log(`\n📊 Method Policy Test Results:`);
+  console.log(`✅ Passed: ${passed}`);
+  console.log(`❌ Failed: ${failed}`);
+
+  if (failed === 0) {
+    console.log(`\n🎉 All Method Policy tests passed!`);
+  } else {
+    console.log(`\n💥 ${failed} test(s) failed.`);
+  }
+  return failed === 0;
+}
+
+// Run tests only if this file is executed directly
+if (require.main === module) {
+  runMethodPolicyTests()
+    .then(passed => process.exit(passed ? 0 : 1))
+    .catch(error => {
+      console.error('Method policy test execution failed:', error);
+      process.exit(1);
+    });
+}
+
+export { runMethodPolicyTests };
\ No newline at end of file
@@ -81,7 +81,7 @@ async function testServerAvailability(): Promise<boolean> {
   }
 }
 
-async function runIntegrationTests(): Promise<void> {
+async function runIntegrationTests(): Promise<boolean> {
   // Check if server is running
   console.log('🔍 Checking server availability...');
   const serverAvailable = await testServerAvailability();
@@ -90,7 +90,7 @@ async function runIntegrationTests(): Promise<void> {
     console.log('⚠️  Server not available at ' + SERVER_URL);
     console.log('   Please start the server with: npm run dev');
     console.log('   Skipping integration tests...\n');
-    return;
+    return true;
   }
 
   console.log('✅ Server is available\n');
@@ -225,14 +225,17 @@ async function runIntegrationTests(): Promise<void> {
   } else {
     console.log(`\n💥 ${failed} integration test(s) failed.`);
   }
+  return failed === 0;
 }
 
 // Run tests only if this file is executed directly
 if (require.main === module) {
-  runIntegrationTests().catch(error => {
-    console.error('Integration test execution failed:', error);
-    process.exit(1);
-  });
+  runIntegrationTests()
+    .then(passed => process.exit(passed ? 0 : 1))
+    .catch(error => {
+      console.error('Integration test execution failed:', error);
+      process.exit(1);
+    });
 }
 
 export { runIntegrationTests };
\ No newline at end of file
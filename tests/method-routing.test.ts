@@ -94,7 +94,7 @@ const testCases = [
   }
 ];
 
-async function runTests(): Promise<void> {
+async function runTests(): Promise<boolean> {
   let passed = 0;
   let failed = 0;
 
@@ -226,19 +226,20 @@ async function runTests(): Promise<void> {
 
   if (failed === 0) {
     console.log(`\n🎉 All Method Routing tests passed!`);
-    process.exit(0);
   } else {
     console.log(`\n💥 ${failed} test(s) failed.`);
-    process.exit(1);
   }
+  return failed === 0;
 }
 
 // Run tests only if this file is executed directly
 if (require.main === module) {
-  runTests().catch(error => {
-    console.error('Test execution failed:', error);
-    process.exit(1);
-  });
+  runTests()
+    .then(passed => process.exit(passed ? 0 : 1))
+    .catch(error => {
+      console.error('Test execution failed:', error);
+      process.exit(1);
+    });
 }
 
 export { runTests };
\ No newline at end of file
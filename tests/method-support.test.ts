@@ -0,0 +1,184 @@
+#!/usr/bin/env ts-node
+
+import { UpstreamService } from '../src/services/UpstreamService';
+import { MethodSupportTracker } from '../src/services/MethodSupportTracker';
+import { RpcErrorClassifier } from '../src/services/RpcErrorClassifier';
+import { MethodRoutingOps } from '../src/operations/MethodRoutingOps';
+import { PriorityRoutingOps } from '../src/operations/PriorityRoutingOps';
+import { FinalSelectorOps } from '../src/operations/FinalSelectorOps';
+import { ProjectConfig } from '../src/types';
+import { createProject as createTestProject, createReply, createStrategy, rpc, startMockNode } from './helpers';
+
+console.log('🧪 Starting Method Support Tests...\n');
+
+// Methods each mock upstream, addressed by URL path, answers with -32601
+const UNSUPPORTED: Record<string, string[]> = {
+  '/a': ['trace_block', 'foo_bar'],
+  '/b': ['foo_bar']
+};
+
+const startMockUpstreams = () =>
+  startMockNode((request, path) =>
+    UNSUPPORTED[path].includes(request.method)
+      ? { error: { code: -32601, message: `the method ${request.method} does not exist/is not available` } }
+      : { result: path.slice(1) }
+  );
+
+const createProject = (url: string): ProjectConfig =>
+  createTestProject(
+    [
+      { id: 'a', rpcUrl: `${url}/a`, type: 'full', priority: 1 },
+      { id: 'b', rpcUrl: `${url}/b`, type: 'full', priority: 2 }
+    ],
+    { id: 'methods', health: { maxConsecutiveErrors: 100 }, blockTracking: { enabled: false } }
+  );
+
+async function runMethodSupportTests(): Promise<boolean> {
+  let passed = 0;
+  let failed = 0;
+
+  const check = (name: string, condition: boolean, detail?: string) => {
+    if (condition) {
+      console.log(`✅ ${name}`);
+      passed++;
+    } else {
+      console.log(`❌ ${name}${detail ? ` - ${detail}` : ''}`);
+      failed++;
+    }
+  };
+
+  // Classification
+  const classifier = new RpcErrorClassifier();
+  check(
+    'Method-not-found errors are classified as unsupported methods',
+    classifier.classify({ code: -32601, message: 'Method not found' }) === 'unsupported_method' &&
+      classifier.classify({ code: -32000, message: 'the method trace_block does not exist/is not available' }) === 'unsupported_method' &&
+      classifier.classify({ code: -32000, message: 'Method not supported' }) === 'unsupported_method'
+  );
+
+  // Tracker
+  let now = 1000000;
+  const tracker = new MethodSupportTracker({ ttlMs: 60000 }, () => now);
+  tracker.recordUnsupported('a', 'trace_block');
+  tracker.recordUnsupported('b', 'debug_traceCall');
+  check(
+    'Learned methods are listed per upstream with their expiry',
+    tracker.getUnsupported().get('a')?.has('trace_block') === true &&
+      tracker.getStatus('a')['trace_block'] === new Date(1060000).toISOString(),
+    JSON.stringify(tracker.getStatus('a'))
+  );
+  now += 60000;
+  check('Learned methods expire after the TTL', tracker.getUnsupported().size === 0 && Object.keys(tracker.getStatus('a')).length === 0);
+
+  tracker.recordUnsupported('a', 'trace_block');
+  tracker.recordUnsupported('b', 'debug_traceCall');
+  const adopted = new MethodSupportTracker({ ttlMs: 60000 }, () => now);
+  adopted.adoptState(tracker);
+  check(
+    'Clearing one upstream keeps the others, clearing all empties the list',
+    adopted.clear('a') === 1 && adopted.getUnsupported().has('b') && adopted.clear() === 1 && adopted.getUnsupported().size === 0
+  );
+
+  const bounded = new MethodSupportTracker({ ttlMs: 60000 }, () => now);
+  const warn = console.warn;
+  console.warn = () => undefined;
+  for (let i = 0; i <= 1000; i++) {
+    bounded.recordUnsupported('a', `x_method${i}`);
+  }
+  console.warn = warn;
+  const boundedMethods = bounded.getUnsupported().get('a');
+  check(
+    'Each upstream keeps a bounded number of methods, dropping the oldest',
+    boundedMethods?.size === 1000 && !boundedMethods.has('x_method0') && boundedMethods.has('x_method1000'),
+    String(boundedMethods?.size)
+  );
+
+  const disabled = new MethodSupportTracker({ enabled: false });
+  disabled.recordUnsupported('a', 'trace_block');
+  check('A disabled tracker learns nothing', disabled.getUnsupported().size === 0);
+
+  // Routing
+  const node = await startMockUpstreams();
+  try {
+    const project = createProject(node.url());
+    const upstreamService = new UpstreamService(project);
+    const strategy = createStrategy(project, upstreamService, [new MethodRoutingOps(), new PriorityRoutingOps(), new FinalSelectorOps()]);
+
+    const send = async (method: string) => {
+      node.requests.length = 0;
+      const reply = createReply();
+      await strategy.execute(rpc(method), reply, { query: { debug: '1' } });
+      return { calls: node.requests.map(r => `${r.path.slice(1)}:${r.method}`).join(' → '), body: reply.body };
+    };
+
+    let result = await send('trace_block');
+    check(
+      'An unsupported method fails over to the next upstream',
+      result.calls === 'a:trace_block → b:trace_block' && result.body?.result === 'b',
+      result.calls
+    );
+    check(
+      'The upstream is not penalized for a missing method',
+      upstreamService.getHealthStatus()['a'].totalErrors === 0 && upstreamService.isUpstreamHealthy('a')
+    );
+
+    result = await send('trace_block');
+    const methodRouting = result.body?.debug?.strategy.events.find((e: any) => e.operation === 'MethodRouting' && e.action === 'result');
+    check(
+      'Later requests skip the upstream that does not support the method',
+      result.calls === 'b:trace_block' && methodRouting?.data.details?.learnedUnsupported.join() === 'a',
+      JSON.stringify(methodRouting)
+    );
+    check(
+      'Other methods still go to the upstream',
+      (await send('eth_chainId')).calls === 'a:eth_chainId'
+    );
+    check(
+      'Learned methods are shown in the health status',
+      Object.keys(upstreamService.getHealthStatus()['a'].unsupportedMethods).join() === 'trace_block',
+      JSON.stringify(upstreamService.getHealthStatus()['a'].unsupportedMethods)
+    );
+
+    result = await send('foo_bar');
+    check(
+      'When no upstream supports the method, the upstream error is forwarded',
+      result.calls === 'a:foo_bar → b:foo_bar' && result.body?.error?.code === -32601,
+      JSON.stringify(result)
+    );
+    result = await send('foo_bar');
+    check(
+      'Once learned everywhere, the gateway answers -32601 without calling upstreams',
+      result.calls === '' && result.body?.error?.code === -32601 && result.body.error.message.includes('not supported by any upstream'),
+      JSON.stringify(result)
+    );
+
+    check('Clearing reports the number of forgotten methods', upstreamService.clearUnsupportedMethods('a') === 2);
+    result = await send('trace_block');
+    check('Cleared methods are tried on the upstream again', result.calls.startsWith('a:trace_block'), result.calls);
+  } finally {
+    await node.close();
+  }
+
+  console.log(`\n📊 Method Support Test Results:`);
+  console.log(`✅ Passed: ${passed}`);
+  console.log(`❌ Failed: ${failed}`);
+
+  if (failed === 0) {
+    console.log(`\n🎉 All Method Support tests passed!`);
+  } else {
+    console.log(`\n💥 ${failed} test(s) failed.`);
+  }
+  return failed === 0;
+}
+
+// Run tests only if this file is executed directly
+if (require.main === module) {
+  runMethodSupportTests()
+    .then(passed => process.exit(passed ? 0 : 1))
+    .catch(error => {
+      console.error('Method support test execution failed:', error);
+      process.exit(1);
+    });
+}
+
+export { runMethodSupportTests };
\ No newline at end of file
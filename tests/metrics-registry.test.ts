@@ -0,0 +1,100 @@
+#!/usr/bin/env ts-node
+
+import { MetricsRegistry } from '../src/services/MetricsRegistry';
+
+console.log('🧪 Starting Metrics Registry Tests...\n');
+
+async function runMetricsRegistryTests(): Promise<boolean> {
+  let passed = 0;
+  let failed = 0;
+
+  const check = (name: string, condition: boolean, detail?: string) => {
+    if (condition) {
+      console.log(`✅ ${name}`);
+      passed++;
+    } else {
+      console.log(`❌ ${name}${detail ? ` - ${detail}` : ''}`);
+      failed++;
+    }
+  };
+
+  const registry = MetricsRegistry.getInstance();
+  registry.reset();
+
+  registry.recordUpstreamRequest('gateway', 'node-a', 'eth_call', 'success', 40);
+  registry.recordUpstreamRequest('gateway', 'node-a', 'eth_call', 'success', 300);
+  registry.recordUpstreamRequest('gateway', 'node-b', 'eth_call', 'timeout', 1000);
+  registry.recordUpstreamRequest('indexing', 'node-c', 'eth_getLogs', 'success', 10);
+
+  const output = registry.render([
+    { name: 'erpc_upstream_healthy', labels: { project: 'gateway', upstream: 'node-a' }, value: 1 },
+    { name: 'erpc_local_node_latest_block', labels: { project: 'indexing' }, value: 1234 }
+  ]);
+
+  check(
+    'Request counter aggregates identical labels',
+    output.includes('erpc_upstream_requests_total{project="gateway",upstream="node-a",method="eth_call",outcome="success"} 2'),
+    output
+  );
+  check(
+    'Error counter only counts failures',
+    output.includes('erpc_upstream_errors_total{project="gateway",upstream="node-b",method="eth_call",outcome="timeout"} 1') &&
+      !output.includes('erpc_upstream_errors_total{project="gateway",upstream="node-a"')
+  );
+  check(
+    'Histogram buckets are cumulative',
+    output.includes('erpc_upstream_request_duration_seconds_bucket{project="gateway",upstream="node-a",method="eth_call",outcome="success",le="0.05"} 1') &&
+      output.includes('erpc_upstream_request_duration_seconds_bucket{project="gateway",upstream="node-a",method="eth_call",outcome="success",le="0.5"} 2') &&
+      output.includes('erpc_upstream_request_duration_seconds_count{project="gateway",upstream="node-a",method="eth_call",outcome="success"} 2')
+  );
+  check(
+    'Metric families carry HELP and TYPE headers',
+    output.includes('# TYPE erpc_upstream_requests_total counter') &&
+      output.includes('# TYPE erpc_upstream_request_duration_seconds histogram') &&
+      output.includes('# TYPE erpc_upstream_healthy gauge')
+  );
+  check('Gauges are rendered from scrape-time samples', output.includes('erpc_local_node_latest_block{project="indexing"} 1234'));
+
+  const projectOutput = registry.render([], 'indexing');
+  check(
+    'Project filter excludes other projects',
+    projectOutput.includes('project="indexing"') && !projectOutput.includes('project="gateway"'),
+    projectOutput
+  );
+
+  registry.recordUpstreamRequest('gateway', 'node-a', 'eth_madeUp_1', 'success', 1);
+  registry.recordUpstreamRequest('gateway', 'node-a', 'eth_madeUp_2', 'success', 1);
+  check(
+    'Unknown methods share the other label',
+    registry.render([]).includes('erpc_upstream_requests_total{project="gateway",upstream="node-a",method="other",outcome="success"} 2') &&
+      !registry.render([]).includes('eth_madeUp')
+  );
+
+  registry.recordUpstreamRequest('gateway', 'node-"x"', 'eth_call', 'success', 1);
+  check('Label values are escaped', registry.render([]).includes('upstream="node-\\"x\\""'));
+
+  registry.reset();
+
+  console.log(`\n📊 Metrics Registry Test Results:`);
+  console.log(`✅ Passed: ${passed}`);
+  console.log(`❌ Failed: ${failed}`);
+
+  if (failed === 0) {
+    console.log(`\n🎉 All Metrics Registry tests passed!`);
+  } else {
+    console.log(`\n💥 ${failed} test(s) failed.`);
+  }
+  return failed === 0;
+}
+
+// Run tests only if this file is executed directly
+if (require.main === module) {
+  runMetricsRegistryTests()
+    .then(passed => process.exit(passed ? 0 : 1))
+    .catch(error => {
+      console.error('Metrics registry test execution failed:', error);
+      process.exit(1);
+    });
+}
+
+export { runMetricsRegistryTests };
\ No newline at end of file
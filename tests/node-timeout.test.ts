@@ -4,7 +4,7 @@ import fs from 'fs';
 import path from 'path';
 import fetch from 'node-fetch';
 
-async function runNodeTimeoutTests(): Promise<void> {
+async function runNodeTimeoutTests(): Promise<boolean> {
   // Load config
   const configPath = path.join(__dirname, '../../config.json');
   const config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
@@ -37,7 +37,7 @@ async function runNodeTimeoutTests(): Promise<void> {
     {
       name: 'Metrics with Health Info',
       description: 'Should include upstream health information in metrics',
-      endpoint: '/metrics',
+      endpoint: '/metrics?format=json',
       expectedStatus: 200,
       expectedHealthyNodes: true
     },
@@ -222,18 +222,19 @@ async function runNodeTimeoutTests(): Promise<void> {
     console.log(`   ✅ All tests passed!`);
     console.log(`   📊 Note: This test suite focuses on system resilience during node timeouts`);
     console.log(`   📊 Actual timeout behavior requires real node failures to fully test`);
-    process.exit(0);
   } else {
     console.log(`   ❌ ${totalTests - passedTests} tests failed`);
-    process.exit(1);
   }
+  return passedTests === totalTests;
 }
 
 if (require.main === module) {
-  runNodeTimeoutTests().catch((error) => {
-    console.error('Node timeout test runner error:', error);
-    process.exit(1);
-  });
+  runNodeTimeoutTests()
+    .then(passed => process.exit(passed ? 0 : 1))
+    .catch((error) => {
+      console.error('Node timeout test runner error:', error);
+      process.exit(1);
+    });
 }
 
 export { runNodeTimeoutTests };
\ No newline at end of file
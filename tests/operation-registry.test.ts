@@ -0,0 +1,159 @@
+#!/usr/bin/env ts-node
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createOperationRegistry, DEFAULT_PIPELINE } from '../src/operations/OperationRegistry';
+import { UpstreamService } from '../src/services/UpstreamService';
+import { parseAppConfig } from '../src/configSchema';
+import { ProjectConfig, RoutingContext, UpstreamConfig } from '../src/types';
+
+console.log('🧪 Starting Operation Registry Tests...\n');
+
+const upstreams: UpstreamConfig[] = [
+  { id: 'cheap', rpcUrl: 'http://cheap.invalid', type: 'full', priority: 1 },
+  { id: 'fast', rpcUrl: 'http://fast.invalid', type: 'full', priority: 2 }
+];
+
+function createProject(pipeline?: ProjectConfig['pipeline']): ProjectConfig {
+  return {
+    id: 'pipeline-test',
+    upstreams,
+    errorRateThreshold: 0.5,
+    statusCheckInterval: 60000,
+    responseTimeout: 1000,
+    health: { errorRateWindowMs: 60000, maxConsecutiveErrors: 5, failoverCooldownMs: 1000, nodeStatusTimeoutMs: 1000 },
+    pipeline
+  };
+}
+
+// A plugin that keeps only the upstreams named in its options
+const PLUGIN_SOURCE = `
+exports.register = registry => {
+  registry.register('OnlyUpstreams', ({ options }) => ({
+    name: 'OnlyUpstreams',
+    execute: async context => {
+      const filteredUpstreams = context.availableUpstreams.filter(u => options.ids.includes(u.id));
+      return { filteredUpstreams, reason: 'Kept ' + options.ids.join(), shouldContinue: filteredUpstreams.length > 0 };
+    }
+  }));
+};
+`;
+
+async function runOperationRegistryTests(): Promise<boolean> {
+  let passed = 0;
+  let failed = 0;
+
+  const check = (name: string, condition: boolean, detail?: string) => {
+    if (condition) {
+      console.log(`✅ ${name}`);
+      passed++;
+    } else {
+      console.log(`❌ ${name}${detail ? ` - ${detail}` : ''}`);
+      failed++;
+    }
+  };
+
+  // Built-in pipeline
+  const registry = createOperationRegistry();
+  const project = createProject();
+  const defaultOperations = registry.build(project, new UpstreamService(project));
+  check(
+    'Projects without a pipeline get the built-in operations in order',
+    defaultOperations.map(op => op.name).join() === DEFAULT_PIPELINE.join(),
+    defaultOperations.map(op => op.name).join()
+  );
+  check('The built-in pipeline is valid', registry.validate(DEFAULT_PIPELINE).length === 0);
+
+  const custom = createProject(['MethodRouting', 'PriorityRoutingOps', 'FinalSelector']);
+  check(
+    'A declared pipeline is built in the declared order',
+    registry.build(custom, new UpstreamService(custom)).map(op => op.name).join() === 'MethodRouting,PriorityRoutingOps,FinalSelector'
+  );
+
+  // Validation
+  check(
+    'Unknown operations are reported with the registered names',
+    registry.validate(['MethodRouting', 'Teleport', 'FinalSelector'])[0]?.startsWith('Unknown routing operation Teleport, registered: RecoveryFilter,'),
+    registry.validate(['Teleport']).join()
+  );
+  check(
+    'Repeated operations are reported',
+    registry.validate(['MethodRouting', 'MethodRouting', 'FinalSelector']).join() === 'Routing operation MethodRouting is listed more than once'
+  );
+  check(
+    'A pipeline without a selector is rejected',
+    registry.validate(['MethodRouting', 'MetricsHandling']).join() === 'Pipeline has no selector operation such as FinalSelector'
+  );
+  check(
+    'Filters after the selector are rejected, observers are not',
+    registry.validate(['FinalSelector', 'MetricsHandling', 'HeadLagFilter']).join() === 'Routing operation HeadLagFilter runs after the selector FinalSelector' &&
+      registry.validate(['MethodRouting', 'FinalSelector', 'MetricsHandling']).length === 0
+  );
+
+  // Plugins
+  const pluginDir = fs.mkdtempSync(path.join(os.tmpdir(), 'erpc-plugin-'));
+  try {
+    fs.writeFileSync(path.join(pluginDir, 'only-upstreams.js'), PLUGIN_SOURCE);
+    fs.writeFileSync(path.join(pluginDir, 'empty.js'), 'exports.name = "empty";');
+
+    const pluginRegistry = createOperationRegistry(['./only-upstreams.js'], pluginDir);
+    const pluginProject = createProject([
+      'MethodRouting',
+      { operation: 'OnlyUpstreams', options: { ids: ['fast'] } },
+      'FinalSelector'
+    ]);
+    const operations = pluginRegistry.build(pluginProject, new UpstreamService(pluginProject));
+    const result = await operations[1].execute({ availableUpstreams: upstreams } as RoutingContext);
+    check(
+      'Plugin operations are registered and receive their options',
+      pluginRegistry.validate(pluginProject.pipeline!).length === 0 && result.filteredUpstreams.map(u => u.id).join() === 'fast',
+      JSON.stringify(result)
+    );
+
+    let error = '';
+    try {
+      createOperationRegistry(['./empty.js'], pluginDir);
+    } catch (e) {
+      error = (e as Error).message;
+    }
+    check('Plugins without register() are rejected', error === 'Plugin ./empty.js does not export a register(registry) function', error);
+  } finally {
+    fs.rmSync(pluginDir, { recursive: true, force: true });
+  }
+
+  // Config schema
+  const parsed = parseAppConfig({
+    plugins: ['./plugins/routing.js'],
+    defaultProject: 'p',
+    projects: [{ id: 'p', upstreams, pipeline: ['MethodRouting', { operation: 'FinalSelector', options: {} }] }],
+    testing: {
+      testAddress: '0x0', historicalBlockHex: '0x1', historicalBlockNumber: 1, veryOldBlockHex: '0x1',
+      veryOldBlockNumber: 1, timeout: 1000, maxDurationMs: 1000, minDurationMs: 0
+    }
+  });
+  check('Pipelines and plugins are accepted by the config schema', parsed.success, JSON.stringify(parsed));
+
+  console.log(`\n📊 Operation Registry Test Results:`);
+  console.log(`✅ Passed: ${passed}`);
+  console.log(`❌ Failed: ${failed}`);
+
+  if (failed === 0) {
+    console.log(`\n🎉 All Operation Registry tests passed!`);
+  } else {
+    console.log(`\n💥 ${failed} test(s) failed.`);
+  }
+  return failed === 0;
+}
+
+// Run tests only if this file is executed directly
+if (require.main === module) {
+  runOperationRegistryTests()
+    .then(passed => process.exit(passed ? 0 : 1))
+    .catch(error => {
+      console.error('Operation registry test execution failed:', error);
+      process.exit(1);
+    });
+}
+
+export { runOperationRegistryTests };
\ No newline at end of file
@@ -5,7 +5,8 @@ import { PriorityRoutingOps } from '../src/operations/PriorityRoutingOps';
 import { BlockBasedRoutingOps } from '../src/operations/BlockBasedRoutingOps';
 import { FallbackArchivalRoutingOps } from '../src/operations/FallbackArchivalRoutingOps';
 import { ErrorRatesOps } from '../src/operations/ErrorRatesOps';
-import { RoutingContext, UpstreamConfig, UpstreamHealth, LocalNodeStatus } from '../src/types';
+import { UpstreamService } from '../src/services/UpstreamService';
+import { ProjectConfig, RoutingContext, UpstreamConfig, UpstreamHealth, LocalNodeStatus } from '../src/types';
 
 console.log('🧪 Starting Pipeline Architecture Tests...\n');
 
@@ -116,6 +117,7 @@ function createHealthScenario(scenario: 'all-healthy' | 'some-unhealthy' | 'all-
 }
 
 const mockNodeStatus: LocalNodeStatus = {
+  state: 'synced',
   earliestBlockHeight: 1000000,
   latestBlockHeight: 2000000,
   catchingUp: false,
@@ -195,7 +197,7 @@ const pipelineTestCases = [
   }
 ];
 
-async function runPipelineTests(): Promise<void> {
+async function runPipelineTests(): Promise<boolean> {
   let passed = 0;
   let failed = 0;
 
@@ -220,21 +222,24 @@ async function runPipelineTests(): Promise<void> {
         upstreamHealth: health,
         config: {
           errorRateThreshold: 0.1,
+          archiveCutoffBlock: 169000000, // The historical scenarios expect blocks below it on archives
           health: {
             errorRateWindowMs: 300000,
             maxConsecutiveErrors: 3,
             failoverCooldownMs: 30000,
             nodeStatusTimeoutMs: 5000
-          }
+          },
+          // Circuits recover passively here; the active health checker would own recovery otherwise
+          healthCheck: { enabled: false }
         } as any,
         appConfig: {
           historicalMethods: ['eth_getBlockByNumber', 'eth_getBlockByHash', 'debug_traceTransaction']
         } as any
       };
 
-      // Simulate pipeline execution
+      // Simulate pipeline execution; the upstream service shares the scenario's health map
       const operations = [
-        new ErrorRatesOps(),
+        new ErrorRatesOps(new UpstreamService({ ...context.config, upstreams: mockUpstreams }, health)),
         new MethodRoutingOps(),
         new PriorityRoutingOps(),
         new FallbackArchivalRoutingOps(),
@@ -334,19 +339,20 @@ async function runPipelineTests(): Promise<void> {
 
   if (failed === 0) {
     console.log(`\n🎉 All Pipeline Architecture tests passed!`);
-    process.exit(0);
   } else {
     console.log(`\n💥 ${failed} test(s) failed.`);
-    process.exit(1);
   }
+  return failed === 0;
 }
 
 // Run tests only if this file is executed directly
 if (require.main === module) {
-  runPipelineTests().catch(error => {
-    console.error('Pipeline test execution failed:', error);
-    process.exit(1);
-  });
+  runPipelineTests()
+    .then(passed => process.exit(passed ? 0 : 1))
+    .catch(error => {
+      console.error('Pipeline test execution failed:', error);
+      process.exit(1);
+    });
 }
 
 export { runPipelineTests };
\ No newline at end of file
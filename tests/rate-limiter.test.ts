@@ -0,0 +1,123 @@
+#!/usr/bin/env ts-node
+
+import { RateLimiter } from '../src/services/RateLimiter';
+import { RateLimitConfig } from '../src/types';
+
+console.log('🧪 Starting Rate Limiter Tests...\n');
+
+const rateLimitConfig: RateLimitConfig = {
+  enabled: true,
+  rules: [
+    { group: 'debug', methods: ['debug_*', 'trace_*'], requestsPerSecond: 1, burst: 2 },
+    { group: 'logs', methods: ['eth_getLogs'], requestsPerSecond: 100, dailyQuota: 3 },
+    { group: 'default', methods: ['*'], requestsPerSecond: 10 }
+  ]
+};
+
+async function runRateLimiterTests(): Promise<boolean> {
+  let passed = 0;
+  let failed = 0;
+
+  const check = (name: string, condition: boolean, detail?: string) => {
+    if (condition) {
+      console.log(`✅ ${name}`);
+      passed++;
+    } else {
+      console.log(`❌ ${name}${detail ? ` - ${detail}` : ''}`);
+      failed++;
+    }
+  };
+
+  // Clock under test control, starting just before a UTC midnight
+  let now = Date.UTC(2024, 0, 1, 23, 59, 0);
+  const limiter = new RateLimiter(rateLimitConfig, () => now);
+
+  check('Disabled limiter allows everything', new RateLimiter(undefined).consume('ip:1', 'debug_x').allowed);
+
+  // Burst of 2 then the bucket is empty
+  const first = limiter.consume('ip:1', 'debug_traceTransaction');
+  const second = limiter.consume('ip:1', 'trace_block');
+  const third = limiter.consume('ip:1', 'debug_traceTransaction');
+  check('Burst capacity is honored', first.allowed && second.allowed && !third.allowed);
+  check(
+    'Rejection carries group and retry hint',
+    !third.allowed && third.reason === 'rate_limit' && third.group === 'debug' && third.retryAfterMs === 1000,
+    JSON.stringify(third)
+  );
+
+  // Groups and clients have independent buckets
+  check('Other method groups are unaffected', limiter.consume('ip:1', 'eth_call').allowed);
+  check('Other clients are unaffected', limiter.consume('ip:2', 'debug_traceTransaction').allowed);
+
+  // Tokens refill over time
+  now += 1000;
+  check('Bucket refills at the configured rate', limiter.consume('ip:1', 'debug_traceTransaction').allowed);
+  check('Refill does not exceed one token per second', !limiter.consume('ip:1', 'debug_traceTransaction').allowed);
+
+  // Daily quota
+  limiter.consume('ip:1', 'eth_getLogs');
+  limiter.consume('ip:1', 'eth_getLogs');
+  limiter.consume('ip:1', 'eth_getLogs');
+  const overQuota = limiter.consume('ip:1', 'eth_getLogs');
+  check(
+    'Daily quota is enforced until the next UTC day',
+    !overQuota.allowed && overQuota.reason === 'daily_quota' && overQuota.retryAfterMs === 59000,
+    JSON.stringify(overQuota)
+  );
+
+  now += 60000;
+  check('Quota resets on a new UTC day', limiter.consume('ip:1', 'eth_getLogs').allowed);
+  check(
+    'Only rules with a daily quota keep quota counters',
+    [...(limiter as any).quotas.keys()].join() === 'ip:1|logs',
+    [...(limiter as any).quotas.keys()].join()
+  );
+
+  // Counters from earlier days are dropped once the tracking limit is reached
+  const crowded = new RateLimiter(rateLimitConfig, () => now);
+  for (let i = 0; i < 10000; i++) {
+    crowded.consume(`ip:${i}`, 'eth_getLogs');
+  }
+  now += 24 * 60 * 60 * 1000;
+  crowded.consume('ip:new', 'eth_getLogs');
+  check('Stale quota counters are pruned', (crowded as any).quotas.size === 1, String((crowded as any).quotas.size));
+
+  // Per-key rules replace the global rules
+  const keyRules = [{ group: 'vip', methods: ['*'], requestsPerSecond: 1000, burst: 1000 }];
+  let vipAllowed = true;
+  for (let i = 0; i < 50; i++) {
+    vipAllowed = vipAllowed && limiter.consume('key:vip', 'debug_traceTransaction', keyRules).allowed;
+  }
+  check('Per-key rules override global limits', vipAllowed);
+
+  // Methods without a matching rule are not limited
+  const partial = new RateLimiter({ enabled: true, rules: [{ group: 'debug', methods: ['debug_*'], requestsPerSecond: 1 }] }, () => now);
+  let unlimited = true;
+  for (let i = 0; i < 20; i++) {
+    unlimited = unlimited && partial.consume('ip:1', 'eth_blockNumber').allowed;
+  }
+  check('Methods without a rule are not limited', unlimited);
+
+  console.log(`\n📊 Rate Limiter Test Results:`);
+  console.log(`✅ Passed: ${passed}`);
+  console.log(`❌ Failed: ${failed}`);
+
+  if (failed === 0) {
+    console.log(`\n🎉 All Rate Limiter tests passed!`);
+  } else {
+    console.log(`\n💥 ${failed} test(s) failed.`);
+  }
+  return failed === 0;
+}
+
+// Run tests only if this file is executed directly
+if (require.main === module) {
+  runRateLimiterTests()
+    .then(passed => process.exit(passed ? 0 : 1))
+    .catch(error => {
+      console.error('Rate limiter test execution failed:', error);
+      process.exit(1);
+    });
+}
+
+export { runRateLimiterTests };
\ No newline at end of file
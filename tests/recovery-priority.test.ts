@@ -1,7 +1,8 @@
 #!/usr/bin/env ts-node
 
 import { ErrorRatesOps } from '../src/operations/ErrorRatesOps';
-import { RoutingContext, UpstreamConfig, UpstreamHealth } from '../src/types';
+import { UpstreamService } from '../src/services/UpstreamService';
+import { ProjectConfig, RoutingContext, UpstreamConfig, UpstreamHealth } from '../src/types';
 
 console.log('🧪 Starting Recovery Priority Tests...\n');
 
@@ -207,7 +208,7 @@ const recoveryTestCases = [
   }
 ];
 
-async function runRecoveryTests(): Promise<void> {
+async function runRecoveryTests(): Promise<boolean> {
   let passed = 0;
   let failed = 0;
 
@@ -216,8 +217,6 @@ async function runRecoveryTests(): Promise<void> {
 
     try {
       const { health, expectedRecoveries, expectedAvailable } = testCase.scenario();
-      const errorRatesOps = new ErrorRatesOps();
-
       // Count initially unhealthy upstreams
       const initiallyUnhealthy = Array.from(health.values()).filter(h => !h.isHealthy).length;
 
@@ -240,11 +239,15 @@ async function runRecoveryTests(): Promise<void> {
             maxConsecutiveErrors: 5,
             failoverCooldownMs: 30000,
             nodeStatusTimeoutMs: 5000
-          }
+          },
+          // Circuits recover passively here; the active health checker would own recovery otherwise
+          healthCheck: { enabled: false }
         } as any,
         appConfig: {} as any
       };
 
+      // The service shares the scenario's health map, so recovered circuits land in it
+      const errorRatesOps = new ErrorRatesOps(new UpstreamService({ ...context.config, upstreams: testUpstreams }, health));
       const result = await errorRatesOps.execute(context);
 
       // Count how many upstreams were recovered (marked healthy)
@@ -294,19 +297,20 @@ async function runRecoveryTests(): Promise<void> {
 
   if (failed === 0) {
     console.log(`\n🎉 All Recovery Priority tests passed!`);
-    process.exit(0);
   } else {
     console.log(`\n💥 ${failed} test(s) failed.`);
-    process.exit(1);
   }
+  return failed === 0;
 }
 
 // Run tests only if this file is executed directly
 if (require.main === module) {
-  runRecoveryTests().catch(error => {
-    console.error('Recovery test execution failed:', error);
-    process.exit(1);
-  });
+  runRecoveryTests()
+    .then(passed => process.exit(passed ? 0 : 1))
+    .catch(error => {
+      console.error('Recovery test execution failed:', error);
+      process.exit(1);
+    });
 }
 
 export { runRecoveryTests };
\ No newline at end of file
@@ -0,0 +1,205 @@
+#!/usr/bin/env ts-node
+
+import { CoalescableResult, RequestCoalescer } from '../src/services/RequestCoalescer';
+import { MetricsRegistry } from '../src/services/MetricsRegistry';
+import { PriorityRoutingOps } from '../src/operations/PriorityRoutingOps';
+import { FinalSelectorOps } from '../src/operations/FinalSelectorOps';
+import { UpstreamConfig } from '../src/types';
+import { answer, createProject, createReply, createStrategy, rpc, ScriptedUpstreamService } from './helpers';
+
+console.log('🧪 Starting Request Coalescing Tests...\n');
+
+// Upstream call that resolves on demand so concurrent callers overlap
+function createDeferredCall() {
+  let calls = 0;
+  let release: () => void = () => undefined;
+  const gate = new Promise<void>(resolve => { release = resolve; });
+
+  const task = async (): Promise<CoalescableResult> => {
+    calls++;
+    await gate;
+    return { data: { jsonrpc: '2.0', result: '0x10', id: 'upstream' } };
+  };
+
+  return { task, release: () => release(), calls: () => calls };
+}
+
+const upstreams: UpstreamConfig[] = [
+  { id: 'node-1', rpcUrl: 'http://node-1.invalid', type: 'full', priority: 1 },
+  { id: 'node-2', rpcUrl: 'http://node-2.invalid', type: 'full', priority: 1 }
+];
+
+// Strategy for a project whose upstreams are spread round-robin, so uncoalesced requests
+// would land on different upstreams. Upstream calls wait for release() so concurrent requests overlap
+function createCoalescingStrategy() {
+  const project = createProject(upstreams, {
+    id: 'coalescing-test',
+    responseTimeout: 1000,
+    health: { maxConsecutiveErrors: 100 },
+    loadBalancing: { policy: 'weighted_round_robin' }
+  });
+  let release: () => void = () => undefined;
+  const gate = new Promise<void>(resolve => { release = resolve; });
+  const upstreamService = new ScriptedUpstreamService(project, async (upstream, request) => {
+    await gate;
+    return answer(upstream.id, request.id);
+  });
+  const coalescer = new RequestCoalescer();
+  const strategy = createStrategy(project, upstreamService, [new PriorityRoutingOps(), new FinalSelectorOps()]);
+  strategy.setRequestCoalescer(coalescer);
+  return { strategy, upstreamService, coalescer, release: () => release() };
+}
+
+const coalescingTestCases: { name: string; run: () => Promise<boolean> }[] = [
+  {
+    name: 'Identical concurrent requests share one upstream call with their own ids',
+    run: async () => {
+      const coalescer = new RequestCoalescer();
+      const upstream = createDeferredCall();
+
+      const first = coalescer.run('node-1', rpc('eth_blockNumber', [], 1), upstream.task);
+      const second = coalescer.run('node-1', rpc('eth_blockNumber', [], 'b'), upstream.task);
+      upstream.release();
+      const [firstResult, secondResult] = await Promise.all([first, second]);
+
+      return upstream.calls() === 1 &&
+        firstResult.data.id === 'upstream' && !firstResult.coalesced &&
+        secondResult.data.id === 'b' && secondResult.coalesced === true &&
+        coalescer.getStats().methods.eth_blockNumber === 1;
+    }
+  },
+  {
+    name: 'Params are normalized (key order and hex case)',
+    run: async () => {
+      const coalescer = new RequestCoalescer();
+      const upstream = createDeferredCall();
+
+      const first = coalescer.run('node-1', rpc('eth_getLogs', [{ fromBlock: '0xA', address: '0xABC' }], 1), upstream.task);
+      const second = coalescer.run('node-1', rpc('eth_getLogs', [{ address: '0xabc', fromBlock: '0xa' }], 2), upstream.task);
+      upstream.release();
+      await Promise.all([first, second]);
+
+      return upstream.calls() === 1;
+    }
+  },
+  {
+    name: 'Different project scopes are not shared',
+    run: async () => {
+      const coalescer = new RequestCoalescer();
+      const upstream = createDeferredCall();
+
+      const first = coalescer.run('gateway', rpc('eth_blockNumber', [], 1), upstream.task);
+      const second = coalescer.run('indexing', rpc('eth_blockNumber', [], 2), upstream.task);
+      upstream.release();
+      await Promise.all([first, second]);
+
+      return upstream.calls() === 2;
+    }
+  },
+  {
+    name: 'Completed requests are not reused',
+    run: async () => {
+      const coalescer = new RequestCoalescer();
+      const upstream = createDeferredCall();
+      upstream.release();
+
+      await coalescer.run('node-1', rpc('eth_blockNumber', [], 1), upstream.task);
+      await coalescer.run('node-1', rpc('eth_blockNumber', [], 2), upstream.task);
+
+      return upstream.calls() === 2 && coalescer.getStats().inFlight === 0;
+    }
+  },
+  {
+    name: 'Requests are coalesced before upstream selection',
+    run: async () => {
+      MetricsRegistry.getInstance().reset();
+      const { strategy, upstreamService, coalescer, release } = createCoalescingStrategy();
+      const first = createReply();
+      const second = createReply();
+
+      const pending = Promise.all([
+        strategy.execute(rpc('eth_blockNumber', [], 1), first),
+        strategy.execute(rpc('eth_blockNumber', [], 'b'), second)
+      ]);
+      await new Promise(resolve => setImmediate(resolve));
+      release();
+      await pending;
+
+      return upstreamService.calls.length === 1 &&
+        first.body?.id === 1 && second.body?.id === 'b' && first.body?.result === second.body?.result &&
+        coalescer.getStats().methods.eth_blockNumber === 1 &&
+        MetricsRegistry.getInstance().render([]).includes('erpc_coalesced_requests_total{project="coalescing-test",method="eth_blockNumber"} 1');
+    }
+  },
+  {
+    name: 'Debug requests run their own pipeline',
+    run: async () => {
+      const { strategy, upstreamService, release } = createCoalescingStrategy();
+      const debugRequest = { query: { debug: '1' } };
+
+      const pending = Promise.all([
+        strategy.execute(rpc('eth_blockNumber', [], 1), createReply()),
+        strategy.execute(rpc('eth_blockNumber', [], 2), createReply(), debugRequest)
+      ]);
+      await new Promise(resolve => setImmediate(resolve));
+      release();
+      await pending;
+
+      return upstreamService.calls.length === 2;
+    }
+  },
+  {
+    name: 'Excluded and disabled methods are not coalesced',
+    run: async () => {
+      const coalescer = new RequestCoalescer({ excludedMethods: ['debug_*'] });
+      const disabled = new RequestCoalescer({ enabled: false });
+      return !coalescer.shouldCoalesce('debug_traceTransaction') &&
+        coalescer.shouldCoalesce('eth_blockNumber') &&
+        !new RequestCoalescer().shouldCoalesce('eth_sendRawTransaction') &&
+        !disabled.shouldCoalesce('eth_blockNumber');
+    }
+  }
+];
+
+async function runRequestCoalescingTests(): Promise<boolean> {
+  let passed = 0;
+  let failed = 0;
+
+  for (const testCase of coalescingTestCases) {
+    try {
+      if (await testCase.run()) {
+        console.log(`✅ ${testCase.name}`);
+        passed++;
+      } else {
+        console.log(`❌ ${testCase.name}`);
+        failed++;
+      }
+    } catch (error) {
+      console.log(`💥 ${testCase.name} - Error: ${(error as Error).message}`);
+      failed++;
+    }
+  }
+
+  console.log(`\n📊 Request Coalescing Test Results:`);
+  console.log(`✅ Passed: ${passed}`);
+  console.log(`❌ Failed: ${failed}`);
+
+  if (failed === 0) {
+    console.log(`\n🎉 All Request Coalescing tests passed!`);
+  } else {
+    console.log(`\n💥 ${failed} test(s) failed.`);
+  }
+  return failed === 0;
+}
+
+// Run tests only if this file is executed directly
+if (require.main === module) {
+  runRequestCoalescingTests()
+    .then(passed => process.exit(passed ? 0 : 1))
+    .catch(error => {
+      console.error('Request coalescing test execution failed:', error);
+      process.exit(1);
+    });
+}
+
+export { runRequestCoalescingTests };
\ No newline at end of file
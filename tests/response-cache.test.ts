@@ -0,0 +1,184 @@
+#!/usr/bin/env ts-node
+
+import { ResponseCache, MemoryLruCache } from '../src/services/ResponseCache';
+import { BlockNumberExtractor } from '../src/services/BlockNumberExtractor';
+import { NodeStatusService } from '../src/services/NodeStatusService';
+import { MetricsRegistry } from '../src/services/MetricsRegistry';
+import { AppConfig, JsonRpcRequest, LocalNodeStatus, ProjectConfig } from '../src/types';
+
+console.log('🧪 Starting Response Cache Tests...\n');
+
+const project = { id: 'cache-test', upstreams: [] } as unknown as ProjectConfig;
+const appConfig = {
+  historicalMethods: ['eth_getBlockByNumber', 'eth_getLogs', 'eth_getTransactionReceipt']
+} as unknown as AppConfig;
+
+// Node status service reporting a fixed head instead of polling a node
+class FixedNodeStatusService extends NodeStatusService {
+  constructor(private status: LocalNodeStatus) {
+    super(project, appConfig);
+  }
+
+  async getStatus(): Promise<LocalNodeStatus> {
+    return this.status;
+  }
+}
+
+const syncedStatus: LocalNodeStatus = {
+  state: 'synced',
+  earliestBlockHeight: 0,
+  latestBlockHeight: 1000,
+  catchingUp: false,
+  lastUpdated: Date.now()
+};
+
+function createCache(status: LocalNodeStatus = syncedStatus): ResponseCache {
+  return new ResponseCache(
+    project.id,
+    { enabled: true, finalityDepth: 10, methodTtlMs: { eth_chainId: 0 } },
+    new BlockNumberExtractor(project, appConfig),
+    new FixedNodeStatusService(status)
+  );
+}
+
+const rpc = (method: string, params: any[], id: number | string = 1): JsonRpcRequest => ({ jsonrpc: '2.0', method, params, id });
+const ok = (result: any) => ({ jsonrpc: '2.0', result, id: 1 });
+
+const cacheTestCases: { name: string; run: () => Promise<boolean> }[] = [
+  {
+    name: 'Finalized block is cached and served with the caller id',
+    run: async () => {
+      const cache = createCache();
+      const stored = await cache.store(rpc('eth_getBlockByNumber', ['0x64', false]), ok({ number: '0x64' }));
+      const hit = cache.get(rpc('eth_getBlockByNumber', ['0x64', false], 'caller-id'));
+      return stored && hit?.result?.number === '0x64' && hit.id === 'caller-id';
+    }
+  },
+  {
+    name: 'Block within finality depth is not cached',
+    run: async () => {
+      const cache = createCache();
+      return !(await cache.store(rpc('eth_getBlockByNumber', ['0x3e5', false]), ok({ number: '0x3e5' })));
+    }
+  },
+  {
+    name: 'latest tag is never cached',
+    run: async () => {
+      const cache = createCache();
+      const stored = await cache.store(rpc('eth_getBlockByNumber', ['latest', false]), ok({ number: '0x1' }));
+      return !stored && cache.get(rpc('eth_getBlockByNumber', ['latest', false])) === null;
+    }
+  },
+  {
+    name: 'Block tags are never cached, whatever block they parse to',
+    run: async () => {
+      const cache = createCache();
+      const extractor = new BlockNumberExtractor(project, appConfig);
+      const tagged = await Promise.all(['finalized', 'safe', 'pending', 'earliest', '0xzz'].map(tag =>
+        cache.store(rpc('eth_getBlockByNumber', [tag, false]), ok({ number: '0x1' }))
+      ));
+      const taggedLogs = await cache.store(rpc('eth_getLogs', [{ fromBlock: '0x1', toBlock: 'finalized' }]), ok([]));
+      return tagged.every(stored => !stored) && !taggedLogs &&
+        extractor.extract('eth_getBlockByNumber', ['finalized', false]) === 'latest' &&
+        extractor.extract('eth_getBlockByNumber', ['safe', false]) === 'latest' &&
+        extractor.extract('eth_getBlockByNumber', ['earliest', false]) === 0 &&
+        cache.getStats().entries === 0;
+    }
+  },
+  {
+    name: 'eth_getLogs without a final toBlock is not cached',
+    run: async () => {
+      const cache = createCache();
+      const openRange = await cache.store(rpc('eth_getLogs', [{ fromBlock: '0x1' }]), ok([]));
+      const closedRange = await cache.store(rpc('eth_getLogs', [{ fromBlock: '0x1', toBlock: '0x10' }]), ok([]));
+      return !openRange && closedRange;
+    }
+  },
+  {
+    name: 'Receipt is cached using the block number from the result',
+    run: async () => {
+      const cache = createCache();
+      const finalReceipt = await cache.store(rpc('eth_getTransactionReceipt', ['0xaa']), ok({ blockNumber: '0x10' }));
+      const recentReceipt = await cache.store(rpc('eth_getTransactionReceipt', ['0xbb']), ok({ blockNumber: '0x3e7' }));
+      const pendingReceipt = await cache.store(rpc('eth_getTransactionReceipt', ['0xcc']), ok(null));
+      return finalReceipt && !recentReceipt && !pendingReceipt;
+    }
+  },
+  {
+    name: 'Unknown node status never proves finality',
+    run: async () => {
+      const cache = createCache({ ...syncedStatus, state: 'unknown', earliestBlockHeight: null, latestBlockHeight: null });
+      return !(await cache.store(rpc('eth_getBlockByNumber', ['0x1', false]), ok({ number: '0x1' })));
+    }
+  },
+  {
+    name: 'Method TTL caches non-block methods and stats count hits/misses',
+    run: async () => {
+      MetricsRegistry.getInstance().reset();
+      const cache = createCache();
+      const miss = cache.get(rpc('eth_chainId', []));
+      await cache.store(rpc('eth_chainId', []), ok('0x531'));
+      const hit = cache.get(rpc('eth_chainId', []));
+      const stats = cache.getStats();
+      const metrics = MetricsRegistry.getInstance().render([]);
+      MetricsRegistry.getInstance().reset();
+      return miss === null && hit?.result === '0x531' && stats.methods.eth_chainId.hits === 1 && stats.methods.eth_chainId.misses === 1 &&
+        metrics.includes('erpc_cache_lookups_total{project="cache-test",method="eth_chainId",result="hit"} 1') &&
+        metrics.includes('erpc_cache_lookups_total{project="cache-test",method="eth_chainId",result="miss"} 1');
+    }
+  },
+  {
+    name: 'LRU evicts least recently used entries beyond maxEntries',
+    run: async () => {
+      const lru = new MemoryLruCache(2, 1024 * 1024);
+      lru.set('a', 1, 0);
+      lru.set('b', 2, 0);
+      lru.get('a');
+      lru.set('c', 3, 0);
+      return lru.get('a') === 1 && lru.get('b') === null && lru.get('c') === 3 && lru.size === 2;
+    }
+  }
+];
+
+async function runResponseCacheTests(): Promise<boolean> {
+  let passed = 0;
+  let failed = 0;
+
+  for (const testCase of cacheTestCases) {
+    try {
+      if (await testCase.run()) {
+        console.log(`✅ ${testCase.name}`);
+        passed++;
+      } else {
+        console.log(`❌ ${testCase.name}`);
+        failed++;
+      }
+    } catch (error) {
+      console.log(`💥 ${testCase.name} - Error: ${(error as Error).message}`);
+      failed++;
+    }
+  }
+
+  console.log(`\n📊 Response Cache Test Results:`);
+  console.log(`✅ Passed: ${passed}`);
+  console.log(`❌ Failed: ${failed}`);
+
+  if (failed === 0) {
+    console.log(`\n🎉 All Response Cache tests passed!`);
+  } else {
+    console.log(`\n💥 ${failed} test(s) failed.`);
+  }
+  return failed === 0;
+}
+
+// Run tests only if this file is executed directly
+if (require.main === module) {
+  runResponseCacheTests()
+    .then(passed => process.exit(passed ? 0 : 1))
+    .catch(error => {
+      console.error('Response cache test execution failed:', error);
+      process.exit(1);
+    });
+}
+
+export { runResponseCacheTests };
\ No newline at end of file
@@ -0,0 +1,78 @@
+#!/usr/bin/env ts-node
+
+import { RpcErrorClassifier } from '../src/services/RpcErrorClassifier';
+import { RpcErrorCategory } from '../src/types';
+
+console.log('🧪 Starting RPC Error Classifier Tests...\n');
+
+const classificationTestCases: { name: string; error: { code: number; message: string }; expected: RpcErrorCategory }[] = [
+  { name: 'header not found', error: { code: -32000, message: 'header not found' }, expected: 'pruned_state' },
+  { name: 'missing trie node', error: { code: -32000, message: 'missing trie node 0xabc (path )' }, expected: 'pruned_state' },
+  { name: 'rate limit by code', error: { code: -32005, message: 'limit reached' }, expected: 'rate_limited' },
+  { name: 'rate limit by message', error: { code: -32000, message: 'Too Many Requests' }, expected: 'rate_limited' },
+  { name: 'node syncing', error: { code: -32000, message: 'node is syncing' }, expected: 'node_unsynced' },
+  { name: 'execution reverted', error: { code: 3, message: 'execution reverted: ERC20: transfer amount exceeds balance' }, expected: 'client_error' },
+  { name: 'invalid params', error: { code: -32602, message: 'invalid argument 0: hex string without 0x prefix' }, expected: 'client_error' },
+  { name: 'method not found', error: { code: -32601, message: 'Method not found' }, expected: 'unsupported_method' },
+  { name: 'internal error', error: { code: -32603, message: 'something broke' }, expected: 'internal' },
+  { name: 'revert reason mentioning rate limits', error: { code: 3, message: 'execution reverted: too many requests' }, expected: 'client_error' },
+  { name: 'revert reason mentioning pruning', error: { code: -32000, message: 'execution reverted: pruned' }, expected: 'client_error' },
+  { name: 'result limit on -32005', error: { code: -32005, message: 'query returned more than 10000 results' }, expected: 'client_error' },
+  { name: 'unknown error defaults to client error', error: { code: -32099, message: 'custom failure' }, expected: 'client_error' }
+];
+
+async function runRpcErrorClassifierTests(): Promise<boolean> {
+  let passed = 0;
+  let failed = 0;
+
+  const classifier = new RpcErrorClassifier();
+
+  for (const testCase of classificationTestCases) {
+    const actual = classifier.classify(testCase.error);
+    if (actual === testCase.expected) {
+      console.log(`✅ ${testCase.name} → ${actual}`);
+      passed++;
+    } else {
+      console.log(`❌ ${testCase.name} - expected ${testCase.expected}, got ${actual}`);
+      failed++;
+    }
+  }
+
+  // Custom rules from project config take precedence over the built-in table
+  console.log('\n🧪 Testing Custom Rules...\n');
+
+  const customClassifier = new RpcErrorClassifier([
+    { category: 'pruned_state', messagePatterns: ['evm module does not exist'] }
+  ]);
+  const customCategory = customClassifier.classify({ code: -32000, message: 'EVM module does not exist for height 100' });
+  if (customCategory === 'pruned_state' && !customClassifier.isUpstreamFailure('client_error')) {
+    console.log(`✅ Custom rule classified error as ${customCategory}`);
+    passed++;
+  } else {
+    console.log(`❌ Custom rule - expected pruned_state, got ${customCategory}`);
+    failed++;
+  }
+
+  console.log(`\n📊 RPC Error Classifier Test Results:`);
+  console.log(`✅ Passed: ${passed}`);
+  console.log(`❌ Failed: ${failed}`);
+
+  if (failed === 0) {
+    console.log(`\n🎉 All RPC Error Classifier tests passed!`);
+  } else {
+    console.log(`\n💥 ${failed} test(s) failed.`);
+  }
+  return failed === 0;
+}
+
+// Run tests only if this file is executed directly
+if (require.main === module) {
+  runRpcErrorClassifierTests()
+    .then(passed => process.exit(passed ? 0 : 1))
+    .catch(error => {
+      console.error('RPC error classifier test execution failed:', error);
+      process.exit(1);
+    });
+}
+
+export { runRpcErrorClassifierTests };
\ No newline at end of file
@@ -11,8 +11,33 @@ import { runOperationSequenceTests } from './operation-sequence.test';
 import { testDebugInstrumentation } from './debug-instrumentation.test';
 import { runBatchRequestTests } from './batch.test';
 import { runNodeTimeoutTests } from './node-timeout.test';
+import { runFailoverTests } from './failover.test';
+import { runRpcErrorClassifierTests } from './rpc-error-classifier.test';
+import { runResponseCacheTests } from './response-cache.test';
+import { runRequestCoalescingTests } from './request-coalescing.test';
+import { runMetricsRegistryTests } from './metrics-registry.test';
+import { runLoadBalancingTests } from './load-balancing.test';
+import { runApiKeyTests } from './api-keys.test';
+import { runRateLimiterTests } from './rate-limiter.test';
+import { runUpstreamBudgetTests } from './upstream-budget.test';
+import { runConfigReloadTests } from './config-reload.test';
+import { runConfigSchemaTests } from './config-schema.test';
+import { runConfigLoaderTests } from './config-loader.test';
+import { runArchiveCutoffTests } from './archive-cutoff.test';
+import { runBlockAvailabilityTests } from './block-availability.test';
+import { runHeadLagTests } from './head-lag.test';
+import { runStatusProbeTests } from './status-probes.test';
+import { runHealthCheckTests } from './health-check.test';
+import { runLogsRangeTests } from './logs-range.test';
+import { runBlockHashIndexTests } from './block-hash-index.test';
+import { runArchiveFallbackTests } from './archive-fallback.test';
+import { runMethodSupportTests } from './method-support.test';
+import { runMethodPolicyTests } from './method-policy.test';
+import { runOperationRegistryTests } from './operation-registry.test';
+import { runBatchExecutorTests } from './batch-executor.test';
+import { runSubscriptionTests } from './subscriptions.test';
 
-async function runAllTests(): Promise<void> {
+async function runAllTests(): Promise<boolean> {
   console.log('🚀 Running All Test Suites...\n');
 
   let totalSuites = 0;
@@ -22,8 +47,9 @@ async function runAllTests(): Promise<void> {
     console.log('════════════════════════════════════════');
     console.log('📊 INSTRUMENTATION UNIT TESTS');
     console.log('════════════════════════════════════════');
-    await runInstrumentationTests();
-    passedSuites++;
+    if (await runInstrumentationTests()) {
+      passedSuites++;
+    }
   } catch (error) {
     console.error('❌ Instrumentation tests failed:', (error as Error).message);
   }
@@ -33,8 +59,9 @@ async function runAllTests(): Promise<void> {
     console.log('\n════════════════════════════════════════');
     console.log('🔗 INTEGRATION TESTS');
     console.log('════════════════════════════════════════');
-    await runIntegrationTests();
-    passedSuites++;
+    if (await runIntegrationTests()) {
+      passedSuites++;
+    }
   } catch (error) {
     console.error('❌ Integration tests failed:', (error as Error).message);
   }
@@ -44,8 +71,9 @@ async function runAllTests(): Promise<void> {
     console.log('\n════════════════════════════════════════');
     console.log('🎯 METHOD ROUTING UNIT TESTS');
     console.log('════════════════════════════════════════');
-    await runMethodRoutingTests();
-    passedSuites++;
+    if (await runMethodRoutingTests()) {
+      passedSuites++;
+    }
   } catch (error) {
     console.error('❌ Method routing tests failed:', (error as Error).message);
   }
@@ -55,8 +83,9 @@ async function runAllTests(): Promise<void> {
     console.log('\n════════════════════════════════════════');
     console.log('🎯 METHOD ROUTING INTEGRATION TESTS');
     console.log('════════════════════════════════════════');
-    await runMethodRoutingIntegrationTests();
-    passedSuites++;
+    if (await runMethodRoutingIntegrationTests()) {
+      passedSuites++;
+    }
   } catch (error) {
     console.error('❌ Method routing integration tests failed:', (error as Error).message);
   }
@@ -66,8 +95,9 @@ async function runAllTests(): Promise<void> {
     console.log('\n════════════════════════════════════════');
     console.log('🏗️  PIPELINE ARCHITECTURE TESTS');
     console.log('════════════════════════════════════════');
-    await runPipelineTests();
-    passedSuites++;
+    if (await runPipelineTests()) {
+      passedSuites++;
+    }
   } catch (error) {
     console.error('❌ Pipeline architecture tests failed:', (error as Error).message);
   }
@@ -77,8 +107,9 @@ async function runAllTests(): Promise<void> {
     console.log('\n════════════════════════════════════════');
     console.log('🔄 RECOVERY PRIORITY TESTS');
     console.log('════════════════════════════════════════');
-    await runRecoveryTests();
-    passedSuites++;
+    if (await runRecoveryTests()) {
+      passedSuites++;
+    }
   } catch (error) {
     console.error('❌ Recovery priority tests failed:', (error as Error).message);
   }
@@ -88,8 +119,9 @@ async function runAllTests(): Promise<void> {
     console.log('\n════════════════════════════════════════');
     console.log('🐛 DEBUG MODE TESTS');
     console.log('════════════════════════════════════════');
-    await runDebugTests();
-    passedSuites++;
+    if (await runDebugTests()) {
+      passedSuites++;
+    }
   } catch (error) {
     console.error('❌ Debug tests failed:', (error as Error).message);
   }
@@ -99,8 +131,9 @@ async function runAllTests(): Promise<void> {
     console.log('\n════════════════════════════════════════');
     console.log('🔬 OPERATION SEQUENCE TESTS');
     console.log('════════════════════════════════════════');
-    await runOperationSequenceTests();
-    passedSuites++;
+    if (await runOperationSequenceTests()) {
+      passedSuites++;
+    }
   } catch (error) {
     console.error('❌ Operation sequence tests failed:', (error as Error).message);
   }
@@ -110,8 +143,9 @@ async function runAllTests(): Promise<void> {
     console.log('\n════════════════════════════════════════');
     console.log('🛠️  DEBUG INSTRUMENTATION TESTS');
     console.log('════════════════════════════════════════');
-    await testDebugInstrumentation();
-    passedSuites++;
+    if (await testDebugInstrumentation()) {
+      passedSuites++;
+    }
   } catch (error) {
     console.error('❌ Debug instrumentation tests failed:', (error as Error).message);
   }
@@ -121,8 +155,9 @@ async function runAllTests(): Promise<void> {
     console.log('\n════════════════════════════════════════');
     console.log('📦 BATCH REQUEST TESTS');
     console.log('════════════════════════════════════════');
-    await runBatchRequestTests();
-    passedSuites++;
+    if (await runBatchRequestTests()) {
+      passedSuites++;
+    }
   } catch (error) {
     console.error('❌ Batch request tests failed:', (error as Error).message);
   }
@@ -132,13 +167,314 @@ async function runAllTests(): Promise<void> {
     console.log('\n════════════════════════════════════════');
     console.log('⏰ NODE TIMEOUT TESTS');
     console.log('════════════════════════════════════════');
-    await runNodeTimeoutTests();
-    passedSuites++;
+    if (await runNodeTimeoutTests()) {
+      passedSuites++;
+    }
   } catch (error) {
     console.error('❌ Node timeout tests failed:', (error as Error).message);
   }
   totalSuites++;
 
+  try {
+    console.log('\n════════════════════════════════════════');
+    console.log('🔁 FAILOVER TESTS');
+    console.log('════════════════════════════════════════');
+    if (await runFailoverTests()) {
+      passedSuites++;
+    }
+  } catch (error) {
+    console.error('❌ Failover tests failed:', (error as Error).message);
+  }
+  totalSuites++;
+
+  try {
+    console.log('\n════════════════════════════════════════');
+    console.log('🏷️  RPC ERROR CLASSIFIER TESTS');
+    console.log('════════════════════════════════════════');
+    if (await runRpcErrorClassifierTests()) {
+      passedSuites++;
+    }
+  } catch (error) {
+    console.error('❌ RPC error classifier tests failed:', (error as Error).message);
+  }
+  totalSuites++;
+
+  try {
+    console.log('\n════════════════════════════════════════');
+    console.log('🗄️  RESPONSE CACHE TESTS');
+    console.log('════════════════════════════════════════');
+    if (await runResponseCacheTests()) {
+      passedSuites++;
+    }
+  } catch (error) {
+    console.error('❌ Response cache tests failed:', (error as Error).message);
+  }
+  totalSuites++;
+
+  try {
+    console.log('\n════════════════════════════════════════');
+    console.log('🔗 REQUEST COALESCING TESTS');
+    console.log('════════════════════════════════════════');
+    if (await runRequestCoalescingTests()) {
+      passedSuites++;
+    }
+  } catch (error) {
+    console.error('❌ Request coalescing tests failed:', (error as Error).message);
+  }
+  totalSuites++;
+
+  try {
+    console.log('\n════════════════════════════════════════');
+    console.log('📈 METRICS REGISTRY TESTS');
+    console.log('════════════════════════════════════════');
+    if (await runMetricsRegistryTests()) {
+      passedSuites++;
+    }
+  } catch (error) {
+    console.error('❌ Metrics registry tests failed:', (error as Error).message);
+  }
+  totalSuites++;
+
+  try {
+    console.log('\n════════════════════════════════════════');
+    console.log('⚖️  LOAD BALANCING TESTS');
+    console.log('════════════════════════════════════════');
+    if (await runLoadBalancingTests()) {
+      passedSuites++;
+    }
+  } catch (error) {
+    console.error('❌ Load balancing tests failed:', (error as Error).message);
+  }
+  totalSuites++;
+
+  try {
+    console.log('\n════════════════════════════════════════');
+    console.log('🔑 API KEY TESTS');
+    console.log('════════════════════════════════════════');
+    if (await runApiKeyTests()) {
+      passedSuites++;
+    }
+  } catch (error) {
+    console.error('❌ API key tests failed:', (error as Error).message);
+  }
+  totalSuites++;
+
+  try {
+    console.log('\n════════════════════════════════════════');
+    console.log('🚦 RATE LIMITER TESTS');
+    console.log('════════════════════════════════════════');
+    if (await runRateLimiterTests()) {
+      passedSuites++;
+    }
+  } catch (error) {
+    console.error('❌ Rate limiter tests failed:', (error as Error).message);
+  }
+  totalSuites++;
+
+  try {
+    console.log('\n════════════════════════════════════════');
+    console.log('💳 UPSTREAM BUDGET TESTS');
+    console.log('════════════════════════════════════════');
+    if (await runUpstreamBudgetTests()) {
+      passedSuites++;
+    }
+  } catch (error) {
+    console.error('❌ Upstream budget tests failed:', (error as Error).message);
+  }
+  totalSuites++;
+
+  try {
+    console.log('\n════════════════════════════════════════');
+    console.log('🔄 CONFIG RELOAD TESTS');
+    console.log('════════════════════════════════════════');
+    if (await runConfigReloadTests()) {
+      passedSuites++;
+    }
+  } catch (error) {
+    console.error('❌ Config reload tests failed:', (error as Error).message);
+  }
+  totalSuites++;
+
+  try {
+    console.log('\n════════════════════════════════════════');
+    console.log('📐 CONFIG SCHEMA TESTS');
+    console.log('════════════════════════════════════════');
+    if (await runConfigSchemaTests()) {
+      passedSuites++;
+    }
+  } catch (error) {
+    console.error('❌ Config schema tests failed:', (error as Error).message);
+  }
+  totalSuites++;
+
+  try {
+    console.log('\n════════════════════════════════════════');
+    console.log('📂 CONFIG LOADER TESTS');
+    console.log('════════════════════════════════════════');
+    if (await runConfigLoaderTests()) {
+      passedSuites++;
+    }
+  } catch (error) {
+    console.error('❌ Config loader tests failed:', (error as Error).message);
+  }
+  totalSuites++;
+
+  try {
+    console.log('\n════════════════════════════════════════');
+    console.log('🗄️ ARCHIVE CUTOFF TESTS');
+    console.log('════════════════════════════════════════');
+    if (await runArchiveCutoffTests()) {
+      passedSuites++;
+    }
+  } catch (error) {
+    console.error('❌ Archive cutoff tests failed:', (error as Error).message);
+  }
+  totalSuites++;
+
+  try {
+    console.log('\n════════════════════════════════════════');
+    console.log('🧱 BLOCK AVAILABILITY TESTS');
+    console.log('════════════════════════════════════════');
+    if (await runBlockAvailabilityTests()) {
+      passedSuites++;
+    }
+  } catch (error) {
+    console.error('❌ Block availability tests failed:', (error as Error).message);
+  }
+  totalSuites++;
+
+  try {
+    console.log('\n════════════════════════════════════════');
+    console.log('🐢 HEAD LAG TESTS');
+    console.log('════════════════════════════════════════');
+    if (await runHeadLagTests()) {
+      passedSuites++;
+    }
+  } catch (error) {
+    console.error('❌ Head lag tests failed:', (error as Error).message);
+  }
+  totalSuites++;
+
+  try {
+    console.log('\n════════════════════════════════════════');
+    console.log('🩺 STATUS PROBE TESTS');
+    console.log('════════════════════════════════════════');
+    if (await runStatusProbeTests()) {
+      passedSuites++;
+    }
+  } catch (error) {
+    console.error('❌ Status probe tests failed:', (error as Error).message);
+  }
+  totalSuites++;
+
+  try {
+    console.log('\n════════════════════════════════════════');
+    console.log('🚦 HEALTH CHECK TESTS');
+    console.log('════════════════════════════════════════');
+    if (await runHealthCheckTests()) {
+      passedSuites++;
+    }
+  } catch (error) {
+    console.error('❌ Health check tests failed:', (error as Error).message);
+  }
+  totalSuites++;
+
+  try {
+    console.log('\n════════════════════════════════════════');
+    console.log('📜 ETH_GETLOGS RANGE TESTS');
+    console.log('════════════════════════════════════════');
+    if (await runLogsRangeTests()) {
+      passedSuites++;
+    }
+  } catch (error) {
+    console.error('❌ eth_getLogs range tests failed:', (error as Error).message);
+  }
+  totalSuites++;
+
+  try {
+    console.log('\n════════════════════════════════════════');
+    console.log('#️⃣ BLOCK HASH INDEX TESTS');
+    console.log('════════════════════════════════════════');
+    if (await runBlockHashIndexTests()) {
+      passedSuites++;
+    }
+  } catch (error) {
+    console.error('❌ Block hash index tests failed:', (error as Error).message);
+  }
+  totalSuites++;
+
+  try {
+    console.log('\n════════════════════════════════════════');
+    console.log('🏛️ ARCHIVE FALLBACK TESTS');
+    console.log('════════════════════════════════════════');
+    if (await runArchiveFallbackTests()) {
+      passedSuites++;
+    }
+  } catch (error) {
+    console.error('❌ Archive fallback tests failed:', (error as Error).message);
+  }
+  totalSuites++;
+
+  try {
+    console.log('\n════════════════════════════════════════');
+    console.log('🚫 METHOD SUPPORT TESTS');
+    console.log('════════════════════════════════════════');
+    if (await runMethodSupportTests()) {
+      passedSuites++;
+    }
+  } catch (error) {
+    console.error('❌ Method support tests failed:', (error as Error).message);
+  }
+  totalSuites++;
+
+  try {
+    console.log('\n════════════════════════════════════════');
+    console.log('🛡️ METHOD POLICY TESTS');
+    console.log('════════════════════════════════════════');
+    if (await runMethodPolicyTests()) {
+      passedSuites++;
+    }
+  } catch (error) {
+    console.error('❌ Method policy tests failed:', (error as Error).message);
+  }
+  totalSuites++;
+
+  try {
+    console.log('\n════════════════════════════════════════');
+    console.log('🧩 OPERATION REGISTRY TESTS');
+    console.log('════════════════════════════════════════');
+    if (await runOperationRegistryTests()) {
+      passedSuites++;
+    }
+  } catch (error) {
+    console.error('❌ Operation registry tests failed:', (error as Error).message);
+  }
+  totalSuites++;
+
+  try {
+    console.log('\n════════════════════════════════════════');
+    console.log('📦 BATCH EXECUTOR TESTS');
+    console.log('════════════════════════════════════════');
+    if (await runBatchExecutorTests()) {
+      passedSuites++;
+    }
+  } catch (error) {
+    console.error('❌ Batch executor tests failed:', (error as Error).message);
+  }
+  totalSuites++;
+
+  try {
+    console.log('\n════════════════════════════════════════');
+    console.log('🔔 SUBSCRIPTION TESTS');
+    console.log('════════════════════════════════════════');
+    if (await runSubscriptionTests()) {
+      passedSuites++;
+    }
+  } catch (error) {
+    console.error('❌ Subscription tests failed:', (error as Error).message);
+  }
+  totalSuites++;
+
   console.log('\n════════════════════════════════════════');
   console.log('📈 FINAL RESULTS');
   console.log('════════════════════════════════════════');
@@ -146,16 +482,17 @@ async function runAllTests(): Promise<void> {
 
   if (passedSuites === totalSuites) {
     console.log('🎉 ALL TEST SUITES PASSED!');
-    process.exit(0);
   } else {
     console.log(`💥 ${totalSuites - passedSuites} test suite(s) failed`);
-    process.exit(1);
   }
+  return passedSuites === totalSuites;
 }
 
 if (require.main === module) {
-  runAllTests().catch((error) => {
-    console.error('Test runner error:', error);
-    process.exit(1);
-  });
+  runAllTests()
+    .then(passed => process.exit(passed ? 0 : 1))
+    .catch((error) => {
+      console.error('Test runner error:', error);
+      process.exit(1);
+    });
 }
\ No newline at end of file
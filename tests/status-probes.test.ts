@@ -0,0 +1,210 @@
+#!/usr/bin/env ts-node
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { NodeStatusService } from '../src/services/NodeStatusService';
+import { UpstreamService } from '../src/services/UpstreamService';
+import {
+  parseBlockHeight,
+  probeUpstreamStatus,
+  readJsonPath,
+  resolveStatusProbeConfig
+} from '../src/services/StatusProbes';
+import { parseAppConfig } from '../src/configSchema';
+import { AppConfig, UpstreamConfig } from '../src/types';
+import { createProject } from './helpers';
+
+console.log('🧪 Starting Status Probe Tests...\n');
+
+const appConfig = { timeouts: { maxErrorTimeoutMs: 5000 } } as AppConfig;
+
+// Tendermint /status, a custom /height endpoint and JSON-RPC on every other path
+function startMockNode(): Promise<{ server: http.Server; url: (path: string) => string; setSyncing: (syncing: boolean) => void }> {
+  let syncing = false;
+  return new Promise(resolve => {
+    const server = http.createServer((req, res) => {
+      if (req.url === '/status') {
+        res.end(JSON.stringify({ sync_info: { earliest_block_height: '100', latest_block_height: '2000', catching_up: true } }));
+        return;
+      }
+      if (req.url === '/height' && req.method === 'GET') {
+        res.end(JSON.stringify({ data: [{ height: 1500, oldest: '0x64', syncing: false }] }));
+        return;
+      }
+      if (req.url === '/broken') {
+        res.writeHead(503);
+        res.end();
+        return;
+      }
+
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        const request = JSON.parse(body);
+        const result: Record<string, unknown> = {
+          eth_blockNumber: '0x7d0',
+          eth_syncing: syncing ? { startingBlock: '0x0', currentBlock: '0x7d0', highestBlock: '0x800' } : false,
+          custom_status: { head: '0x3e8' }
+        };
+        res.end(JSON.stringify({ jsonrpc: '2.0', id: request.id, result: result[request.method] }));
+      });
+    });
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, url: path => `http://127.0.0.1:${port}${path}`, setSyncing: value => (syncing = value) });
+    });
+  });
+}
+
+async function runStatusProbeTests(): Promise<boolean> {
+  let passed = 0;
+  let failed = 0;
+
+  const check = (name: string, condition: boolean, detail?: string) => {
+    if (condition) {
+      console.log(`✅ ${name}`);
+      passed++;
+    } else {
+      console.log(`❌ ${name}${detail ? ` - ${detail}` : ''}`);
+      failed++;
+    }
+  };
+
+  // Helpers
+  check(
+    'Block heights parse from numbers, decimal and hex strings',
+    parseBlockHeight(12) === 12 && parseBlockHeight('12') === 12 && parseBlockHeight('0xc') === 12 &&
+      parseBlockHeight('twelve') === null && parseBlockHeight(undefined) === null
+  );
+  check(
+    'JSON paths resolve nested keys and array indexes',
+    readJsonPath({ data: [{ height: 5 }] }, 'data[0].height') === 5 &&
+      readJsonPath({ a: { b: 1 } }, '$.a.b') === 1 &&
+      readJsonPath({ a: null }, 'a.b') === undefined
+  );
+
+  // Probe selection
+  const rpcOnly: UpstreamConfig = { id: 'rpc', rpcUrl: 'http://rpc.invalid', type: 'full', priority: 1 };
+  check(
+    'Upstreams default to tendermint with a statusUrl and evm otherwise',
+    resolveStatusProbeConfig({ ...rpcOnly, statusUrl: 'http://rpc.invalid/status' }).type === 'tendermint' &&
+      resolveStatusProbeConfig(rpcOnly).type === 'evm'
+  );
+
+  const { server, url, setSyncing } = await startMockNode();
+  try {
+    const tendermint = await probeUpstreamStatus({ ...rpcOnly, rpcUrl: url('/'), statusUrl: url('/status') }, 1000);
+    check(
+      'The tendermint probe reads sync_info',
+      tendermint.earliestBlock === 100 && tendermint.latestBlock === 2000 && tendermint.catchingUp,
+      JSON.stringify(tendermint)
+    );
+
+    const evm = await probeUpstreamStatus({ ...rpcOnly, rpcUrl: url('/') }, 1000);
+    setSyncing(true);
+    const evmSyncing = await probeUpstreamStatus({ ...rpcOnly, rpcUrl: url('/') }, 1000);
+    setSyncing(false);
+    check(
+      'The evm probe combines eth_blockNumber and eth_syncing',
+      evm.latestBlock === 2000 && evm.earliestBlock === null && !evm.catchingUp && evmSyncing.catchingUp,
+      JSON.stringify([evm, evmSyncing])
+    );
+
+    const jsonPathGet = await probeUpstreamStatus({
+      ...rpcOnly,
+      statusProbe: {
+        type: 'json_path',
+        url: url('/height'),
+        latestBlockPath: 'data[0].height',
+        earliestBlockPath: 'data[0].oldest',
+        catchingUpPath: 'data[0].syncing'
+      }
+    }, 1000);
+    check(
+      'The json_path probe reads custom GET endpoints',
+      jsonPathGet.latestBlock === 1500 && jsonPathGet.earliestBlock === 100 && !jsonPathGet.catchingUp,
+      JSON.stringify(jsonPathGet)
+    );
+
+    const jsonPathPost = await probeUpstreamStatus({
+      ...rpcOnly,
+      rpcUrl: url('/'),
+      statusProbe: { type: 'json_path', body: { jsonrpc: '2.0', method: 'custom_status', params: [], id: 1 }, latestBlockPath: 'result.head' }
+    }, 1000);
+    check('The json_path probe posts a body to rpcUrl by default', jsonPathPost.latestBlock === 1000, JSON.stringify(jsonPathPost));
+
+    // Node status
+    const synced = await new NodeStatusService(createProject([{ ...rpcOnly, rpcUrl: url('/'), statusProbe: { type: 'evm' } }]), appConfig).getStatus();
+    check(
+      'An explicit probe makes an upstream the local node',
+      synced.state === 'synced' && synced.latestBlockHeight === 2000 && synced.probe === 'evm' && synced.upstreamId === 'rpc',
+      JSON.stringify(synced)
+    );
+
+    const catchingUp = await new NodeStatusService(createProject([{ ...rpcOnly, statusUrl: url('/status') }]), appConfig).getStatus();
+    check('Catching-up nodes report the catching_up state', catchingUp.state === 'catching_up', JSON.stringify(catchingUp));
+
+    const unconfigured = await new NodeStatusService(createProject([rpcOnly]), appConfig).getStatus();
+    check(
+      'Without a probe the status is unknown instead of an assumed head',
+      unconfigured.state === 'unknown' && unconfigured.latestBlockHeight === null && !!unconfigured.error,
+      JSON.stringify(unconfigured)
+    );
+
+    const brokenProject = createProject([{ ...rpcOnly, statusUrl: url('/broken') }]);
+    const upstreamService = new UpstreamService(brokenProject);
+    const brokenService = new NodeStatusService(brokenProject, appConfig);
+    brokenService.setUpstreamService(upstreamService);
+    const broken = await brokenService.getStatus();
+    check(
+      'Failed probes report unknown and count against the upstream',
+      broken.state === 'unknown' && broken.error === 'Status check failed: 503' &&
+        upstreamService.getHealthMap().get('rpc')!.consecutiveErrors === 1,
+      JSON.stringify(broken)
+    );
+  } finally {
+    server.close();
+  }
+
+  // Config validation
+  const config = {
+    projects: [{ id: 'main', upstreams: [{ ...rpcOnly, rpcUrl: 'http://localhost:8545', statusProbe: { type: 'tendermint' } }] }],
+    defaultProject: 'main',
+    testing: {
+      testAddress: '0x0', historicalBlockHex: '0x1', historicalBlockNumber: 1, veryOldBlockHex: '0x1',
+      veryOldBlockNumber: 1, timeout: 1000, maxDurationMs: 1000, minDurationMs: 0
+    }
+  };
+  const parsed = parseAppConfig(config);
+  check(
+    'A tendermint probe without any URL is rejected',
+    !parsed.success && parsed.errors.some(e => e.includes('statusProbe: A tendermint probe needs a url')),
+    JSON.stringify(parsed)
+  );
+  config.projects[0].upstreams[0].statusProbe = { type: 'jsonpath' } as any;
+  const unknownType = parseAppConfig(config);
+  check('Unknown probe types are rejected', !unknownType.success, JSON.stringify(unknownType));
+
+  console.log(`\n📊 Status Probe Test Results:`);
+  console.log(`✅ Passed: ${passed}`);
+  console.log(`❌ Failed: ${failed}`);
+
+  if (failed === 0) {
+    console.log(`\n🎉 All Status Probe tests passed!`);
+  } else {
+    console.log(`\n💥 ${failed} test(s) failed.`);
+  }
+  return failed === 0;
+}
+
+// Run tests only if this file is executed directly
+if (require.main === module) {
+  runStatusProbeTests()
+    .then(passed => process.exit(passed ? 0 : 1))
+    .catch(error => {
+      console.error('Status probe test execution failed:', error);
+      process.exit(1);
+    });
+}
+
+export { runStatusProbeTests };
\ No newline at end of file
@@ -0,0 +1,243 @@
+#!/usr/bin/env ts-node
+
+import net from 'net';
+import { AddressInfo } from 'net';
+import { WebSocketServer } from 'ws';
+import { SubscriptionService } from '../src/services/SubscriptionService';
+import { UpstreamService } from '../src/services/UpstreamService';
+import { createProject, fullNode } from './helpers';
+
+console.log('🧪 Starting Subscription Tests...\n');
+
+interface MockWsUpstream {
+  url: string;
+  received: string[]; // Methods called on the upstream, in order
+  notify: (upstreamSubscriptionId: string, result: unknown) => void;
+  close: () => Promise<void>;
+}
+
+// WebSocket upstream handing out subscription ids "<name>-1", "<name>-2", ...
+// With notifyBeforeReply, each subscription's first notification is sent ahead of the eth_subscribe reply
+function startWsUpstream(name: string, notifyBeforeReply = false): Promise<MockWsUpstream> {
+  const received: string[] = [];
+  let subscriptions = 0;
+  const wss = new WebSocketServer({ host: '127.0.0.1', port: 0 });
+
+  const send = (payload: unknown) => {
+    wss.clients.forEach(client => client.send(JSON.stringify(payload)));
+  };
+  const notify = (subscription: string, result: unknown) =>
+    send({ jsonrpc: '2.0', method: 'eth_subscription', params: { subscription, result } });
+
+  wss.on('connection', socket => {
+    socket.on('message', raw => {
+      const request = JSON.parse(raw.toString());
+      received.push(request.method);
+      if (request.method === 'eth_subscribe') {
+        const subscriptionId = `${name}-${++subscriptions}`;
+        if (notifyBeforeReply) {
+          notify(subscriptionId, { early: true });
+        }
+        socket.send(JSON.stringify({ jsonrpc: '2.0', id: request.id, result: subscriptionId }));
+      } else {
+        socket.send(JSON.stringify({ jsonrpc: '2.0', id: request.id, result: true }));
+      }
+    });
+  });
+
+  return new Promise(resolve => {
+    wss.on('listening', () => {
+      const { port } = wss.address() as AddressInfo;
+      resolve({
+        url: `ws://127.0.0.1:${port}`,
+        received,
+        notify,
+        close: () => new Promise(done => {
+          wss.clients.forEach(client => client.terminate());
+          wss.close(() => done());
+        })
+      });
+    });
+  });
+}
+
+// TCP server that accepts connections but never answers the WebSocket handshake
+function startStalledServer(): Promise<{ url: string; close: () => Promise<void> }> {
+  const sockets: net.Socket[] = [];
+  const server = net.createServer(socket => sockets.push(socket));
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `ws://127.0.0.1:${port}`,
+        close: () => new Promise(done => {
+          sockets.forEach(socket => socket.destroy());
+          server.close(() => done());
+        })
+      });
+    });
+  });
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) return false;
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  return true;
+}
+
+async function runSubscriptionTests(): Promise<boolean> {
+  let passed = 0;
+  let failed = 0;
+
+  const check = (name: string, condition: boolean, detail?: string) => {
+    if (condition) {
+      console.log(`✅ ${name}`);
+      passed++;
+    } else {
+      console.log(`❌ ${name}${detail ? ` - ${detail}` : ''}`);
+      failed++;
+    }
+  };
+
+  // Keep failover and retry warnings out of the test output
+  const originalWarn = console.warn;
+  console.warn = () => undefined;
+
+  const a = await startWsUpstream('a');
+  const b = await startWsUpstream('b');
+  const early = await startWsUpstream('early', true);
+  const stalled = await startStalledServer();
+  const services: SubscriptionService[] = [];
+  const createService = (upstreams = [fullNode('a', { wsUrl: a.url }), fullNode('b', { wsUrl: b.url, priority: 2 })]) => {
+    const project = createProject(upstreams, { responseTimeout: 300 });
+    const upstreamService = new UpstreamService(project);
+    const service = new SubscriptionService(project, upstreamService);
+    services.push(service);
+    return { service, upstreamService };
+  };
+
+  try {
+    // Subscribe and notify
+    const { service, upstreamService } = createService();
+    const notifications: any[] = [];
+    const subscriptionId = await service.subscribe(['newHeads'], notification => notifications.push(notification));
+    check(
+      'The client gets a gateway subscription id, not the upstream one',
+      /^0x[0-9a-f]{32}$/.test(subscriptionId),
+      subscriptionId
+    );
+    check('Subscriptions go to the first upstream by priority', service.getStats().byUpstream.a === 1, JSON.stringify(service.getStats()));
+
+    a.notify('a-1', { number: '0x1' });
+    await waitFor(() => notifications.length === 1);
+    check(
+      'Upstream notifications are forwarded under the gateway id',
+      notifications[0]?.params.subscription === subscriptionId && notifications[0]?.params.result.number === '0x1',
+      JSON.stringify(notifications)
+    );
+    a.notify('a-unknown', { number: '0x2' });
+    await new Promise(resolve => setTimeout(resolve, 50));
+    check('Notifications for unknown upstream ids are dropped', notifications.length === 1);
+
+    // Failover
+    for (let i = 0; i < 3; i++) {
+      upstreamService.recordRequestResult('a', false);
+    }
+    const movedToB = await waitFor(() => service.getStats().byUpstream.b === 1);
+    check('Subscriptions move to another upstream when theirs turns unhealthy', movedToB, JSON.stringify(service.getStats()));
+    check(
+      'The subscription on the unhealthy upstream is cancelled',
+      await waitFor(() => a.received.includes('eth_unsubscribe')),
+      a.received.join()
+    );
+
+    b.notify('b-1', { number: '0x3' });
+    await waitFor(() => notifications.length === 2);
+    check(
+      'The gateway id stays the same after failover',
+      notifications[1]?.params.subscription === subscriptionId && notifications[1]?.params.result.number === '0x3',
+      JSON.stringify(notifications)
+    );
+
+    // Cleanup
+    check('Unsubscribing a live subscription succeeds', await service.unsubscribe(subscriptionId));
+    check(
+      'Unsubscribing cancels the upstream subscription',
+      await waitFor(() => b.received.includes('eth_unsubscribe')),
+      b.received.join()
+    );
+    check('Unsubscribing twice reports false', !(await service.unsubscribe(subscriptionId)));
+    b.notify('b-1', { number: '0x4' });
+    await new Promise(resolve => setTimeout(resolve, 50));
+    check('No notifications arrive after unsubscribing', notifications.length === 2);
+
+    await service.subscribe(['newHeads'], () => undefined);
+    service.close();
+    const stats = service.getStats();
+    check(
+      'Closing drops every subscription and upstream socket',
+      stats.subscriptions === 0 && stats.connectedUpstreams.length === 0,
+      JSON.stringify(stats)
+    );
+
+    // Notifications ahead of the subscribe reply
+    const earlyNotifications: any[] = [];
+    const earlyService = createService([fullNode('early', { wsUrl: early.url })]).service;
+    const earlyId = await earlyService.subscribe(['newHeads'], notification => earlyNotifications.push(notification));
+    await waitFor(() => earlyNotifications.length === 1);
+    check(
+      'Notifications sent before the subscribe reply are delivered',
+      earlyNotifications.length === 1 && earlyNotifications[0].params.subscription === earlyId,
+      JSON.stringify(earlyNotifications)
+    );
+
+    // Upstream that never completes the handshake
+    const stalledService = createService([fullNode('stalled', { wsUrl: stalled.url })]).service;
+    const startedAt = Date.now();
+    let stalledError = '';
+    try {
+      await stalledService.subscribe(['newHeads'], () => undefined);
+    } catch (error) {
+      stalledError = (error as Error).message;
+    }
+    check(
+      'A call waiting for the connection times out',
+      stalledError.includes('timed out') && Date.now() - startedAt < 2000,
+      stalledError || 'subscribe did not fail'
+    );
+
+    check('Subscribing without WebSocket upstreams fails', await createService([fullNode('http-only')]).service
+      .subscribe(['newHeads'], () => undefined)
+      .then(() => false, () => true));
+  } finally {
+    console.warn = originalWarn;
+    services.forEach(service => service.close());
+    await Promise.all([a.close(), b.close(), early.close(), stalled.close()]);
+  }
+
+  console.log(`\n📊 Subscription Test Results:`);
+  console.log(`✅ Passed: ${passed}`);
+  console.log(`❌ Failed: ${failed}`);
+
+  if (failed === 0) {
+    console.log(`\n🎉 All Subscription tests passed!`);
+  } else {
+    console.log(`\n💥 ${failed} test(s) failed.`);
+  }
+  return failed === 0;
+}
+
+// Run tests only if this file is executed directly
+if (require.main === module) {
+  runSubscriptionTests()
+    .then(passed => process.exit(passed ? 0 : 1))
+    .catch(error => {
+      console.error('Subscription test execution failed:', error);
+      process.exit(1);
+    });
+}
+
+export { runSubscriptionTests };
\ No newline at end of file
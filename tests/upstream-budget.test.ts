@@ -0,0 +1,192 @@
+#!/usr/bin/env ts-node
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { UpstreamBudgetTracker, parseRetryAfter } from '../src/services/UpstreamBudgetTracker';
+import { UpstreamService } from '../src/services/UpstreamService';
+import { UpstreamBudgetOps } from '../src/operations/UpstreamBudgetOps';
+import { JsonRpcRequest, ProjectConfig, RoutingContext, UpstreamConfig } from '../src/types';
+
+console.log('🧪 Starting Upstream Budget Tests...\n');
+
+const rpc = (method: string): JsonRpcRequest => ({ jsonrpc: '2.0', method, params: [], id: 1 });
+
+function createProject(upstreams: UpstreamConfig[]): ProjectConfig {
+  return {
+    id: 'budget-test',
+    upstreams,
+    errorRateThreshold: 0.5,
+    statusCheckInterval: 60000,
+    responseTimeout: 2000,
+    health: {
+      errorRateWindowMs: 60000,
+      maxConsecutiveErrors: 1,
+      failoverCooldownMs: 1000,
+      nodeStatusTimeoutMs: 1000
+    },
+    coalescing: { enabled: false }
+  };
+}
+
+// Local upstream that always answers 429 with a Retry-After header
+function startRateLimitedUpstream(): Promise<http.Server> {
+  return new Promise(resolve => {
+    const server = http.createServer((_, res) => {
+      res.writeHead(429, { 'Retry-After': '2' });
+      res.end('Too Many Requests');
+    });
+    server.listen(0, '127.0.0.1', () => resolve(server));
+  });
+}
+
+const budgetTestCases: { name: string; run: () => Promise<boolean> }[] = [
+  {
+    name: 'maxRps blocks within the current second and frees up after it',
+    run: async () => {
+      let now = 1000000;
+      const tracker = new UpstreamBudgetTracker(() => now);
+      const upstream: UpstreamConfig = { id: 'rps', rpcUrl: '', type: 'full', priority: 1, maxRps: 2 };
+
+      tracker.recordRequest(upstream, rpc('eth_call'));
+      tracker.recordRequest(upstream, rpc('eth_call'));
+      const blocked = tracker.checkCapacity(upstream, 'eth_call', 0);
+      now += 1000;
+      return blocked?.reason === 'max_rps' && tracker.checkCapacity(upstream, 'eth_call', 0) === null;
+    }
+  },
+  {
+    name: 'maxConcurrent compares against in-flight requests',
+    run: async () => {
+      const tracker = new UpstreamBudgetTracker();
+      const upstream: UpstreamConfig = { id: 'conc', rpcUrl: '', type: 'full', priority: 1, maxConcurrent: 3 };
+      return tracker.checkCapacity(upstream, 'eth_call', 2) === null &&
+        tracker.checkCapacity(upstream, 'eth_call', 3)?.reason === 'max_concurrent';
+    }
+  },
+  {
+    name: 'Credits are spent by method cost, including batches and wildcards',
+    run: async () => {
+      const tracker = new UpstreamBudgetTracker();
+      const upstream: UpstreamConfig = {
+        id: 'credits',
+        rpcUrl: '',
+        type: 'archive',
+        priority: 1,
+        credits: { limit: 100, methodCosts: { eth_getLogs: 75, 'debug_*': 50 } }
+      };
+
+      tracker.recordRequest(upstream, [rpc('eth_call'), rpc('debug_traceTransaction')]);
+      const cheapAllowed = tracker.checkCapacity(upstream, 'eth_call', 0) === null;
+      const expensiveBlocked = tracker.checkCapacity(upstream, 'eth_getLogs', 0)?.reason === 'credits';
+      return cheapAllowed && expensiveBlocked && tracker.getStatus(upstream).creditsUsed === 51;
+    }
+  },
+  {
+    name: 'Credit usage resets with the period',
+    run: async () => {
+      let now = Date.UTC(2024, 0, 31, 12);
+      const tracker = new UpstreamBudgetTracker(() => now);
+      const upstream: UpstreamConfig = { id: 'monthly', rpcUrl: '', type: 'full', priority: 1, credits: { limit: 1 } };
+
+      tracker.recordRequest(upstream, rpc('eth_call'));
+      const exhausted = tracker.checkCapacity(upstream, 'eth_call', 0)?.reason === 'credits';
+      now = Date.UTC(2024, 1, 1, 0);
+      return exhausted && tracker.checkCapacity(upstream, 'eth_call', 0) === null;
+    }
+  },
+  {
+    name: 'Retry-After accepts seconds and HTTP dates',
+    run: async () => {
+      const now = Date.UTC(2024, 0, 1, 0, 0, 0);
+      return parseRetryAfter('3', now) === 3000 &&
+        parseRetryAfter(new Date(now + 5000).toUTCString(), now) === 5000 &&
+        parseRetryAfter(null, now) === null &&
+        parseRetryAfter('soon', now) === null;
+    }
+  },
+  {
+    name: 'UpstreamBudget operation removes exhausted upstreams',
+    run: async () => {
+      const upstreams: UpstreamConfig[] = [
+        { id: 'spent', rpcUrl: '', type: 'full', priority: 1, credits: { limit: 1 } },
+        { id: 'fresh', rpcUrl: '', type: 'full', priority: 2 }
+      ];
+      const upstreamService = new UpstreamService(createProject(upstreams));
+      upstreamService['budgetTracker'].recordRequest(upstreams[0], rpc('eth_call'));
+
+      const operation = new UpstreamBudgetOps(upstreamService);
+      const result = await operation.execute({
+        request: rpc('eth_call'),
+        availableUpstreams: upstreams,
+        upstreamHealth: upstreamService.getHealthMap()
+      } as RoutingContext);
+
+      return result.filteredUpstreams.map(u => u.id).join(',') === 'fresh' &&
+        result.shouldContinue && result.details?.blocked.spent === 'credits';
+    }
+  },
+  {
+    name: 'HTTP 429 throttles the upstream without marking it unhealthy',
+    run: async () => {
+      const server = await startRateLimitedUpstream();
+      try {
+        const port = (server.address() as AddressInfo).port;
+        const upstream: UpstreamConfig = { id: 'limited', rpcUrl: `http://127.0.0.1:${port}`, type: 'full', priority: 1 };
+        const upstreamService = new UpstreamService(createProject([upstream]));
+
+        const result = await upstreamService.proxyRequest(upstream, rpc('eth_call'));
+        const block = upstreamService.getBudgetBlock(upstream, 'eth_call');
+
+        return !result.success && result.errorClass === 'http_429' &&
+          upstreamService.isUpstreamHealthy('limited') &&
+          upstreamService.getHealthMap().get('limited')!.totalErrors === 0 &&
+          block?.reason === 'throttled' && block.retryAfterMs! > 1000 && block.retryAfterMs! <= 2000;
+      } finally {
+        server.close();
+      }
+    }
+  }
+];
+
+async function runUpstreamBudgetTests(): Promise<boolean> {
+  let passed = 0;
+  let failed = 0;
+
+  for (const testCase of budgetTestCases) {
+    try {
+      if (await testCase.run()) {
+        console.log(`✅ ${testCase.name}`);
+        passed++;
+      } else {
+        console.log(`❌ ${testCase.name}`);
+        failed++;
+      }
+    } catch (error) {
+      console.log(`💥 ${testCase.name} - ${(error as Error).message}`);
+      failed++;
+    }
+  }
+
+  console.log(`\n📊 Upstream Budget Test Results:`);
+  console.log(`✅ Passed: ${passed}`);
+  console.log(`❌ Failed: ${failed}`);
+
+  if (failed === 0) {
+    console.log(`\n🎉 All Upstream Budget tests passed!`);
+  } else {
+    console.log(`\n💥 ${failed} test(s) failed.`);
+  }
+  return failed === 0;
+}
+
+// Run tests only if this file is executed directly
+if (require.main === module) {
+  runUpstreamBudgetTests()
+    .then(passed => process.exit(passed ? 0 : 1))
+    .catch(error => {
+      console.error('Upstream budget test execution failed:', error);
+      process.exit(1);
+    });
+}
+
+export { runUpstreamBudgetTests };
\ No newline at end of file